@@ -0,0 +1,22 @@
+import { exportSession } from "@/lib/sessionExport";
+import { getSessionStore } from "@/lib/sessionStore";
+
+export const runtime = "nodejs";
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const sess = await getSessionStore().get(params.id);
+    if (!sess) {
+      return new Response(JSON.stringify({ error: "Session not found" }), { status: 404 });
+    }
+    return new Response(JSON.stringify(exportSession(sess), null, 2), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="spiral-session-${params.id}.json"`,
+      },
+    });
+  } catch (err: any) {
+    return new Response(JSON.stringify({ error: String(err?.message ?? err) }), { status: 500 });
+  }
+}
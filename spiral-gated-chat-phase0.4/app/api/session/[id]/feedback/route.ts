@@ -0,0 +1,53 @@
+import { applyFeedback, emptyFeedbackState, FeedbackBodySchema, type FeedbackBody } from "@/lib/feedback";
+import { resolveGateConfig } from "@/lib/gateConfig";
+import { getSessionStore, saveSession, withSessionLock } from "@/lib/sessionStore";
+
+export const runtime = "nodejs";
+
+type Params = { params: { id: string } };
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Ratings so far and the current calibration
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const sess = await getSessionStore().get(params.id);
+    if (!sess) return json({ error: "Session not found" }, 404);
+    const fb = sess.feedback ?? emptyFeedbackState();
+    return json({ entries: fb.entries, calibration: fb.calibration }, 200);
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 500);
+  }
+}
+
+// body: { turn: number, rating: "up" | "down" | "too_short" | "too_long" } — one rating per turn
+export async function POST(req: Request, { params }: Params) {
+  let body: FeedbackBody;
+  try {
+    const parsed = FeedbackBodySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return json({ error: `Invalid feedback${issue.path.length ? ` at ${issue.path.join(".")}` : ""}: ${issue.message}` }, 400);
+    }
+    body = parsed.data;
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 400);
+  }
+
+  try {
+    return await withSessionLock(params.id, async () => {
+      const sess = await getSessionStore().get(params.id);
+      if (!sess) return json({ error: "Session not found" }, 404);
+      const fb = (sess.feedback ??= emptyFeedbackState());
+      if (fb.entries.some((e) => e.turn === body.turn)) return json({ error: `Turn ${body.turn} is already rated` }, 409);
+      const entry = applyFeedback(fb, body.turn, body.rating, resolveGateConfig(sess.config).config.feedback);
+      if (!entry) return json({ error: `No record of turn ${body.turn}` }, 404);
+      await saveSession(sess);
+      return json({ entry, calibration: fb.calibration }, 200);
+    });
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 500);
+  }
+}
@@ -0,0 +1,55 @@
+import { deleteFragment, FragmentPatchSchema, listFragments, patchFragment, type FragmentPatch } from "@/lib/fragmentActions";
+import { getSessionStore, saveSession, withSessionLock, type Session } from "@/lib/sessionStore";
+import type { FragmentAction } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+type Params = { params: { id: string; fragmentId: string } };
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Load → change → save under the session lock (so an in-flight turn can't overwrite the edit)
+async function mutate(params: Params["params"], change: (sess: Session) => FragmentAction[] | null): Promise<Response> {
+  return withSessionLock(params.id, async () => {
+    const sess = await getSessionStore().get(params.id);
+    if (!sess) return json({ error: "Session not found" }, 404);
+    const actions = change(sess);
+    if (!actions) return json({ error: "Fragment not found" }, 404);
+    if (actions.length) await saveSession(sess);
+    return json({ actions, fragments: listFragments(sess.memory) }, 200);
+  });
+}
+
+// body: { pinned?: boolean, text?: string, salience?: number }
+export async function PATCH(req: Request, { params }: Params) {
+  let patch: FragmentPatch;
+  try {
+    const parsed = FragmentPatchSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return json({ error: `Invalid patch${issue.path.length ? ` at ${issue.path.join(".")}` : ""}: ${issue.message}` }, 400);
+    }
+    patch = parsed.data;
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 400);
+  }
+
+  try {
+    return await mutate(params, (sess) => patchFragment(sess.memory, params.fragmentId, patch, sess.turn));
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 500);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    return await mutate(params, (sess) => {
+      const action = deleteFragment(sess.memory, params.fragmentId, sess.turn);
+      return action ? [action] : null;
+    });
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 500);
+  }
+}
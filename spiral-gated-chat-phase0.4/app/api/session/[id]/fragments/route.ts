@@ -0,0 +1,24 @@
+import { listFragments } from "@/lib/fragmentActions";
+import { getSessionStore } from "@/lib/sessionStore";
+
+export const runtime = "nodejs";
+
+// Full fragment bank (not just the debug top-10) plus the manual action log
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const sess = await getSessionStore().get(params.id);
+    if (!sess) {
+      return new Response(JSON.stringify({ error: "Session not found" }), { status: 404 });
+    }
+    return new Response(
+      JSON.stringify({
+        turn: sess.turn,
+        fragments: listFragments(sess.memory),
+        actions: sess.memory.fragment_actions ?? [],
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (err: any) {
+    return new Response(JSON.stringify({ error: String(err?.message ?? err) }), { status: 500 });
+  }
+}
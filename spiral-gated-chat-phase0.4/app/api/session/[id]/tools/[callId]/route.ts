@@ -0,0 +1,47 @@
+import { resolveGateConfig } from "@/lib/gateConfig";
+import { getSessionStore, saveSession, withSessionLock } from "@/lib/sessionStore";
+import { resolvePendingTool, ToolConfirmBodySchema, type ToolConfirmBody } from "@/lib/tools";
+
+export const runtime = "nodejs";
+
+type Params = { params: { id: string; callId: string } };
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// body: { approve: boolean } — approve runs the held call now; either way the model hears about it next turn
+export async function POST(req: Request, { params }: Params) {
+  let body: ToolConfirmBody;
+  try {
+    const parsed = ToolConfirmBodySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return json({ error: `Invalid confirmation${issue.path.length ? ` at ${issue.path.join(".")}` : ""}: ${issue.message}` }, 400);
+    }
+    body = parsed.data;
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 400);
+  }
+
+  try {
+    return await withSessionLock(params.id, async () => {
+      const sess = await getSessionStore().get(params.id);
+      if (!sess) return json({ error: "Session not found" }, 404);
+      const p = sess.pending_tools?.find((x) => x.id === params.callId);
+      if (!p) return json({ error: "Tool call not found" }, 404);
+      if (p.status !== "pending") return json({ error: `Tool call already ${p.status}` }, 409);
+      const config = resolveGateConfig(sess.config).config;
+      const call = resolvePendingTool(
+        p,
+        body.approve,
+        { memory: sess.memory, turn: sess.turn, state: sess.gate.last_state, dim: p.dim, fragments: config.fragments, now: Date.now() },
+        config.tools
+      );
+      await saveSession(sess);
+      return json({ call }, 200);
+    });
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 500);
+  }
+}
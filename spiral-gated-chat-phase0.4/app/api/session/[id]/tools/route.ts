@@ -0,0 +1,20 @@
+import { getSessionStore } from "@/lib/sessionStore";
+
+export const runtime = "nodejs";
+
+type Params = { params: { id: string } };
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Tool calls held for confirmation (pending and recently resolved)
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const sess = await getSessionStore().get(params.id);
+    if (!sess) return json({ error: "Session not found" }, 404);
+    return json({ pending_tools: sess.pending_tools ?? [] }, 200);
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 500);
+  }
+}
@@ -0,0 +1,36 @@
+import { importSession } from "@/lib/sessionExport";
+import { getSessionStore, saveSession, withSessionLock } from "@/lib/sessionStore";
+
+export const runtime = "nodejs";
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+export async function POST(req: Request) {
+  let imported: ReturnType<typeof importSession>;
+  let overwrite = false;
+  try {
+    // body: an exported document; ?sessionId=... picks the target id (default: a fresh one).
+    // An existing session is only replaced with ?overwrite=1.
+    const url = new URL(req.url);
+    const sessionId = url.searchParams.get("sessionId") || crypto.randomUUID();
+    overwrite = ["1", "true"].includes(url.searchParams.get("overwrite") ?? "");
+    imported = importSession(await req.json(), sessionId);
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 400);
+  }
+
+  try {
+    const { session, migratedFrom } = imported;
+    const saved = await withSessionLock(session.id, async () => {
+      if (!overwrite && (await getSessionStore().get(session.id))) return false;
+      await saveSession(session);
+      return true;
+    });
+    if (!saved) return json({ error: `Session ${session.id} already exists (pass overwrite=1 to replace it)` }, 409);
+    return json({ sessionId: session.id, turn: session.turn, history: session.history, migrated_from: migratedFrom }, 200);
+  } catch (err: any) {
+    return json({ error: String(err?.message ?? err) }, 500);
+  }
+}
@@ -1,6 +1,11 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { StepEvent } from "@/lib/engine";
+import { appendTurnRecord, toTurnRecord } from "@/lib/turnLog";
+import type { FeedbackRating, StateCalibration, StateSource, StepDebug, TurnRecord } from "@/lib/types";
+import FragmentInspector from "@/components/FragmentInspector";
+import StateTimeline from "@/components/StateTimeline";
 
 type Role = "user" | "assistant";
 
@@ -8,65 +13,79 @@ type ChatMessage = {
   id: string;
   role: Role;
   text: string;
+  // session turn that produced an assistant message (target of ratings)
+  turn?: number;
+  rating?: FeedbackRating;
 };
 
-type DebugPayload = {
-  probeText: string | null;
-  probeText_original?: string | null;
+const RATINGS: { rating: FeedbackRating; label: string; title: string }[] = [
+  { rating: "up", label: "👍", title: "good depth" },
+  { rating: "down", label: "👎", title: "not helpful" },
+  { rating: "too_short", label: "too short", title: "wanted more depth" },
+  { rating: "too_long", label: "too long", title: "wanted less" },
+];
+
+// Telemetry shown while a turn is still streaming (replaced by the full debug on "done")
+type LiveTelemetry = {
+  phase: "probe" | "state" | "main" | "memory";
   dim: string | null;
   focus: string | null;
-  next?: string | null;
-  pulse?: {
-    triggered: boolean;
-    stagnation_detected: boolean;
-    repeating_dim: string | null;
-    candidates_text: string | null;
-    picked: number | null;
-    selected_probe: string | null;
-  };
-  memory?: {
-    ctx_keep_msgs: number;
-    summary_chars: number;
-    attn_items: number;
-    frag_items?: number;
-    summary_update_interval: number;
-    summary_update_max_tokens: number;
-    fragments?: {
-      total: number;
-      decay_factor: number;
-      top_salience: number;
-      last_add: {
-        added: boolean;
-        merged: boolean;
-        id: string;
-        salience: number;
-        text: string;
-      } | null;
-      injected: { id: string; turn: number; dim: string | null; salience: number; text: string }[];
-      top: { id: string; turn: number; dim: string | null; salience: number; text: string }[];
-    };
-  };
-  summary_used?: string | null;
-  summary_stored?: string | null;
-  metrics: {
-    surprisal: number | null;
-    entropy: number | null;
-    score: number | null;
-  };
-  state: number;
-  meta?: {
-    meta_cap_stage: number;
-    meta_cap: number | null;
-    recent_meta_share: number | null;
-  };
-  params: {
-    max_output_tokens: number;
-    temperature: number;
-    context_keep_msgs: number;
-  };
-  notes: string[];
+  state: number | null;
+  state_source: StateSource | null;
+  pulse: boolean;
+};
+
+async function readEventStream(res: Response, onEvent: (ev: StepEvent) => void): Promise<void> {
+  if (!res.body) throw new Error("empty stream");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+    let idx: number;
+    while ((idx = buf.indexOf("\n\n")) >= 0) {
+      const chunk = buf.slice(0, idx);
+      buf = buf.slice(idx + 2);
+      let event = "message";
+      const data: string[] = [];
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (!data.length) continue;
+      const payload = JSON.parse(data.join("\n"));
+      if (event === "error") throw new Error(payload?.error ?? "stream error");
+      onEvent(payload as StepEvent);
+    }
+  }
+}
+
+type StoredSession = {
+  sessionId: string;
+  turn: number;
+  history: { role: Role; content: string; turn?: number }[];
+  turn_log: TurnRecord[];
 };
 
+// Chat messages from the stored history; replies carry their turn (older sessions: inferred when
+// every turn left exactly one reply)
+function messagesFromHistory(sess: StoredSession): ChatMessage[] {
+  const replies = sess.history.filter((m) => m.role === "assistant").length;
+  let k = 0;
+  return sess.history.map((m) => {
+    const turn = m.turn ?? (m.role === "assistant" && replies === sess.turn ? k + 1 : undefined);
+    if (m.role === "assistant") k++;
+    return {
+      id: crypto.randomUUID(),
+      role: m.role,
+      text: m.content,
+      ...(m.role === "assistant" && turn !== undefined ? { turn } : {}),
+    };
+  });
+}
+
 function pretty(n: number | null | undefined, digits = 3): string {
   if (n === null || n === undefined || Number.isNaN(n)) return "—";
   return n.toFixed(digits);
@@ -77,7 +96,21 @@ export default function ChatApp() {
   const [input, setInput] = useState<string>("");
   const [busy, setBusy] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [debug, setDebug] = useState<DebugPayload | null>(null);
+  const [latestDebug, setDebug] = useState<StepDebug | null>(null);
+  // slim record of every finished turn (stored on the session), so earlier turns stay inspectable from the timeline
+  const [turnLog, setTurnLog] = useState<TurnRecord[]>([]);
+  const [selectedTurn, setSelectedTurn] = useState<number | null>(null);
+  const [live, setLive] = useState<LiveTelemetry | null>(null);
+  // id of the newest /api/step stream; an older one still finishing its summary must not touch the
+  // live telemetry or busy state of the turn sent after it
+  const streamRef = useRef(0);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  // gate preset picked in the UI; sent with the next turn and then sticks to the session server-side
+  const [pendingPreset, setPendingPreset] = useState<string | null>(null);
+  // calibration after the latest rating (applies from the next turn)
+  const [calibration, setCalibration] = useState<StateCalibration | null>(null);
+  // approve/deny decisions on held tool calls, by call id
+  const [toolDecisions, setToolDecisions] = useState<Record<string, "approved" | "denied">>({});
 
   useEffect(() => {
     let id = window.localStorage.getItem("spiral_session_id");
@@ -86,12 +119,104 @@ export default function ChatApp() {
       window.localStorage.setItem("spiral_session_id", id);
     }
     setSessionId(id);
+    loadSession(id);
   }, []);
 
+  const debug = latestDebug;
+  const selectedRecord = selectedTurn !== null ? (turnLog.find((t) => t.turn === selectedTurn) ?? null) : null;
+
   const statePct = useMemo(() => {
-    const s = debug?.state ?? 0;
+    const s = live?.state ?? debug?.state ?? 0;
     return Math.max(0, Math.min(1, s)) * 100;
-  }, [debug]);
+  }, [debug, live]);
+
+  // restore the chat and the timeline from the server (unknown id → a fresh session)
+  async function loadSession(id: string) {
+    try {
+      const res = await fetch(`/api/session/${encodeURIComponent(id)}`);
+      const data = await res.json();
+      if (res.status === 404) return;
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      const stored = data as StoredSession;
+      setMessages(messagesFromHistory(stored));
+      setTurnLog(stored.turn_log);
+      setDebug(null);
+      setSelectedTurn(null);
+    } catch (e: any) {
+      window.alert(`session load failed: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  async function exportSession() {
+    if (!sessionId) return;
+    try {
+      const res = await fetch(`/api/session/${encodeURIComponent(sessionId)}/export`);
+      if (!res.ok) throw new Error((await res.text()) || `HTTP ${res.status}`);
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `spiral-session-${sessionId}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      window.alert(`export failed: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  async function importSession(file: File) {
+    try {
+      const res = await fetch("/api/session/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      const imported = data as { sessionId: string };
+      window.localStorage.setItem("spiral_session_id", imported.sessionId);
+      setSessionId(imported.sessionId);
+      setCalibration(null);
+      setMessages([]);
+      setDebug(null);
+      setTurnLog([]);
+      await loadSession(imported.sessionId);
+    } catch (e: any) {
+      window.alert(`import failed: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  async function rate(msg: ChatMessage, rating: FeedbackRating) {
+    if (!sessionId || msg.turn === undefined) return;
+    try {
+      const res = await fetch(`/api/session/${encodeURIComponent(sessionId)}/feedback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ turn: msg.turn, rating }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setMessages((m) => m.map((x) => (x.id === msg.id ? { ...x, rating } : x)));
+      setCalibration(data.calibration as StateCalibration);
+    } catch (e: any) {
+      window.alert(`feedback failed: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  async function confirmTool(callId: string, approve: boolean) {
+    if (!sessionId) return;
+    try {
+      const res = await fetch(`/api/session/${encodeURIComponent(sessionId)}/tools/${encodeURIComponent(callId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ approve }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setToolDecisions((d) => ({ ...d, [callId]: data.call.status }));
+    } catch (e: any) {
+      window.alert(`tool confirmation failed: ${String(e?.message ?? e)}`);
+    }
+  }
 
   async function send() {
     if (!sessionId) return;
@@ -102,35 +227,83 @@ export default function ChatApp() {
     setMessages((m) => [...m, userMsg]);
     setBusy(true);
 
+    const asstId = crypto.randomUUID();
+    const streamId = ++streamRef.current;
+    const current = () => streamRef.current === streamId;
+    setLive({ phase: "probe", dim: null, focus: null, state: null, state_source: null, pulse: false });
+
+    function updateLive(update: (prev: LiveTelemetry | null) => LiveTelemetry | null) {
+      if (current()) setLive(update);
+    }
+
+    function patchAssistant(update: (prev: string) => string) {
+      setMessages((m) => m.map((x) => (x.id === asstId ? { ...x, text: update(x.text) } : x)));
+    }
+
     try {
       const res = await fetch("/api/step", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ sessionId, userText: text }),
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({
+          sessionId,
+          userText: text,
+          ...(pendingPreset ? { config: { preset: pendingPreset } } : {}),
+        }),
       });
+      setPendingPreset(null);
       if (!res.ok) {
         const errText = await res.text();
         throw new Error(errText || `HTTP ${res.status}`);
       }
-      const data = (await res.json()) as { assistantText: string; debug: DebugPayload };
-      const asstMsg: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        text: data.assistantText,
-      };
-      setMessages((m) => [...m, asstMsg]);
-      setDebug(data.debug);
+      setMessages((m) => [...m, { id: asstId, role: "assistant", text: "" }]);
+      await readEventStream(res, (ev) => {
+        switch (ev.type) {
+          case "probe":
+            setMessages((m) => m.map((x) => (x.id === asstId ? { ...x, turn: ev.turn } : x)));
+            updateLive((l) => (l ? { ...l, phase: "state", dim: ev.dim, focus: ev.focus } : l));
+            break;
+          case "state":
+            updateLive((l) => (l ? { ...l, phase: "main", state: ev.state, state_source: ev.state_source } : l));
+            break;
+          case "pulse":
+            if (ev.pulse.triggered) updateLive((l) => (l ? { ...l, pulse: true } : l));
+            break;
+          case "delta":
+            patchAssistant((prev) => prev + ev.text);
+            break;
+          case "delta_reset":
+            patchAssistant(() => "");
+            break;
+          case "main_done":
+            // note extraction runs after this; the next message can already be typed and sent
+            patchAssistant(() => ev.assistantText);
+            updateLive((l) => (l ? { ...l, phase: "memory" } : l));
+            if (current()) setBusy(false);
+            break;
+          case "summary":
+            break;
+          case "done":
+            setDebug(ev.debug);
+            setTurnLog((log) =>
+              appendTurnRecord(log, toTurnRecord(ev.debug), ev.debug.config.resolved.memory.turn_log_max)
+            );
+            setCalibration(null);
+            setSelectedTurn(null);
+            updateLive(() => null);
+            break;
+        }
+      });
     } catch (e: any) {
-      const asstMsg: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        text:
-          "[error] API呼び出しに失敗しました。サーバログ／APIキー／モデル名を確認してね。\n" +
-          String(e?.message ?? e),
-      };
-      setMessages((m) => [...m, asstMsg]);
+      const errText =
+        "[error] API呼び出しに失敗しました。サーバログ／APIキー／モデル名を確認してね。\n" + String(e?.message ?? e);
+      setMessages((m) =>
+        m.some((x) => x.id === asstId)
+          ? m.map((x) => (x.id === asstId ? { ...x, text: x.text ? `${x.text}\n\n${errText}` : errText } : x))
+          : [...m, { id: asstId, role: "assistant", text: errText }]
+      );
+      updateLive(() => null);
     } finally {
-      setBusy(false);
+      if (current()) setBusy(false);
     }
   }
 
@@ -141,6 +314,36 @@ export default function ChatApp() {
         <div style={{ padding: 16, borderBottom: "1px solid #eee" }}>
           <div style={{ fontWeight: 700 }}>Spiral Gated Chat — Phase0.4 (Salience fragments)</div>
           <div style={{ fontSize: 12, color: "#666" }}>session: {sessionId ?? "…"}</div>
+          <div style={{ marginTop: 8, display: "flex", gap: 8 }}>
+            <button onClick={exportSession} disabled={busy || !sessionId} style={{ fontSize: 12 }}>
+              Export
+            </button>
+            <button onClick={() => importInputRef.current?.click()} disabled={busy} style={{ fontSize: 12 }}>
+              Import
+            </button>
+            <select
+              value={pendingPreset ?? debug?.config.preset ?? "default"}
+              onChange={(e) => setPendingPreset(e.target.value)}
+              disabled={busy}
+              style={{ fontSize: 12 }}
+              title="gate preset (applied from the next message; session overrides are kept)"
+            >
+              <option value="frugal">frugal</option>
+              <option value="default">default</option>
+              <option value="deep">deep</option>
+            </select>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                e.target.value = "";
+                if (f) importSession(f);
+              }}
+            />
+          </div>
         </div>
 
         <div style={{ flex: 1, overflow: "auto", padding: 16 }}>
@@ -164,6 +367,29 @@ export default function ChatApp() {
               >
                 {m.text}
               </div>
+              {m.role === "assistant" && m.turn !== undefined ? (
+                <div style={{ display: "flex", gap: 6, marginTop: 4, fontSize: 12 }}>
+                  {RATINGS.map((r) => (
+                    <button
+                      key={r.rating}
+                      title={r.title}
+                      disabled={m.rating !== undefined}
+                      onClick={() => rate(m, r.rating)}
+                      style={{
+                        fontSize: 12,
+                        border: "1px solid #ddd",
+                        borderRadius: 6,
+                        padding: "1px 6px",
+                        background: m.rating === r.rating ? "#111" : "#fff",
+                        color: m.rating === r.rating ? "#fff" : "#444",
+                        cursor: m.rating !== undefined ? "default" : "pointer",
+                      }}
+                    >
+                      {r.label}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
             </div>
           ))}
         </div>
@@ -201,7 +427,12 @@ export default function ChatApp() {
         <div style={{ padding: 16, borderBottom: "1px solid #eee" }}>
           <div style={{ fontWeight: 700 }}>state / probe</div>
           <div style={{ fontSize: 12, color: "#666" }}>
-            state = {pretty(debug?.state ?? 0)}
+            state = {pretty(live?.state ?? debug?.state ?? 0)}
+            {(live?.state_source ?? debug?.metrics.state_source) ? ` (${live?.state_source ?? debug?.metrics.state_source})` : ""}
+            {live ? ` · ${live.phase}…` : ""}
+            {live?.dim ? ` · ${live.dim}` : ""}
+            {live?.focus ? ` / ${live.focus}` : ""}
+            {live?.pulse ? " · pulse ON" : ""}
           </div>
           <div style={{ marginTop: 8, height: 10, background: "#f0f0f0", borderRadius: 999 }}>
             <div style={{ width: `${statePct}%`, height: 10, background: "#111", borderRadius: 999 }} />
@@ -209,6 +440,34 @@ export default function ChatApp() {
         </div>
 
         <div style={{ flex: 1, overflow: "auto", padding: 16 }}>
+          <div style={{ border: "1px solid #eee", borderRadius: 12, padding: 12, marginBottom: 10 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, color: "#666" }}>
+              <span>timeline ({turnLog.length} turns)</span>
+              {selectedTurn !== null ? (
+                <button
+                  onClick={() => setSelectedTurn(null)}
+                  style={{ fontSize: 12, border: "none", background: "none", color: "#4a7bd0", cursor: "pointer" }}
+                >
+                  turn {selectedTurn} · clear
+                </button>
+              ) : null}
+            </div>
+            <StateTimeline turns={turnLog} selected={selectedTurn} onSelect={setSelectedTurn} />
+            {selectedRecord ? (
+              <div style={{ fontSize: 12, color: "#666", marginTop: 6, whiteSpace: "pre-wrap" }}>
+                t{selectedRecord.turn} · state {pretty(selectedRecord.state, 2)} ({selectedRecord.state_source}, raw{" "}
+                {pretty(selectedRecord.raw_state, 2)}) · score {pretty(selectedRecord.score, 2)}
+                {selectedRecord.pulse.triggered ? " · pulse" : selectedRecord.pulse.stagnation_detected ? " · stagnation" : ""}
+                <br />
+                {selectedRecord.dim ?? "—"} / {selectedRecord.focus ?? "—"}
+                {selectedRecord.next ? ` → ${selectedRecord.next}` : ""}
+                <br />
+                ctx {selectedRecord.budgets.context_tokens} tok · out {selectedRecord.budgets.max_output_tokens} · summary{" "}
+                {selectedRecord.budgets.summary_chars} chars · attn {selectedRecord.budgets.attn_items} · frag{" "}
+                {selectedRecord.budgets.frag_items}
+              </div>
+            ) : null}
+          </div>
           <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
             <div style={{ border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
               <div style={{ fontSize: 12, color: "#666" }}>DIM</div>
@@ -225,7 +484,7 @@ export default function ChatApp() {
             <div style={{ border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
               <div style={{ fontSize: 12, color: "#666" }}>memory / pulse</div>
               <div style={{ fontSize: 12, color: "#666", marginTop: 4 }}>
-                ctx msgs: {debug?.memory?.ctx_keep_msgs ?? debug?.params.context_keep_msgs ?? "—"}
+                ctx msgs: {debug?.memory?.ctx_keep_msgs ?? "—"}
                 <br />
                 summary chars: {debug?.memory?.summary_chars ?? "—"}
                 <br />
@@ -236,6 +495,9 @@ export default function ChatApp() {
                 summary interval: {debug?.memory?.summary_update_interval ?? "—"} / maxTok{" "}
                 {debug?.memory?.summary_update_max_tokens ?? "—"}
               </div>
+              {debug?.config.resolved.fragments.extraction.enabled ? (
+                <div style={{ fontSize: 12, color: "#666" }}>note extract interval: {debug.memory.extract_interval}</div>
+              ) : null}
               {debug?.memory?.fragments ? (
                 <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
                   fragments: {debug.memory.fragments.total} (decay×{pretty(debug.memory.fragments.decay_factor, 2)})
@@ -268,9 +530,54 @@ export default function ChatApp() {
               entropy: {pretty(debug?.metrics.entropy)}
               <br />
               score: {pretty(debug?.metrics.score)}
+              <br />
+              source: {debug?.metrics.state_source ?? "—"}
             </div>
+            {debug?.calibration ? (
+              <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
+                calibration ({debug.calibration.ratings} ratings): tau {pretty(debug.calibration.tau, 2)} · score offset{" "}
+                {pretty(debug.calibration.score_offset, 2)}
+                {debug.calibration.applied && debug.calibration.ratings
+                  ? ` · raw ${pretty(debug.calibration.uncalibrated, 2)} → ${pretty(debug.metrics.raw_state, 2)}`
+                  : ""}
+              </div>
+            ) : null}
+            {calibration ? (
+              <div style={{ fontSize: 12, color: "#666", marginTop: 2 }}>
+                next turn: tau ×{pretty(calibration.tau_scale, 2)} · offset {pretty(calibration.offset, 2)} ({calibration.ratings}{" "}
+                ratings)
+              </div>
+            ) : null}
+            {debug?.metrics.fallback ? (
+              <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
+                fallback estimate {pretty(debug.metrics.fallback.estimate, 2)}:{" "}
+                {Object.entries(debug.metrics.fallback.signals)
+                  .map(([name, v]) => `${name} ${v === null ? "—" : v.toFixed(2)}`)
+                  .join(" · ")}
+              </div>
+            ) : null}
           </div>
 
+          {debug?.ensemble ? (
+            <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+              <div style={{ fontSize: 12, color: "#666" }}>
+                probe ensemble ({debug.ensemble.samples.length} samples, {debug.ensemble.aggregate})
+              </div>
+              <ul style={{ margin: "6px 0 0 18px", padding: 0, fontSize: 12 }}>
+                {debug.ensemble.samples.map((x, i) => (
+                  <li key={i}>
+                    #{i + 1} {x.dim ?? "—"} · S={pretty(x.surprisal, 2)} H={pretty(x.entropy, 2)} score={pretty(x.score, 2)}
+                  </li>
+                ))}
+              </ul>
+              <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
+                majority: {debug.ensemble.majority_dim ?? "—"} (agreement {pretty(debug.ensemble.agreement, 2)})
+                <br />
+                score = {pretty(debug.ensemble.base_score, 3)} + disagreement {pretty(debug.ensemble.disagreement_term, 3)}
+              </div>
+            </div>
+          ) : null}
+
           <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
             <div style={{ fontSize: 12, color: "#666" }}>mapped params (main)</div>
             <div style={{ fontSize: 13, marginTop: 6 }}>
@@ -278,17 +585,185 @@ export default function ChatApp() {
               <br />
               temperature: {pretty(debug?.params.temperature, 2)}
               <br />
-              context_keep_msgs: {debug?.params.context_keep_msgs ?? "—"}
+              context_tokens: {debug?.params.context_tokens ?? "—"}
             </div>
           </div>
 
+          {debug?.routing && Object.keys(debug.routing).length ? (
+            <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+              <div style={{ fontSize: 12, color: "#666" }}>model routing</div>
+              <div style={{ fontSize: 12, marginTop: 6 }}>
+                {Object.entries(debug.routing).map(([phase, r]) =>
+                  r ? (
+                    <div key={phase}>
+                      {phase}: <b>{r.model}</b>
+                      <span style={{ color: "#999" }}>
+                        {" "}
+                        · {r.route !== null ? `route #${r.route}` : "default"} @ state {pretty(r.state, 2)}
+                        {r.capabilities.logprobs ? "" : " · no logprobs"}
+                        {r.skipped.length ? ` · skipped ${r.skipped.map((x) => x.model).join(", ")}` : ""}
+                      </span>
+                    </div>
+                  ) : null
+                )}
+              </div>
+            </div>
+          ) : null}
+
+          {debug?.tools && (debug.tools.max_iterations > 0 || debug.tools.reported.length) ? (
+            <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+              <div style={{ fontSize: 12, color: "#666" }}>
+                tools: {debug.tools.iterations} / {debug.tools.max_iterations} rounds
+                {debug.tools.confirm_required ? " · confirmation required" : ""}
+              </div>
+              <div style={{ fontSize: 12, marginTop: 6 }}>
+                {debug.tools.calls.length ? (
+                  debug.tools.calls.map((c) => (
+                    <div key={c.id} style={{ marginBottom: 4 }}>
+                      <b>{c.name}</b> <span style={{ color: "#999" }}>{c.arguments}</span> · {c.status}
+                      <div style={{ color: "#555", whiteSpace: "pre-wrap" }}>{c.output}</div>
+                      {c.status === "needs_confirmation" ? (
+                        toolDecisions[c.id] ? (
+                          <div style={{ color: "#666" }}>{toolDecisions[c.id]} (sent to the model next turn)</div>
+                        ) : (
+                          <div style={{ display: "flex", gap: 6, marginTop: 2 }}>
+                            <button onClick={() => confirmTool(c.id, true)} style={{ fontSize: 11 }}>
+                              approve
+                            </button>
+                            <button onClick={() => confirmTool(c.id, false)} style={{ fontSize: 11 }}>
+                              deny
+                            </button>
+                          </div>
+                        )
+                      ) : null}
+                    </div>
+                  ))
+                ) : (
+                  <div style={{ color: "#999" }}>offered: {debug.tools.offered.join(", ") || "none"} · no calls</div>
+                )}
+                {debug.tools.reported.map((p) => (
+                  <div key={p.id} style={{ color: "#666" }}>
+                    reported: {p.name} from turn {p.turn} → {p.status}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {debug?.memory?.context ? (
+            <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+              <div style={{ fontSize: 12, color: "#666" }}>
+                context tokens (est.): {debug.memory.context.used} / {debug.memory.context.total}
+              </div>
+              <div style={{ fontSize: 12, marginTop: 6 }}>
+                {(Object.entries(debug.memory.context.sections) as [string, { budget: number; used: number; items: number }][]).map(
+                  ([name, sec]) => (
+                    <div key={name} style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                      <span style={{ width: 64, color: "#666" }}>{name}</span>
+                      <div style={{ flex: 1, height: 6, background: "#f0f0f0", borderRadius: 999 }}>
+                        <div
+                          style={{
+                            width: `${Math.min(100, (sec.used / Math.max(1, debug.memory.context.total)) * 100)}%`,
+                            height: 6,
+                            background: "#111",
+                            borderRadius: 999,
+                          }}
+                        />
+                      </div>
+                      <span style={{ width: 110, textAlign: "right", color: "#666" }}>
+                        {sec.used} / {sec.budget} · {sec.items}
+                      </span>
+                    </div>
+                  )
+                )}
+              </div>
+              {debug.memory.context.elided_messages || debug.memory.context.dropped_messages ? (
+                <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
+                  elided {debug.memory.context.elided_messages} · dropped {debug.memory.context.dropped_messages} messages
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          {debug?.config ? (
+            <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+              <div style={{ fontSize: 12, color: "#666" }}>gate config (preset: {debug.config.preset})</div>
+              {debug.config.overrides ? (
+                <pre style={{ whiteSpace: "pre-wrap", fontSize: 12, margin: "6px 0 0 0" }}>
+                  {JSON.stringify(debug.config.overrides, null, 2)}
+                </pre>
+              ) : (
+                <div style={{ fontSize: 12, color: "#999", marginTop: 4 }}>(no session overrides)</div>
+              )}
+            </div>
+          ) : null}
+
+          {debug?.cost ? (
+            <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+              <div style={{ fontSize: 12, color: "#666" }}>cost (tokens in / out, USD)</div>
+              <div style={{ fontSize: 12, marginTop: 6 }}>
+                {Object.entries(debug.cost.phases).map(([phase, p]) =>
+                  p ? (
+                    <div key={phase}>
+                      {phase}: {p.input_tokens} / {p.output_tokens} · ${p.cost_usd.toFixed(5)}
+                      {p.calls > 1 ? ` (${p.calls} calls)` : ""}
+                      <span style={{ color: "#999" }}> · {p.models.join(", ")}</span>
+                    </div>
+                  ) : null
+                )}
+                {Object.keys(debug.cost.models ?? {}).length > 1 ? (
+                  <div style={{ marginTop: 4 }}>
+                    {Object.entries(debug.cost.models).map(([model, m]) => (
+                      <div key={model}>
+                        {model}: {m.input_tokens} / {m.output_tokens} · ${m.cost_usd.toFixed(5)}
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+                <div style={{ marginTop: 4 }}>
+                  turn: {debug.cost.turn.input_tokens} / {debug.cost.turn.output_tokens} · $
+                  {debug.cost.turn.cost_usd.toFixed(5)}
+                </div>
+                <div>
+                  session: {debug.cost.session.input_tokens} / {debug.cost.session.output_tokens} · $
+                  {debug.cost.session.cost_usd.toFixed(4)} ({debug.cost.session.turns} turns)
+                </div>
+              </div>
+              {debug.cost.budget.spent_ratio !== null ? (
+                <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
+                  budget: {(debug.cost.budget.spent_ratio * 100).toFixed(0)}% used · pressure{" "}
+                  {pretty(debug.cost.budget.pressure, 2)} · state cap {pretty(debug.cost.budget.state_cap, 2)}
+                  {debug.cost.budget.exhausted ? " · exhausted" : ""}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
           {debug?.summary_used || debug?.summary_stored ? (
             <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
-              <div style={{ fontSize: 12, color: "#666" }}>summary</div>
+              <div style={{ fontSize: 12, color: "#666" }}>
+                summary
+                {debug?.summary_layers?.injected.length ? ` (injected: ${debug.summary_layers.injected.join(" + ")})` : ""}
+              </div>
               <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>used in prompt:</div>
               <div style={{ whiteSpace: "pre-wrap", fontSize: 12 }}>{debug?.summary_used ?? "—"}</div>
-              <div style={{ fontSize: 12, color: "#666", marginTop: 8 }}>stored:</div>
+              <div style={{ fontSize: 12, color: "#666", marginTop: 8 }}>headline:</div>
               <div style={{ whiteSpace: "pre-wrap", fontSize: 12 }}>{debug?.summary_stored ?? "—"}</div>
+              {debug?.summary_layers?.paragraph ? (
+                <>
+                  <div style={{ fontSize: 12, color: "#666", marginTop: 8 }}>paragraph:</div>
+                  <div style={{ whiteSpace: "pre-wrap", fontSize: 12 }}>{debug.summary_layers.paragraph}</div>
+                </>
+              ) : null}
+              {debug?.summary_layers ? (
+                <div style={{ fontSize: 12, color: "#666", marginTop: 8 }}>
+                  topic segments: {debug.summary_layers.segments}
+                  {debug.summary_layers.open_segment
+                    ? ` · current since t${debug.summary_layers.open_segment.start_turn} (${debug.summary_layers.open_segment.dim ?? "—"})`
+                    : ""}
+                  {debug.summary_layers.shift ? ` · shift: ${debug.summary_layers.shift}` : ""}
+                </div>
+              ) : null}
             </div>
           ) : null}
 
@@ -303,7 +778,53 @@ export default function ChatApp() {
                 triggered: {debug.pulse.triggered ? "YES" : "no"}
                 <br />
                 picked: {debug.pulse.picked ?? "—"}
+                {debug.pulse.verifier ? ` (${debug.pulse.verifier})` : ""}
+                {debug.pulse.recent_dims.length ? (
+                  <>
+                    <br />
+                    recent picks: {debug.pulse.recent_dims.join(" → ")}
+                  </>
+                ) : null}
               </div>
+              {debug.pulse.stagnation?.verdicts.length ? (
+                <div style={{ fontSize: 12, marginTop: 6 }}>
+                  <div style={{ color: "#666" }}>
+                    detectors ({debug.pulse.stagnation.mode}): {pretty(debug.pulse.stagnation.score, 2)} /{" "}
+                    {pretty(debug.pulse.stagnation.threshold, 2)}
+                  </div>
+                  {debug.pulse.stagnation.verdicts.map((v) => (
+                    <div key={v.detector} style={{ color: !v.available ? "#aaa" : v.stagnant ? "#d06a2a" : "#333" }}>
+                      {v.stagnant ? "●" : "○"} {v.detector}
+                      {v.value !== null ? ` ${pretty(v.value, 2)} / ${pretty(v.threshold, 2)}` : ""}
+                      {v.weight !== 1 ? ` ×${v.weight}` : ""}
+                      <span style={{ color: "#999" }}> · {v.evidence}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+              {debug.pulse.candidates.length ? (
+                <div style={{ fontSize: 12, marginTop: 6 }}>
+                  {debug.pulse.candidates.map((c, i) => (
+                    <div
+                      key={i}
+                      style={{
+                        color: c.dropped ? "#aaa" : "#333",
+                        fontWeight: debug.pulse.picked === i + 1 ? 600 : 400,
+                        textDecoration: c.dropped ? "line-through" : "none",
+                      }}
+                    >
+                      {i + 1}. {c.dim ?? "?"} / {c.focus ?? "—"}
+                      <span style={{ color: "#999" }}>
+                        {c.dropped
+                          ? ` · ${c.dropped}`
+                          : c.score !== null
+                            ? ` · ${c.score}${c.final_score !== c.score ? ` → ${pretty(c.final_score, 1)}` : ""}${c.reason ? ` · ${c.reason}` : ""}`
+                            : ""}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
               {debug.pulse.selected_probe ? (
                 <pre style={{ whiteSpace: "pre-wrap", fontSize: 12, margin: "8px 0 0 0" }}>
                   {debug.pulse.selected_probe}
@@ -312,24 +833,60 @@ export default function ChatApp() {
             </div>
           ) : null}
 
+          <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+            <FragmentInspector sessionId={sessionId} refreshKey={latestDebug?.turn ?? 0} />
+          </div>
+
           {debug?.memory?.fragments ? (
             <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
-              <div style={{ fontSize: 12, color: "#666" }}>memory fragments (salience)</div>
+              <div style={{ fontSize: 12, color: "#666" }}>
+                memory fragments ({debug.memory.fragments.ranking ?? "salience"}
+                {debug.memory.fragments.embedder ? ` · ${debug.memory.fragments.embedder}` : ""})
+              </div>
               {debug.memory.fragments.last_add ? (
                 <div style={{ fontSize: 12, color: "#666", marginTop: 6 }}>
                   last add: {debug.memory.fragments.last_add.added ? "added" : ""}
                   {debug.memory.fragments.last_add.merged ? "merged" : ""}
+                  {debug.memory.fragments.last_add.fuzzy
+                    ? ` (near-duplicate, ${debug.memory.fragments.last_add.fuzzy.via} ${pretty(debug.memory.fragments.last_add.fuzzy.similarity, 2)})`
+                    : ""}
                   {" "}s={pretty(debug.memory.fragments.last_add.salience, 2)}
                 </div>
               ) : null}
+              {debug.memory.fragments.merged_this_turn ? (
+                <div style={{ fontSize: 12, color: "#666" }}>merges this turn: {debug.memory.fragments.merged_this_turn}</div>
+              ) : null}
+
+              {debug.memory.fragments.extraction ? (
+                <div style={{ marginTop: 6, fontSize: 12, color: "#666" }}>
+                  extracted: {debug.memory.fragments.extraction.notes.length ? "" : "(nothing)"}
+                  {debug.memory.fragments.extraction.notes.map((n, i) => (
+                    <div key={i} style={{ color: "#111" }}>
+                      {n.text} <span style={{ color: "#999" }}>({n.added ? "added" : "merged"} s={pretty(n.salience, 2)})</span>
+                    </div>
+                  ))}
+                  {debug.memory.fragments.extraction.issues.map((x, i) => (
+                    <div key={`i${i}`} style={{ color: "#999" }}>
+                      {x}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
 
               <div style={{ marginTop: 8, fontSize: 12, color: "#666" }}>injected this turn:</div>
               {debug.memory.fragments.injected?.length ? (
                 <ul style={{ margin: "6px 0 0 18px", padding: 0, fontSize: 12 }}>
                   {debug.memory.fragments.injected.map((f) => (
                     <li key={f.id}>
+                      {f.pinned ? "📌 " : ""}
                       {f.dim ? `(${f.dim}) ` : ""}
-                      {f.text} <span style={{ color: "#999" }}>(s={pretty(f.salience, 2)})</span>
+                      {f.text}{" "}
+                      <span style={{ color: "#999" }}>
+                        (s={pretty(f.salience, 2)}
+                        {f.similarity !== null && f.similarity !== undefined ? ` sim=${pretty(f.similarity, 2)}` : ""}
+                        {f.score !== null && f.score !== undefined ? ` → ${pretty(f.score, 2)}` : ""}
+                        {f.merge_count ? ` ×${f.merge_count}` : ""})
+                      </span>
                     </li>
                   ))}
                 </ul>
@@ -354,8 +911,20 @@ export default function ChatApp() {
           ) : null}
 
           <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
-            <div style={{ fontSize: 12, color: "#666" }}>probe (effective)</div>
+            <div style={{ fontSize: 12, color: "#666" }}>
+              probe (effective)
+              {debug?.probe
+                ? ` · ${debug.probe.quality}${debug.probe.repairs ? ` after ${debug.probe.repairs} repair(s)` : ""}`
+                : ""}
+            </div>
             <pre style={{ whiteSpace: "pre-wrap", fontSize: 12, margin: 0 }}>{debug?.probeText ?? "—"}</pre>
+            {debug?.probe?.issues.length ? (
+              <ul style={{ margin: "6px 0 0 18px", padding: 0, fontSize: 12, color: "#999" }}>
+                {debug.probe.issues.map((x, i) => (
+                  <li key={i}>{x}</li>
+                ))}
+              </ul>
+            ) : null}
           </div>
 
           {debug?.probeText_original && debug.probeText_original !== debug.probeText ? (
@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FragmentListItem } from "@/lib/fragmentActions";
+import type { FragmentAction } from "@/lib/types";
+
+// Whole fragment bank with manual pin / edit / salience / forget. Reloads when `refreshKey` changes
+// (e.g. after every finished turn).
+
+type BankResponse = { turn: number; fragments: FragmentListItem[]; actions: FragmentAction[] };
+
+const small = { fontSize: 12, border: "1px solid #ddd", background: "#fff", borderRadius: 6, padding: "1px 6px", cursor: "pointer" };
+
+export default function FragmentInspector(props: { sessionId: string | null; refreshKey: number }) {
+  const { sessionId, refreshKey } = props;
+  const [bank, setBank] = useState<BankResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+
+  const base = sessionId ? `/api/session/${encodeURIComponent(sessionId)}/fragments` : null;
+
+  async function load() {
+    if (!base) return;
+    try {
+      const res = await fetch(base);
+      if (res.status === 404) {
+        setBank(null);
+        setError(null);
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setBank(data as BankResponse);
+      setError(null);
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    }
+  }
+
+  async function act(id: string, method: "PATCH" | "DELETE", body?: Record<string, unknown>) {
+    if (!base) return;
+    try {
+      const res = await fetch(`${base}/${encodeURIComponent(id)}`, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      await load();
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, [base, refreshKey]);
+
+  const frags = bank?.fragments ?? [];
+  const recent = (bank?.actions ?? []).slice(-5).reverse();
+
+  return (
+    <div>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, color: "#666" }}>
+        <span>fragment bank ({frags.length})</span>
+        <button onClick={load} style={small}>
+          reload
+        </button>
+      </div>
+      {error ? <div style={{ fontSize: 12, color: "#b00", marginTop: 4 }}>{error}</div> : null}
+      {!frags.length ? <div style={{ fontSize: 12, color: "#999", marginTop: 4 }}>(empty)</div> : null}
+      <div style={{ marginTop: 6, display: "flex", flexDirection: "column", gap: 6 }}>
+        {frags.map((f) => (
+          <div key={f.id} style={{ fontSize: 12, borderTop: "1px solid #f3f3f3", paddingTop: 4 }}>
+            {editing?.id === f.id ? (
+              <div style={{ display: "flex", gap: 4 }}>
+                <input
+                  value={editing.text}
+                  maxLength={160}
+                  onChange={(e) => setEditing({ id: f.id, text: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") act(f.id, "PATCH", { text: editing.text }).then(() => setEditing(null));
+                    if (e.key === "Escape") setEditing(null);
+                  }}
+                  style={{ flex: 1, fontSize: 12, padding: "2px 6px", border: "1px solid #ddd", borderRadius: 6 }}
+                />
+                <button onClick={() => act(f.id, "PATCH", { text: editing.text }).then(() => setEditing(null))} style={small}>
+                  save
+                </button>
+                <button onClick={() => setEditing(null)} style={small}>
+                  cancel
+                </button>
+              </div>
+            ) : (
+              <div style={{ whiteSpace: "pre-wrap" }}>
+                {f.pinned ? "📌 " : ""}
+                {f.text}
+                {f.edited ? <span style={{ color: "#999" }}> (edited)</span> : null}
+              </div>
+            )}
+            <div style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 2, color: "#666" }}>
+              <span>
+                t{f.turn}
+                {f.merge_count ? (
+                  <span title={(f.merges ?? []).map((m) => `t${m.turn} ${m.via} ${m.similarity.toFixed(2)}: ${m.text}`).join("\n")}>
+                    {" "}
+                    · merged ×{f.merge_count}
+                  </span>
+                ) : null}{" "}
+                · s=
+              </span>
+              <input
+                key={`${f.id}:${f.salience}`}
+                type="number"
+                min={0}
+                max={1.2}
+                step={0.05}
+                defaultValue={Number(f.salience.toFixed(3))}
+                onBlur={(e) => {
+                  const v = Number(e.target.value);
+                  if (Number.isFinite(v) && v !== Number(f.salience.toFixed(3))) act(f.id, "PATCH", { salience: v });
+                }}
+                style={{ width: 60, fontSize: 12, padding: "0 4px", border: "1px solid #ddd", borderRadius: 6 }}
+              />
+              <button onClick={() => act(f.id, "PATCH", { pinned: !f.pinned })} style={small}>
+                {f.pinned ? "unpin" : "pin"}
+              </button>
+              <button onClick={() => setEditing({ id: f.id, text: f.text })} style={small}>
+                edit
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm("forget this fragment?")) act(f.id, "DELETE");
+                }}
+                style={small}
+              >
+                forget
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {recent.length ? (
+        <div style={{ marginTop: 8, fontSize: 11, color: "#888" }}>
+          {recent.map((a, i) => (
+            <div key={i}>
+              t{a.turn} {a.action} {a.id}
+              {a.action === "set_salience" ? ` ${Number(a.before).toFixed(2)} → ${Number(a.after).toFixed(2)}` : ""}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import type { TurnRecord } from "@/lib/types";
+
+// Per-turn gate trajectory: state / raw state on [0, 1] with pulse markers and the META-cap stage,
+// and zS / zH / score on a clipped z axis. Clicking a turn selects it for inspection.
+
+const W = 320;
+const H_STATE = 90;
+const H_Z = 60;
+const PAD = 6;
+const Z_RANGE = 3;
+
+function xAt(i: number, n: number): number {
+  return n <= 1 ? W / 2 : PAD + (i * (W - 2 * PAD)) / (n - 1);
+}
+
+function path(points: (readonly [number, number] | null)[]): string {
+  let d = "";
+  let pen = false;
+  for (const p of points) {
+    if (!p) {
+      pen = false;
+      continue;
+    }
+    d += `${pen ? "L" : "M"}${p[0].toFixed(1)},${p[1].toFixed(1)} `;
+    pen = true;
+  }
+  return d.trim();
+}
+
+function yUnit(v: number): number {
+  return PAD + (1 - Math.max(0, Math.min(1, v))) * (H_STATE - 2 * PAD);
+}
+
+function yZ(v: number): number {
+  const t = (Math.max(-Z_RANGE, Math.min(Z_RANGE, v)) + Z_RANGE) / (2 * Z_RANGE);
+  return PAD + (1 - t) * (H_Z - 2 * PAD);
+}
+
+const STAGE_COLOR = ["#f5d0d0", "#f5e6c8", "#e3f1e3"];
+
+export default function StateTimeline(props: {
+  turns: TurnRecord[];
+  selected: number | null;
+  onSelect: (turn: number | null) => void;
+}) {
+  const { turns, selected, onSelect } = props;
+  const n = turns.length;
+  if (!n) return <div style={{ fontSize: 12, color: "#999", marginTop: 4 }}>(no turns yet)</div>;
+
+  const selIdx = selected === null ? -1 : turns.findIndex((t) => t.turn === selected);
+  const colW = n <= 1 ? W : (W - 2 * PAD) / (n - 1);
+
+  const state = turns.map((t, i) => [xAt(i, n), yUnit(t.state)] as const);
+  const raw = turns.map((t, i) => [xAt(i, n), yUnit(t.raw_state)] as const);
+  const zS = turns.map((t, i) => (t.zS === null ? null : ([xAt(i, n), yZ(t.zS)] as const)));
+  const zH = turns.map((t, i) => (t.zH === null ? null : ([xAt(i, n), yZ(t.zH)] as const)));
+  const score = turns.map((t, i) => (t.score === null ? null : ([xAt(i, n), yZ(t.score)] as const)));
+
+  const hit = (i: number, h: number) => (
+    <rect
+      key={`hit${i}`}
+      x={xAt(i, n) - colW / 2}
+      y={0}
+      width={colW}
+      height={h}
+      fill="transparent"
+      style={{ cursor: "pointer" }}
+      onClick={() => onSelect(turns[i].turn === selected ? null : turns[i].turn)}
+    >
+      <title>
+        {`t${turns[i].turn} ${turns[i].dim ?? "—"} state=${turns[i].state.toFixed(3)}` +
+          (turns[i].pulse.triggered ? " (pulse)" : "")}
+      </title>
+    </rect>
+  );
+
+  const cursor = (h: number) =>
+    selIdx >= 0 ? <line x1={xAt(selIdx, n)} x2={xAt(selIdx, n)} y1={0} y2={h} stroke="#4a7bd0" strokeWidth={1} /> : null;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${H_STATE}`} style={{ width: "100%", display: "block" }}>
+        {/* META-cap stage strip along the bottom */}
+        {turns.map((t, i) => (
+          <rect
+            key={`stage${i}`}
+            x={xAt(i, n) - colW / 2}
+            y={H_STATE - 4}
+            width={colW}
+            height={4}
+            fill={STAGE_COLOR[t.meta_cap_stage]}
+          />
+        ))}
+        <line x1={0} x2={W} y1={yUnit(0.5)} y2={yUnit(0.5)} stroke="#eee" />
+        {cursor(H_STATE)}
+        <path d={path([...raw])} fill="none" stroke="#aaa" strokeDasharray="3 2" strokeWidth={1} />
+        <path d={path([...state])} fill="none" stroke="#111" strokeWidth={1.5} />
+        {turns.map((t, i) =>
+          t.pulse.triggered ? (
+            <path
+              key={`pulse${i}`}
+              d={`M${xAt(i, n) - 4},${Math.max(0, state[i][1] - 10)} h8 l-4,7 z`}
+              fill="#d06a2a"
+            />
+          ) : t.pulse.stagnation_detected ? (
+            <circle key={`stag${i}`} cx={xAt(i, n)} cy={state[i][1]} r={2.5} fill="none" stroke="#d06a2a" />
+          ) : null
+        )}
+        {turns.map((_, i) => hit(i, H_STATE))}
+      </svg>
+      <svg viewBox={`0 0 ${W} ${H_Z}`} style={{ width: "100%", display: "block", marginTop: 4 }}>
+        <line x1={0} x2={W} y1={yZ(0)} y2={yZ(0)} stroke="#eee" />
+        {cursor(H_Z)}
+        <path d={path(zS)} fill="none" stroke="#4a7bd0" strokeWidth={1} />
+        <path d={path(zH)} fill="none" stroke="#3a9a5a" strokeWidth={1} />
+        <path d={path(score)} fill="none" stroke="#111" strokeWidth={1} strokeDasharray="2 2" />
+        {turns.map((_, i) => hit(i, H_Z))}
+      </svg>
+      <div style={{ fontSize: 11, color: "#888", marginTop: 4 }}>
+        <span style={{ color: "#111" }}>━ state</span> · <span style={{ color: "#aaa" }}>┅ raw</span> ·{" "}
+        <span style={{ color: "#d06a2a" }}>▼ pulse ○ stagnation</span> · META cap{" "}
+        <span style={{ background: STAGE_COLOR[0] }}>&nbsp;0&nbsp;</span>
+        <span style={{ background: STAGE_COLOR[1] }}>&nbsp;1&nbsp;</span>
+        <span style={{ background: STAGE_COLOR[2] }}>&nbsp;2&nbsp;</span>
+        <br />
+        z (±{Z_RANGE}): <span style={{ color: "#4a7bd0" }}>zS</span> · <span style={{ color: "#3a9a5a" }}>zH</span> ·{" "}
+        <span style={{ color: "#111" }}>┅ score</span>
+      </div>
+    </div>
+  );
+}
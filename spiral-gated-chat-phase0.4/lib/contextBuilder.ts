@@ -0,0 +1,150 @@
+import type { GateConfig } from "@/lib/gateConfig";
+import type { LLMMessage } from "@/lib/llm";
+import { elideMiddle, estimateTokens, messageTokens, MESSAGE_OVERHEAD_TOKENS } from "@/lib/tokens";
+
+// Token-budgeted main prompt. The fixed parts (system prompt, attention frame) are always sent;
+// what remains of context_tokens is shared between summary, attention log and fragments (each
+// capped at its share), and history gets everything they leave unused. History is filled newest
+// first; long messages are elided in the middle instead of dropping the turn.
+
+export type ContextConfig = GateConfig["context"];
+
+export type ContextSection = "fixed" | "summary" | "attn" | "fragments" | "history";
+
+export type SectionAllocation = {
+  budget: number;
+  used: number;
+  items: number;
+};
+
+export type ContextAllocation = {
+  total: number;
+  used: number;
+  sections: Record<ContextSection, SectionAllocation>;
+  // history messages shortened / left out entirely
+  elided_messages: number;
+  dropped_messages: number;
+};
+
+export type ContextInput = {
+  budgetTokens: number;
+  cfg: ContextConfig;
+  // always sent (system prompt + attention frame)
+  fixed: LLMMessage[];
+  // renders the summary for a char budget (null = nothing to inject)
+  summary: { maxChars: number; render: (maxChars: number) => string | null };
+  // render(n) formats the first n items (items are in priority order)
+  attn: { maxItems: number; render: (n: number) => string };
+  fragments: { maxItems: number; render: (n: number) => string };
+  // full history, oldest first; the last message is the current user turn and is always kept
+  history: LLMMessage[];
+};
+
+export type BuiltContext = {
+  summary: string | null;
+  attn: string | null;
+  attnItems: number;
+  fragments: string | null;
+  fragmentItems: number;
+  history: LLMMessage[];
+  allocation: ContextAllocation;
+};
+
+function sysTokens(text: string | null): number {
+  return text ? estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS : 0;
+}
+
+// Largest n ≤ maxItems whose rendering fits the budget
+function fitItems(maxItems: number, render: (n: number) => string, budget: number): { n: number; text: string | null } {
+  for (let n = maxItems; n > 0; n--) {
+    const text = render(n);
+    if (text && sysTokens(text) <= budget) return { n, text };
+  }
+  return { n: 0, text: null };
+}
+
+function fitSummary(s: ContextInput["summary"], budget: number): string | null {
+  let chars = s.maxChars;
+  // shrink the char budget proportionally until the rendering fits (a few passes at most)
+  for (let i = 0; i < 4 && chars >= 40; i++) {
+    const text = s.render(chars);
+    if (!text) return null;
+    const t = sysTokens(text);
+    if (t <= budget) return text;
+    chars = Math.floor((chars * budget) / t) - 8;
+  }
+  return null;
+}
+
+export function buildContext(input: ContextInput): BuiltContext {
+  const { cfg } = input;
+  const total = Math.max(0, Math.round(input.budgetTokens));
+  const fixedUsed = input.fixed.reduce((n, m) => n + messageTokens(m), 0);
+  const available = Math.max(0, total - fixedUsed);
+
+  const summaryBudget = Math.floor(available * cfg.summary_share);
+  const summary = fitSummary(input.summary, summaryBudget);
+  const summaryUsed = sysTokens(summary);
+
+  const attnBudget = Math.floor(available * cfg.attn_share);
+  const attn = fitItems(input.attn.maxItems, input.attn.render, attnBudget);
+  const attnUsed = sysTokens(attn.text);
+
+  const fragBudget = Math.floor(available * cfg.fragments_share);
+  const frags = fitItems(input.fragments.maxItems, input.fragments.render, fragBudget);
+  const fragUsed = sysTokens(frags.text);
+
+  // history takes everything the other sections left unused
+  const historyBudget = Math.max(0, available - summaryUsed - attnUsed - fragUsed);
+  let left = historyBudget;
+  const picked: LLMMessage[] = [];
+  let elided = 0;
+  let dropped = 0;
+  const msgs = input.history;
+  for (let i = msgs.length - 1; i >= 0; i--) {
+    const m = msgs[i];
+    // the current user message is always sent (elided only when it alone exceeds the history budget);
+    // older ones are capped at max_message_tokens
+    const cap =
+      i === msgs.length - 1
+        ? Math.max(left, cfg.min_elided_tokens + MESSAGE_OVERHEAD_TOKENS)
+        : Math.min(cfg.max_message_tokens, left);
+    let content = m.content;
+    let cost = messageTokens(m);
+    if (cost > cap) {
+      if (cap - MESSAGE_OVERHEAD_TOKENS < cfg.min_elided_tokens) {
+        dropped = i + 1;
+        break;
+      }
+      content = elideMiddle(m.content, cap - MESSAGE_OVERHEAD_TOKENS).text;
+      cost = messageTokens({ content });
+      elided++;
+    }
+    picked.unshift(content === m.content ? m : { ...m, content });
+    left -= cost;
+  }
+  const historyUsed = historyBudget - left;
+
+  const used = fixedUsed + summaryUsed + attnUsed + fragUsed + historyUsed;
+  return {
+    summary,
+    attn: attn.text,
+    attnItems: attn.n,
+    fragments: frags.text,
+    fragmentItems: frags.n,
+    history: picked,
+    allocation: {
+      total,
+      used,
+      sections: {
+        fixed: { budget: fixedUsed, used: fixedUsed, items: input.fixed.length },
+        summary: { budget: summaryBudget, used: summaryUsed, items: summary ? 1 : 0 },
+        attn: { budget: attnBudget, used: attnUsed, items: attn.n },
+        fragments: { budget: fragBudget, used: fragUsed, items: frags.n },
+        history: { budget: historyBudget, used: historyUsed, items: picked.length },
+      },
+      elided_messages: elided,
+      dropped_messages: dropped,
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import type { GateConfig } from "@/lib/gateConfig";
+import type { LLMPhase, LLMProvider, LLMUsage } from "@/lib/llm";
+
+// USD per 1M tokens
+export type ModelPrice = {
+  input_per_1m: number;
+  output_per_1m: number;
+};
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-4.1": { input_per_1m: 2.0, output_per_1m: 8.0 },
+  "gpt-4.1-mini": { input_per_1m: 0.4, output_per_1m: 1.6 },
+  "gpt-4.1-nano": { input_per_1m: 0.1, output_per_1m: 0.4 },
+  "gpt-4o": { input_per_1m: 2.5, output_per_1m: 10.0 },
+  "gpt-4o-mini": { input_per_1m: 0.15, output_per_1m: 0.6 },
+};
+
+export type UsageTotals = {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+};
+
+export type SessionUsage = UsageTotals & {
+  turns: number;
+  // per-model split (absent on sessions saved before routing)
+  models?: Record<string, UsageTotals>;
+};
+
+export type TurnCost = {
+  phases: Partial<Record<LLMPhase, UsageTotals & { models: string[] }>>;
+  // same calls split by the model that served them
+  models: Record<string, UsageTotals & { phases: LLMPhase[] }>;
+  turn: UsageTotals;
+  session: SessionUsage;
+  // calls whose model has no price entry (counted as $0)
+  unpriced_models: string[];
+  budget: BudgetPressure;
+};
+
+export type BudgetPressure = {
+  max_cost_usd: number | null;
+  max_tokens: number | null;
+  // spent / limit (max over the configured limits), null when no limit is set
+  spent_ratio: number | null;
+  // 0 below soft_ratio → 1 at the limit
+  pressure: number;
+  // upper bound applied to state this turn (1 = no cap)
+  state_cap: number;
+  exhausted: boolean;
+};
+
+export function emptyUsageTotals(): UsageTotals {
+  return { calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+}
+
+export function emptySessionUsage(): SessionUsage {
+  return { ...emptyUsageTotals(), turns: 0, models: {} };
+}
+
+function addTotals(into: UsageTotals, from: UsageTotals): void {
+  into.calls += from.calls;
+  into.input_tokens += from.input_tokens;
+  into.output_tokens += from.output_tokens;
+  into.cost_usd += from.cost_usd;
+}
+
+export function pricesFromEnv(): PriceTable {
+  // LLM_PRICES='{"my-model":{"input_per_1m":1,"output_per_1m":2}}' extends/overrides the defaults
+  const raw = process.env.LLM_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...(JSON.parse(raw) as PriceTable) };
+  } catch {
+    throw new Error("LLM_PRICES is not valid JSON");
+  }
+}
+
+export function priceFor(model: string, prices: PriceTable): ModelPrice | null {
+  // exact match, else the longest prefix (dated snapshots like "gpt-4.1-2025-04-14")
+  if (prices[model]) return prices[model];
+  let best: string | null = null;
+  for (const k of Object.keys(prices)) {
+    if (model.startsWith(k) && (!best || k.length > best.length)) best = k;
+  }
+  return best ? prices[best] : null;
+}
+
+export function costOf(usage: LLMUsage, price: ModelPrice | null): number {
+  if (!price) return 0;
+  return (usage.input_tokens * price.input_per_1m + usage.output_tokens * price.output_per_1m) / 1e6;
+}
+
+export function budgetPressure(spent: SessionUsage, budget: GateConfig["cost"]): BudgetPressure {
+  const ratios: number[] = [];
+  if (budget.max_cost_usd !== null) ratios.push(spent.cost_usd / budget.max_cost_usd);
+  if (budget.max_tokens !== null) ratios.push((spent.input_tokens + spent.output_tokens) / budget.max_tokens);
+  const ratio = ratios.length ? Math.max(...ratios) : null;
+  const soft = budget.soft_ratio;
+  const pressure = ratio === null ? 0 : Math.max(0, Math.min(1, (ratio - soft) / Math.max(1e-6, 1 - soft)));
+  return {
+    max_cost_usd: budget.max_cost_usd,
+    max_tokens: budget.max_tokens,
+    spent_ratio: ratio,
+    pressure,
+    state_cap: 1 + (budget.min_state_cap - 1) * pressure,
+    exhausted: ratio !== null && ratio >= 1,
+  };
+}
+
+// Collects usage for every call made through the wrapped provider during one turn.
+export function createUsageMeter(prices: PriceTable) {
+  const phases: TurnCost["phases"] = {};
+  const models: TurnCost["models"] = {};
+  const turn = emptyUsageTotals();
+  const unpriced = new Set<string>();
+
+  function record(phase: LLMPhase, model: string, usage: LLMUsage | null): void {
+    const u = usage ?? { input_tokens: 0, output_tokens: 0 };
+    const price = priceFor(model, prices);
+    if (!price) unpriced.add(model);
+    const cost = costOf(u, price);
+    const p = (phases[phase] ??= { ...emptyUsageTotals(), models: [] });
+    const m = (models[model] ??= { ...emptyUsageTotals(), phases: [] });
+    for (const t of [p, m, turn]) {
+      t.calls += 1;
+      t.input_tokens += u.input_tokens;
+      t.output_tokens += u.output_tokens;
+      t.cost_usd += cost;
+    }
+    if (!p.models.includes(model)) p.models.push(model);
+    if (!m.phases.includes(phase)) m.phases.push(phase);
+  }
+
+  function wrap(provider: LLMProvider): LLMProvider {
+    return {
+      name: provider.name,
+      async generate(req, opts) {
+        const res = await provider.generate(req, opts);
+        record(req.phase, req.model, res.usage);
+        return res;
+      },
+    };
+  }
+
+  // add this turn's totals to the session ledger
+  function commit(session: SessionUsage): void {
+    addTotals(session, turn);
+    session.turns += 1;
+    const byModel = (session.models ??= {});
+    for (const [model, t] of Object.entries(models)) addTotals((byModel[model] ??= emptyUsageTotals()), t);
+  }
+
+  return { record, wrap, commit, phases, models, turn, unpriced: () => [...unpriced] };
+}
@@ -0,0 +1,141 @@
+import { z } from "zod";
+
+// Attention dimension registry. Each DIM declares how it is described to the model, how much it
+// boosts fragment salience, what it does to state, and how the pulse verifier should treat it.
+// The active registry is GateConfig.dimensions, so presets and session overrides can add DIMs.
+
+const StateRuleSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("none") }),
+  // raw state += lerp(at_low, at_high, raw state) (e.g. RISK: big boost when compute is low)
+  z.object({ kind: z.literal("boost"), at_low: z.number(), at_high: z.number() }),
+  // raw state capped at `max`
+  z.object({ kind: z.literal("cap"), max: z.number().min(0).max(1) }),
+  // cap governed by the gate's staged relaxation (0.55 → 0.65 → unlocked), e.g. META
+  z.object({ kind: z.literal("staged_cap") }),
+]);
+
+export type StateRule = z.infer<typeof StateRuleSchema>;
+
+export const DimensionSchema = z
+  .object({
+    // short phrase shown next to the DIM name in prompts
+    label: z.string().min(1).max(60),
+    description: z.string().max(240),
+    // other spellings the probe parser maps to this DIM ("RISKS", "DANGER", ...)
+    aliases: z.array(z.string()).optional(),
+    // added to a new fragment's initial salience
+    salience_bonus: z.number(),
+    state: StateRuleSchema,
+    // prior state for turns framed on this DIM (fallback estimate when logprobs are missing; default 0.5)
+    state_prior: z.number().min(0).max(1).optional(),
+    // how the pulse verifier should weigh candidates with this DIM
+    verifier: z.enum(["prefer", "neutral", "avoid"]),
+    // a streak of this DIM is never broken by an exploration pulse
+    pulse_exempt: z.boolean().optional(),
+  })
+  .strict();
+
+export type DimensionDef = z.infer<typeof DimensionSchema>;
+
+export const DimensionRegistrySchema = z
+  .record(z.string().regex(/^[A-Z][A-Z_]*$/, "DIM names must be UPPER_CASE"), DimensionSchema)
+  .refine((r) => Object.keys(r).length >= 2, { message: "at least 2 dimensions are required" });
+
+export type DimensionRegistry = z.infer<typeof DimensionRegistrySchema>;
+
+export const DEFAULT_DIMENSIONS: DimensionRegistry = {
+  RISK: {
+    label: "what could go wrong",
+    description: "Possible failure, harm, security or correctness problems that need attention first.",
+    aliases: ["RISKS", "RISKY", "DANGER"],
+    salience_bonus: 0.22,
+    state: { kind: "boost", at_low: 0.22, at_high: 0.08 },
+    state_prior: 0.65,
+    verifier: "prefer",
+    pulse_exempt: true,
+  },
+  NOVELTY: {
+    label: "what is new",
+    description: "Something new or unexpected in the message that is worth exploring.",
+    aliases: ["NOVEL", "NEW"],
+    salience_bonus: 0.12,
+    state: { kind: "none" },
+    state_prior: 0.55,
+    verifier: "neutral",
+  },
+  GOAL: {
+    label: "what the user wants",
+    description: "The user's objective, desired outcome or task.",
+    aliases: ["GOALS", "OBJECTIVE"],
+    salience_bonus: 0.16,
+    state: { kind: "none" },
+    state_prior: 0.45,
+    verifier: "neutral",
+  },
+  UNCERTAINTY: {
+    label: "what is unclear",
+    description: "Missing information, ambiguity or assumptions that should be checked.",
+    aliases: ["UNCERTAIN", "UNKNOWN", "AMBIGUITY"],
+    salience_bonus: 0.08,
+    state: { kind: "none" },
+    state_prior: 0.6,
+    verifier: "neutral",
+  },
+  OPPORTUNITY: {
+    label: "what could be gained",
+    description: "A chance to improve, simplify or add value beyond the literal request.",
+    aliases: ["OPPORTUNITIES"],
+    salience_bonus: 0.1,
+    state: { kind: "none" },
+    state_prior: 0.5,
+    verifier: "neutral",
+  },
+  META: {
+    label: "about the conversation itself",
+    description: "The process, the format of the conversation or the agent's own reasoning.",
+    aliases: ["METACOGNITION"],
+    salience_bonus: 0.04,
+    state: { kind: "staged_cap" },
+    state_prior: 0.35,
+    verifier: "avoid",
+  },
+};
+
+export function dimIds(reg: DimensionRegistry): string[] {
+  return Object.keys(reg);
+}
+
+export function dimDef(reg: DimensionRegistry, dim: string | null): DimensionDef | null {
+  return dim ? (reg[dim.toUpperCase()] ?? null) : null;
+}
+
+// DIMs whose state rule is the staged cap (their share drives the relaxation governor)
+export function stagedCapDims(reg: DimensionRegistry): string[] {
+  return dimIds(reg).filter((d) => reg[d].state.kind === "staged_cap");
+}
+
+// First word of a free-form DIM value → registered DIM (exact, alias, or trailing-S plural)
+export function normalizeDim(raw: string | null | undefined, reg: DimensionRegistry): string | null {
+  const word = (raw ?? "").toUpperCase().match(/[A-Z][A-Z_]*/)?.[0] ?? "";
+  if (!word) return null;
+  if (reg[word]) return word;
+  for (const [id, def] of Object.entries(reg)) {
+    if (def.aliases?.some((a) => a.toUpperCase() === word)) return id;
+  }
+  if (word.endsWith("S") && reg[word.slice(0, -1)]) return word.slice(0, -1);
+  return null;
+}
+
+// "<RISK|GOAL|...>" placeholder for the 4-line format
+export function dimChoice(reg: DimensionRegistry, exclude: string | null = null): string {
+  return `<${dimIds(reg)
+    .filter((d) => d !== exclude)
+    .join("|")}>`;
+}
+
+export function dimPromptLines(reg: DimensionRegistry): string[] {
+  return dimIds(reg).map((d) => {
+    const def = reg[d];
+    return `- ${d} (${def.label})${def.description ? `: ${def.description}` : ""}`;
+  });
+}
@@ -0,0 +1,111 @@
+import OpenAI from "openai";
+
+export type Embedder = {
+  // stored next to each fragment vector; a different name means the vector must be recomputed
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+// Latin-ish words as-is, CJK runs as character bigrams (no whitespace to split on)
+export function embeddingTerms(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const w of words) {
+    if (/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(w)) {
+      const chars = [...w];
+      if (chars.length === 1) terms.push(w);
+      for (let i = 0; i + 1 < chars.length; i++) terms.push(chars[i] + chars[i + 1]);
+    } else if (w.length > 1) {
+      terms.push(w);
+    }
+  }
+  return terms;
+}
+
+export function l2normalize(v: number[]): number[] {
+  const n = Math.sqrt(v.reduce((a, x) => a + x * x, 0));
+  return n > 0 ? v.map((x) => x / n) : v;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+}
+
+// Offline embedder: signed feature hashing of unigrams + adjacent-term bigrams with sublinear TF.
+// `idf` (term → weight) can be supplied to turn it into hashed TF-IDF.
+export function createHashingEmbedder(opts: { dims?: number; idf?: (term: string) => number } = {}): Embedder {
+  const dims = opts.dims ?? 256;
+
+  function embedOne(text: string): number[] {
+    const terms = embeddingTerms(text);
+    const tf = new Map<string, number>();
+    for (let i = 0; i < terms.length; i++) {
+      tf.set(terms[i], (tf.get(terms[i]) ?? 0) + 1);
+      if (i + 1 < terms.length) {
+        const bi = `${terms[i]} ${terms[i + 1]}`;
+        tf.set(bi, (tf.get(bi) ?? 0) + 0.5);
+      }
+    }
+    const v = new Array<number>(dims).fill(0);
+    for (const [term, n] of tf) {
+      const h = fnv1a(term);
+      const sign = h & 0x80000000 ? -1 : 1;
+      v[h % dims] += sign * (1 + Math.log(n)) * (opts.idf ? opts.idf(term) : 1);
+    }
+    return l2normalize(v);
+  }
+
+  return {
+    name: `hash-${dims}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+export function createOpenAIEmbedder(opts: { apiKey?: string; model?: string }): Embedder {
+  const openai = new OpenAI({ apiKey: opts.apiKey });
+  const model = opts.model ?? "text-embedding-3-small";
+  return {
+    name: `openai:${model}`,
+    async embed(texts) {
+      if (!texts.length) return [];
+      const resp = await openai.embeddings.create({ model, input: texts });
+      return [...resp.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
+
+let cached: Embedder | null = null;
+
+export function getEmbedder(): Embedder {
+  // EMBEDDER=hash (default, offline) | openai (EMBEDDING_MODEL, default text-embedding-3-small)
+  if (cached) return cached;
+  const kind = (process.env.EMBEDDER || "hash").toLowerCase();
+  if (kind === "hash") {
+    cached = createHashingEmbedder();
+  } else if (kind === "openai") {
+    cached = createOpenAIEmbedder({ apiKey: process.env.OPENAI_API_KEY, model: process.env.EMBEDDING_MODEL });
+  } else {
+    throw new Error(`Unknown EMBEDDER: ${kind}`);
+  }
+  return cached;
+}
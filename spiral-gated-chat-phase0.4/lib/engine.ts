@@ -0,0 +1,1037 @@
+import { buildContext } from "@/lib/contextBuilder";
+import { budgetPressure, createUsageMeter, emptySessionUsage, pricesFromEnv, type PriceTable } from "@/lib/cost";
+import type { DimensionRegistry } from "@/lib/dimensions";
+import { getEmbedder, type Embedder } from "@/lib/embeddings";
+import { noteFragmentKey, noteFragmentText, parseExtractedNotes, type ExtractedNote } from "@/lib/extraction";
+import { calibrateState, emptyFeedbackState, recordTurnSnapshot } from "@/lib/feedback";
+import { resolveGateConfig, type ResolvedGateConfig } from "@/lib/gateConfig";
+import { metaCapValue, recentMetaShare, sliceFirstLine } from "@/lib/gating";
+import {
+  decayFragments,
+  dimBonus,
+  embedFragments,
+  formatFragmentsForPrompt,
+  fragmentText,
+  makeFragmentKey,
+  pickTopFragments,
+  pruneFragments,
+  rankFragments,
+  rehearseFragments,
+  upsertFragment,
+  type RelevanceQuery,
+} from "@/lib/fragments";
+import type { LLMMessage, LLMPhase, LLMProvider } from "@/lib/llm";
+import {
+  frameSystemPrompt,
+  mainSystemPrompt,
+  noteExtractionSystemPrompt,
+  probeRepairSystemPrompt,
+  probeSystemPrompt,
+  segmentSummarySystemPrompt,
+  summaryUpdateSystemPrompt,
+} from "@/lib/prompts";
+import { parseProbe, type ProbeLimits } from "@/lib/probe";
+import { emptyPulseInfo, pulseEligibility, runExplorationPulse } from "@/lib/pulse";
+import { routeModel } from "@/lib/routing";
+import type { Session, StoredMessage } from "@/lib/sessionStore";
+import {
+  combineState,
+  computeBudgets,
+  fallbackState,
+  scoreProbe,
+  scoreProbeEnsemble,
+  settleState,
+} from "@/lib/statePipeline";
+import {
+  clipWords,
+  composeSummaryInjection,
+  detectTopicShift,
+  dominantDim,
+  parseLayeredSummary,
+  pushSegment,
+  type SummaryConfig,
+  type SummaryLayer,
+} from "@/lib/summary";
+import { offeredTools, runToolLoop, takeResolvedToolReport, trimPendingTools } from "@/lib/tools";
+import type { TurnTrace } from "@/lib/trace";
+import { appendTurnRecord, toTurnRecord } from "@/lib/turnLog";
+import type {
+  AttentionLogEntry,
+  FragmentDebugItem,
+  MemoryFragment,
+  PendingSummary,
+  ProbeFields,
+  ProbeQuality,
+  PulseInfo,
+  StateSource,
+  StepDebug,
+  TokenLogprob,
+} from "@/lib/types";
+
+// Incremental telemetry, emitted in phase order (used by the SSE variant of /api/step)
+export type StepEvent =
+  | {
+      type: "probe";
+      turn: number;
+      probeText: string | null;
+      dim: string | null;
+      focus: string | null;
+      next: string | null;
+      metrics: Omit<StepDebug["metrics"], "raw_state" | "state_source" | "fallback">;
+    }
+  | { type: "state"; state: number; raw_state: number; state_source: StateSource; params: StepDebug["params"] }
+  | { type: "pulse"; pulse: PulseInfo }
+  | { type: "delta"; text: string }
+  // the text streamed so far was a tool-calling round; the answer streams after this
+  | { type: "delta_reset" }
+  | { type: "main_done"; assistantText: string }
+  | { type: "summary"; summary: string | null; updated: boolean }
+  | { type: "done"; debug: StepDebug };
+
+export type StepDeps = {
+  provider: LLMProvider;
+  // deployment model; used for every phase no routing.routes entry claims
+  model: string;
+  // defaults to resolving the session's own preset/overrides
+  config?: ResolvedGateConfig;
+  // USD per 1M tokens by model; defaults to DEFAULT_PRICES + LLM_PRICES env
+  prices?: PriceTable;
+  // fragment relevance vectors; defaults to getEmbedder() (EMBEDDER env)
+  embedder?: Embedder;
+  emit?: (ev: StepEvent) => void;
+};
+
+export type StepResult = {
+  assistantText: string;
+  debug: StepDebug;
+  trace: TurnTrace;
+};
+
+function clamp(a: number, b: number, x: number): number {
+  return Math.max(a, Math.min(b, x));
+}
+
+function safeOneLine(s: string): string {
+  return (s ?? "").replace(/\s+/g, " ").trim();
+}
+
+function formatAttnLog(attn: AttentionLogEntry[], maxItems = 8): string {
+  const tail = attn.slice(-maxItems);
+  const lines = tail.map((e, i) => `${i + 1}. [t${e.turn}] ${e.dim} / ${e.focus}${e.next ? ` → ${e.next}` : ""}`);
+  return [
+    "ATTENTION_LOG (latest last):",
+    ...lines,
+    "Use this only as a lightweight memory of what has been salient.",
+  ].join("\n");
+}
+
+function fragmentDebugItem(f: MemoryFragment, ranked?: { similarity: number | null; score: number }): FragmentDebugItem {
+  return {
+    id: f.id,
+    turn: f.turn,
+    dim: f.dim,
+    salience: f.salience,
+    similarity: ranked?.similarity ?? null,
+    score: ranked?.score ?? null,
+    text: f.text,
+    pinned: !!f.pinned,
+    kind: f.kind ?? null,
+    merge_count: f.merge_count ?? 0,
+  };
+}
+
+// Probe call + validation; when the output is unusable, re-ask with the issues listed (no logprobs:
+// metrics always come from the first attempt's first line).
+async function runProbe(args: {
+  provider: LLMProvider;
+  model: string;
+  // false when the model cannot return logprobs (metrics stay null)
+  logprobs: boolean;
+  askDifficulty: boolean;
+  userText: string;
+  limits: ProbeLimits;
+  dims: DimensionRegistry;
+  notes: string[];
+}): Promise<{
+  probe: ProbeFields;
+  logprobs: TokenLogprob[];
+  info: StepDebug["probe"];
+  firstText: string;
+  latencyMs: number;
+}> {
+  const started = Date.now();
+  const { text: firstText, logprobs } = await args.provider.generate({
+    phase: "probe",
+    model: args.model,
+    input: [
+      { role: "system", content: probeSystemPrompt(args.dims, args.askDifficulty) },
+      { role: "user", content: args.userText },
+    ],
+    temperature: 0.2,
+    max_output_tokens: 90,
+    // request logprobs
+    logprobs: args.logprobs ? { top: 20 } : undefined,
+  });
+  const latencyMs = Date.now() - started;
+
+  const first = parseProbe(firstText, args.limits, args.dims);
+  const info: StepDebug["probe"] = { quality: first.quality, issues: [...first.issues], repairs: 0 };
+  let probe = first.fields;
+  let lastIssues = first.issues;
+
+  while (info.quality === "invalid" && info.repairs < args.limits.max_repairs) {
+    info.repairs += 1;
+    try {
+      const { text } = await args.provider.generate({
+        phase: "probe",
+        model: args.model,
+        input: [
+          { role: "system", content: probeRepairSystemPrompt(lastIssues, args.dims, args.askDifficulty) },
+          { role: "user", content: args.userText },
+        ],
+        temperature: 0,
+        max_output_tokens: 90,
+      });
+      const retry = parseProbe(text, args.limits, args.dims);
+      info.issues.push(...retry.issues.map((i) => `repair ${info.repairs}: ${i}`));
+      lastIssues = retry.issues;
+      if (retry.quality !== "invalid") {
+        probe = retry.fields;
+        info.quality = "repaired";
+      }
+    } catch (e: any) {
+      args.notes.push(`probe repair failed: ${String(e?.message ?? e)}`);
+      break;
+    }
+  }
+  // parseProbe keeps the individually usable fields of an invalid probe (an unknown DIM is dropped)
+  if (info.quality === "invalid") {
+    args.notes.push(`probe invalid → usable fields kept (DIM ${probe.dim ?? "empty"}, FOCUS ${probe.focus ? "kept" : "empty"})`);
+  }
+
+  return { probe, logprobs, info, firstText, latencyMs };
+}
+
+// One extra ensemble sample: same prompt, higher temperature, no repair.
+async function sampleProbe(args: {
+  provider: LLMProvider;
+  model: string;
+  logprobs: boolean;
+  askDifficulty: boolean;
+  userText: string;
+  limits: ProbeLimits;
+  dims: DimensionRegistry;
+  temperature: number;
+}): Promise<{ text: string; fields: ProbeFields; quality: ProbeQuality; logprobs: TokenLogprob[] }> {
+  const { text, logprobs } = await args.provider.generate({
+    phase: "probe",
+    model: args.model,
+    input: [
+      { role: "system", content: probeSystemPrompt(args.dims, args.askDifficulty) },
+      { role: "user", content: args.userText },
+    ],
+    temperature: args.temperature,
+    max_output_tokens: 90,
+    logprobs: args.logprobs ? { top: 20 } : undefined,
+  });
+  const parsed = parseProbe(text, args.limits, args.dims);
+  return { text, fields: parsed.fields, quality: parsed.quality, logprobs };
+}
+
+async function updateLayeredSummary(args: {
+  provider: LLMProvider;
+  model: string;
+  prevHeadline: string;
+  prevParagraph: string;
+  userText: string;
+  assistantText: string;
+  maxTokens: number;
+  cfg: SummaryConfig;
+}): Promise<{ headline: string; paragraph: string | null } | null> {
+  const content = [
+    `Previous headline: ${safeOneLine(args.prevHeadline) || "(empty)"}`,
+    `Previous summary: ${safeOneLine(args.prevParagraph) || "(empty)"}`,
+    "Latest exchange:",
+    `User: ${safeOneLine(args.userText)}`,
+    `Assistant: ${safeOneLine(args.assistantText)}`,
+    "Write the updated HEADLINE and SUMMARY:",
+  ].join("\n");
+
+  const { text } = await args.provider.generate({
+    phase: "summary",
+    model: args.model,
+    input: [
+      { role: "system", content: summaryUpdateSystemPrompt(args.cfg.headline_max_chars, args.cfg.paragraph_max_chars) },
+      { role: "user", content },
+    ],
+    temperature: 0,
+    max_output_tokens: clamp(20, 400, Math.round(args.maxTokens)),
+  });
+
+  return parseLayeredSummary(text, args.cfg);
+}
+
+// One-line summary of a finished topic from the exchanges it spanned
+async function summarizeSegment(args: {
+  provider: LLMProvider;
+  model: string;
+  messages: StoredMessage[];
+  cfg: SummaryConfig;
+}): Promise<string | null> {
+  const content = args.messages
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${clipWords(m.content, 300)}`)
+    .join("\n");
+  const { text } = await args.provider.generate({
+    phase: "summary",
+    model: args.model,
+    input: [
+      { role: "system", content: segmentSummarySystemPrompt(args.cfg.segment_max_chars) },
+      { role: "user", content: content || "(no messages)" },
+    ],
+    temperature: 0,
+    max_output_tokens: clamp(20, 200, Math.round(args.cfg.segment_max_chars / 2)),
+  });
+  const one = clipWords(text, args.cfg.segment_max_chars);
+  return one || null;
+}
+
+// 0–maxNotes typed notes from the latest exchange (fact/decision/constraint/todo)
+async function extractNotes(args: {
+  provider: LLMProvider;
+  model: string;
+  userText: string;
+  assistantText: string;
+  maxNotes: number;
+  maxTokens: number;
+}): Promise<{ notes: ExtractedNote[]; issues: string[] }> {
+  const content = [
+    `User: ${safeOneLine(args.userText)}`,
+    `Assistant: ${safeOneLine(args.assistantText)}`,
+    "Notes:",
+  ].join("\n");
+
+  const { text } = await args.provider.generate({
+    phase: "extract",
+    model: args.model,
+    input: [
+      { role: "system", content: noteExtractionSystemPrompt(args.maxNotes) },
+      { role: "user", content },
+    ],
+    temperature: 0,
+    max_output_tokens: args.maxTokens,
+  });
+  return parseExtractedNotes(text, args.maxNotes);
+}
+
+// Summary calls scheduled by the previous turn: close its topic segment (an LLM line, or the headline
+// when the budget is exhausted or the call fails), then fold its exchange into the headline + paragraph.
+// Returns whether the headline update succeeded (null when none was scheduled); never throws.
+async function runPendingSummary(args: {
+  provider: LLMProvider;
+  model: string;
+  sess: Session;
+  pending: PendingSummary;
+  cfg: SummaryConfig;
+  exhausted: boolean;
+  notes: string[];
+}): Promise<boolean | null> {
+  const { sess, pending, cfg, notes } = args;
+  const seg = pending.segment;
+  if (seg) {
+    // by turn tag, so a dangling user message or imported history cannot shift the window
+    const messages = sess.history
+      .filter((m) => m.turn !== undefined && m.turn >= seg.start_turn && m.turn <= seg.end_turn)
+      .slice(-12);
+    let text: string | null = null;
+    if (args.exhausted) {
+      notes.push("cost budget exhausted → topic segment kept with the headline only");
+    } else if (!messages.length) {
+      notes.push("no messages recorded for the closed segment → headline used");
+    } else {
+      try {
+        text = await summarizeSegment({ provider: args.provider, model: args.model, messages, cfg });
+      } catch (e: any) {
+        notes.push(`segment summary failed: ${String(e?.message ?? e)}`);
+      }
+    }
+    text = text ?? (sess.memory.summary ? clipWords(sess.memory.summary, cfg.segment_max_chars) : null);
+    if (text) pushSegment(sess.memory, { ...seg, text }, cfg.segments_max);
+  }
+
+  const upd = pending.update;
+  if (!upd) return null;
+  if (args.exhausted) {
+    notes.push(`cost budget exhausted → summary update for turn ${pending.turn} skipped`);
+    return null;
+  }
+  try {
+    const updated = await updateLayeredSummary({
+      provider: args.provider,
+      model: args.model,
+      prevHeadline: sess.memory.summary,
+      prevParagraph: sess.memory.summary_paragraph ?? "",
+      userText: upd.user_text,
+      assistantText: upd.assistant_text,
+      maxTokens: upd.max_tokens,
+      cfg,
+    });
+    if (updated) {
+      sess.memory.summary = updated.headline;
+      if (updated.paragraph) sess.memory.summary_paragraph = updated.paragraph;
+      sess.memory.summary_updated_turn = pending.turn;
+    }
+    return updated !== null;
+  } catch (e: any) {
+    notes.push(`summary update failed: ${String(e?.message ?? e)}`);
+    return false;
+  }
+}
+
+// One full turn: (previous turn's summary) → probe → state → (pulse) → memory budgets → main.
+// Mutates `sess` in place; the caller decides how/where the session is persisted.
+export async function runStep(sess: Session, userText: string, deps: StepDeps): Promise<StepResult> {
+  const resolved = deps.config ?? resolveGateConfig(sess.config);
+  const params = resolved.config;
+  const emit = deps.emit ?? (() => {});
+
+  // every call below goes through the meter; the budget is judged on spend before this turn
+  const meter = createUsageMeter(deps.prices ?? pricesFromEnv());
+  const provider = meter.wrap(deps.provider);
+  const sessUsage = (sess.usage ??= emptySessionUsage());
+  const budget = budgetPressure(sessUsage, params.cost);
+
+  sess.turn += 1;
+  const turn = sess.turn;
+
+  const notes: string[] = [];
+
+  // model per phase; calls before the state is known route on the previous turn's state
+  const routing: StepDebug["routing"] = {};
+  const prevRouteState = Math.min(sess.gate.last_state, budget.state_cap);
+  const modelFor = (phase: LLMPhase, st: number): string => {
+    const r = routeModel(phase, st, deps.model, params.routing);
+    if (!routing[phase]) {
+      routing[phase] = r;
+      for (const s of r.skipped) notes.push(`routing: ${phase} skipped ${s.model} (no ${s.missing.join(", ")})`);
+    }
+    return r.model;
+  };
+
+  // append user message to history
+  sess.history.push({ role: "user", content: userText, turn });
+
+  // summary calls the previous turn scheduled: they run alongside the probe (which reads no summary)
+  // and are awaited before the context is built
+  const pendingSummary = sess.memory.summary_pending;
+  delete sess.memory.summary_pending;
+  const summaryJob = pendingSummary
+    ? runPendingSummary({
+        provider,
+        model: modelFor("summary", prevRouteState),
+        sess,
+        pending: pendingSummary,
+        cfg: params.summary,
+        exhausted: budget.exhausted,
+        notes,
+      })
+    : null;
+
+  // ----------------
+  // Phase A: PROBE
+  // ----------------
+  const ens = params.probe.ensemble;
+  let ensembleN = ens.samples;
+  if (ensembleN > 1 && budget.pressure > 0) {
+    notes.push(`cost budget pressure ${budget.pressure.toFixed(2)} → single probe instead of ${ensembleN}`);
+    ensembleN = 1;
+  }
+  const probeModel = modelFor("probe", prevRouteState);
+  const probeLogprobsOk = routing.probe?.capabilities.logprobs ?? true;
+  const fbCfg = params.state.fallback;
+  if (!probeLogprobsOk) {
+    notes.push(`probe model ${probeModel} returns no logprobs → ${fbCfg.enabled ? "fallback state estimate" : "state held"}`);
+  }
+  const probeArgs = {
+    provider,
+    model: probeModel,
+    logprobs: probeLogprobsOk,
+    askDifficulty: fbCfg.enabled && fbCfg.ask_difficulty,
+    userText,
+    limits: params.probe,
+    dims: params.dimensions,
+  };
+  // extra samples run alongside the primary probe; a failed sample is just left out
+  const [probed, ...extraSamples] = await Promise.all([
+    runProbe({ ...probeArgs, notes }),
+    ...Array.from({ length: ensembleN - 1 }, (_, i) =>
+      sampleProbe({ ...probeArgs, temperature: ens.temperature }).catch((e: any) => {
+        notes.push(`ensemble sample ${i + 2} failed: ${String(e?.message ?? e)}`);
+        return null;
+      })
+    ),
+  ]);
+  const extras = extraSamples.filter((x): x is NonNullable<typeof x> => x !== null);
+  const probeLogprobs = probed.logprobs;
+  // the validated frame; raw is the text it was parsed from (the repair output when repaired)
+  let originalProbe: ProbeFields = probed.probe;
+
+  const scored =
+    ensembleN > 1
+      ? scoreProbeEnsemble(
+          sess.gate,
+          [
+            { dim: probed.probe.dim, logprobs: probeLogprobs },
+            ...extras.map((x) => ({ dim: x.fields.dim, logprobs: x.logprobs })),
+          ],
+          params.state,
+          ens
+        )
+      : { ...scoreProbe(sess.gate, probeLogprobs, params.state), ensemble: null };
+  const { surprisal: S, entropy: H, zS, zH, score } = scored;
+  notes.unshift(...scored.notes);
+
+  // ensemble: the frame follows the majority DIM (the primary probe wins ties)
+  const majority = scored.ensemble?.majority_dim ?? null;
+  if (majority && originalProbe.dim !== majority) {
+    const alt = extras.find((x) => x.fields.dim === majority && x.quality !== "invalid");
+    if (alt) {
+      originalProbe = alt.fields;
+      notes.push(`ensemble majority DIM=${majority} → frame from sample ${extras.indexOf(alt) + 2}`);
+    }
+  }
+
+  // Heuristic estimate (message, frame, probe latency): the state source when logprobs are missing,
+  // blended in otherwise
+  const fallback = fbCfg.enabled
+    ? fallbackState(
+        sess.gate,
+        {
+          userText,
+          dim: originalProbe.dim,
+          difficulty: originalProbe.difficulty,
+          probeLatencyMs: probed.latencyMs,
+        },
+        params.state,
+        params.dimensions
+      )
+    : null;
+  const combined = combineState(score !== null ? scored.raw_state : null, fallback?.estimate ?? null, sess.gate.last_state, params.state);
+  if (combined.source === "fallback") notes.push(`no logprobs → fallback state ${combined.raw_state.toFixed(3)}`);
+  else if (combined.source === "held") notes.push("no logprobs and no fallback → previous state kept");
+
+  // per-session calibration from user ratings (a held state is already calibrated)
+  const feedback = (sess.feedback ??= emptyFeedbackState());
+  const calibration = feedback.calibration;
+  const calibrate = params.feedback.enabled && combined.source !== "held";
+  const rawStateFromScore = calibrate ? calibrateState(combined.raw_state, calibration) : combined.raw_state;
+  if (calibrate && calibration.ratings > 0) {
+    notes.push(`feedback calibration (${calibration.ratings} ratings) → raw ${combined.raw_state.toFixed(3)} → ${rawStateFromScore.toFixed(3)}`);
+  }
+
+  emit({
+    type: "probe",
+    turn,
+    probeText: originalProbe.raw || null,
+    dim: originalProbe.dim,
+    focus: originalProbe.focus,
+    next: originalProbe.next,
+    metrics: { surprisal: S, entropy: H, zS, zH, score },
+  });
+
+  // ----------------
+  // Phase A.1: Exploration Pulse (optional)
+  // ----------------
+  const eligibility = pulseEligibility(sess.gate, turn, params.pulse, params.dimensions, {
+    userTexts: sess.history.filter((m) => m.role === "user").map((m) => m.content),
+    assistantTexts: sess.history.filter((m) => m.role === "assistant").map((m) => m.content),
+  });
+  const firing = eligibility.stagnation.verdicts.filter((v) => v.stagnant).map((v) => v.detector);
+  if (firing.length) notes.push(`stagnation: ${firing.join(", ")} (${eligibility.stagnation.mode} → ${eligibility.stagnation_detected ? "stagnant" : "not enough"})`);
+
+  let effectiveProbe: ProbeFields = originalProbe;
+  let pulse: PulseInfo = emptyPulseInfo(eligibility, params.pulse.candidates);
+
+  if (eligibility.eligible && budget.pressure > 0) {
+    notes.push(`cost budget pressure ${budget.pressure.toFixed(2)} → exploration pulse skipped`);
+  } else if (eligibility.eligible) {
+    try {
+      const res = await runExplorationPulse({
+        provider,
+        modelFor: (phase) => modelFor(phase, prevRouteState),
+        gs: sess.gate,
+        turn,
+        userText,
+        current: originalProbe,
+        eligibility,
+        cfg: params.pulse,
+        limits: params.probe,
+        dims: params.dimensions,
+      });
+      pulse = res.info;
+      notes.push(...res.notes);
+      // cooldown starts with any pulse that produced candidates, switched or not
+      if (pulse.candidates.length) sess.gate.last_pulse_turn = turn;
+      if (res.selected) {
+        effectiveProbe = res.selected;
+        notes.push(`exploration pulse → ${res.selected.dim} (candidate ${pulse.picked} of ${pulse.candidates.length}, ${pulse.verifier})`);
+      }
+    } catch (e: any) {
+      notes.push(`exploration pulse failed: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  // ----------------
+  // state: score → (DIM weight) → hysteresis
+  // ----------------
+  const settled = settleState(
+    sess.gate,
+    rawStateFromScore,
+    effectiveProbe.dim,
+    effectiveProbe.focus,
+    turn,
+    params.state,
+    params.dimensions
+  );
+  const state = settled.state;
+  notes.push(...settled.notes);
+
+  // Update attention log
+  if (effectiveProbe.dim && effectiveProbe.focus) {
+    const entry: AttentionLogEntry = {
+      turn,
+      dim: effectiveProbe.dim,
+      focus: effectiveProbe.focus,
+      next: effectiveProbe.next,
+    };
+    sess.memory.attn_log.push(entry);
+    while (sess.memory.attn_log.length > params.memory.attn_log_max) sess.memory.attn_log.shift();
+  }
+
+  // ----------------
+  // Salience-based fragment memory bank ("local notes")
+  // - decay depends on state (low state -> faster forgetting)
+  // - add/merge a short fragment each turn from the attention frame
+  // - later we'll inject top-K fragments (not just the latest ones)
+  // ----------------
+  const fcfg = params.fragments;
+  const decay = decayFragments(
+    sess.memory.fragments,
+    state,
+    { min: fcfg.decay_min, max: fcfg.decay_max, gamma: fcfg.decay_gamma },
+    Object.fromEntries(Object.entries(fcfg.extraction.kinds).map(([k, v]) => [k, v.decay_power]))
+  );
+  let fragAdd: StepDebug["memory"]["fragments"]["last_add"] = null;
+  let mergedThisTurn = 0;
+  const embedder = deps.embedder ?? getEmbedder();
+
+  const baseFragText = fragmentText({
+    dim: effectiveProbe.dim,
+    focus: effectiveProbe.focus,
+    next: effectiveProbe.next,
+  });
+
+  if (baseFragText) {
+    const initSalience = clamp(
+      0,
+      1.2,
+      fcfg.init_base + fcfg.init_state_weight * state + dimBonus(effectiveProbe.dim, params.dimensions)
+    );
+    const key = makeFragmentKey({ dim: effectiveProbe.dim, focus: effectiveProbe.focus, next: effectiveProbe.next });
+    // embedding dedup needs the incoming vector up front (it is then stored instead of recomputed)
+    let vec: number[] | undefined;
+    if (fcfg.dedup.embedding_threshold !== null) {
+      try {
+        [vec] = await embedder.embed([baseFragText]);
+      } catch (e: any) {
+        notes.push(`fragment dedup embedding failed (${embedder.name}): ${String(e?.message ?? e)} → token overlap only`);
+      }
+    }
+    const res = upsertFragment(
+      sess.memory.fragments,
+      {
+        key,
+        turn,
+        dim: effectiveProbe.dim,
+        focus: effectiveProbe.focus,
+        text: baseFragText,
+        salience: initSalience,
+        ...(vec ? { embedding: vec, embedding_model: embedder.name } : {}),
+      },
+      turn,
+      fcfg.dedup
+    );
+    if (res.merged) mergedThisTurn++;
+    if (res.fuzzy) notes.push(`fragment merged into near-duplicate ${res.id} (${res.fuzzy.via} ${res.fuzzy.similarity.toFixed(2)})`);
+    fragAdd = { ...res, salience: initSalience, text: baseFragText };
+  }
+
+  pruneFragments(sess.memory.fragments, turn, fcfg.max_keep, fcfg.prune_min_salience, fcfg.prune_min_age);
+
+  // Relevance vectors: (re)embed changed notes, then the query (user text + FOCUS) in one batch.
+  // On failure the injection falls back to salience-only ranking.
+  let relevanceQuery: RelevanceQuery | null = null;
+  try {
+    await embedFragments(sess.memory.fragments, embedder);
+    const focusText = effectiveProbe.focus?.trim() || null;
+    const [userVec, focusVec] = await embedder.embed(focusText ? [userText, focusText] : [userText]);
+    relevanceQuery = { user: userVec ?? null, focus: focusVec ?? null };
+  } catch (e: any) {
+    notes.push(`fragment embedding failed (${embedder.name}): ${String(e?.message ?? e)} → salience-only ranking`);
+  }
+
+  // ----------------
+  // Gradient memory budgets (continuous; no discrete LOW/MID/HIGH)
+  // ----------------
+  // near/over the session budget, spend as if the state were lower (gate.last_state keeps the uncapped value)
+  const budgetState = Math.min(state, budget.state_cap);
+  if (budgetState < state) notes.push(`cost budget → state capped ${state.toFixed(2)} → ${budgetState.toFixed(2)}`);
+  const budgets = computeBudgets(budgetState, params.budgets);
+  const {
+    context_tokens,
+    summary_chars,
+    attn_items,
+    summary_update_interval,
+    summary_update_max_tokens,
+    extract_interval,
+    temperature,
+    tool_iterations,
+  } = budgets;
+  // top-K salience fragments (not necessarily recent)
+  let frag_items = budgets.frag_items;
+
+  // even in low state, keep at least 1 fragment if something is very salient
+  const topSalience = sess.memory.fragments.length ? Math.max(...sess.memory.fragments.map((f) => f.salience)) : 0;
+  if (frag_items === 0 && topSalience > 0.9) frag_items = 1;
+
+  let max_output_tokens = budgets.max_output_tokens;
+
+  // If exploration pulse just changed the frame, ensure the main response has enough room
+  // to make the "視点スライド" feel tangible.
+  if (pulse.triggered) {
+    const floor = params.pulse.main_tokens_floor;
+    if (max_output_tokens < floor) notes.push(`pulse → max_output_tokens floor ${floor}`);
+    max_output_tokens = Math.max(max_output_tokens, floor);
+  }
+
+  emit({
+    type: "state",
+    state,
+    raw_state: rawStateFromScore,
+    state_source: combined.source,
+    params: { max_output_tokens, temperature, context_tokens },
+  });
+  emit({ type: "pulse", pulse });
+
+  // ----------------
+  // Phase B: MAIN
+  // ----------------
+  const systemMsg: LLMMessage = { role: "system", content: mainSystemPrompt(budgetState) };
+  // Always add current attention frame
+  const frameMsg: LLMMessage = {
+    role: "system",
+    content: frameSystemPrompt({
+      dim: effectiveProbe.dim,
+      focus: effectiveProbe.focus,
+      next: effectiveProbe.next,
+      pulse: pulse.triggered,
+    }),
+  };
+
+  // tool calls the user approved/denied since the last turn
+  const pendingTools = (sess.pending_tools ??= []);
+  const toolReport = takeResolvedToolReport(pendingTools);
+  const toolReportMsg: LLMMessage | null = toolReport.text ? { role: "system", content: toolReport.text } : null;
+
+  const summaryUpdated = summaryJob ? await summaryJob : null;
+  if (summaryUpdated !== null) emit({ type: "summary", summary: sess.memory.summary || null, updated: summaryUpdated });
+
+  // Fragments ranked by salience + relevance to this turn (can include older-but-important notes)
+  const fragCandidates = rankFragments(sess.memory.fragments, relevanceQuery, frag_items, fcfg.relevance);
+
+  // Gradient memory injection within the state-scaled token budget:
+  // summary (headline → paragraph → earlier topic segments), attention log, fragments, then history
+  const summaryLayers: SummaryLayer[] = [];
+  const built = buildContext({
+    budgetTokens: context_tokens,
+    cfg: params.context,
+    fixed: toolReportMsg ? [systemMsg, frameMsg, toolReportMsg] : [systemMsg, frameMsg],
+    summary: {
+      maxChars: summary_chars,
+      render: (chars) => {
+        const composed = composeSummaryInjection(sess.memory, chars, params.summary);
+        summaryLayers.splice(0, summaryLayers.length, ...(composed?.layers ?? []));
+        return composed?.text ?? null;
+      },
+    },
+    attn: {
+      maxItems: Math.min(attn_items, sess.memory.attn_log.length),
+      render: (n) => formatAttnLog(sess.memory.attn_log, n),
+    },
+    fragments: {
+      maxItems: fragCandidates.length,
+      render: (n) => formatFragmentsForPrompt(fragCandidates.slice(0, n).map((r) => r.fragment)),
+    },
+    history: sess.history.map((m) => ({ role: m.role, content: m.content })),
+  });
+  if (!built.summary) summaryLayers.length = 0;
+  const summaryUsed = built.summary;
+  const fragRanked = fragCandidates.slice(0, built.fragmentItems);
+  const fragPicked = fragRanked.map((r) => r.fragment);
+  if (fragPicked.length) rehearseFragments(sess.memory.fragments, fragPicked, turn);
+  if (built.allocation.elided_messages) {
+    notes.push(`context: ${built.allocation.elided_messages} long message(s) elided to fit ${context_tokens} tokens`);
+  }
+
+  const sysParts: LLMMessage[] = [systemMsg];
+  if (built.summary) sysParts.push({ role: "system", content: built.summary });
+  if (built.attn) sysParts.push({ role: "system", content: built.attn });
+  if (built.fragments) sysParts.push({ role: "system", content: built.fragments });
+  if (toolReportMsg) sysParts.push(toolReportMsg);
+  sysParts.push(frameMsg);
+
+  // main call, with tool-calling rounds scaled by state
+  const tcfg = params.tools;
+  const toolLoop = await runToolLoop({
+    provider,
+    request: {
+      phase: "main",
+      model: modelFor("main", budgetState),
+      input: [...sysParts, ...built.history],
+      temperature,
+      max_output_tokens,
+    },
+    maxIterations: tcfg.enabled ? tool_iterations : 0,
+    cfg: tcfg,
+    ctx: {
+      memory: sess.memory,
+      turn,
+      state,
+      dim: effectiveProbe.dim,
+      fragments: fcfg,
+      now: Date.now(),
+    },
+    onDelta: deps.emit ? (text) => emit({ type: "delta", text }) : undefined,
+    onReset: () => emit({ type: "delta_reset" }),
+  });
+  const assistantText = toolLoop.result.text;
+  if (toolLoop.calls.length) {
+    notes.push(`tools: ${toolLoop.calls.length} call(s) in ${toolLoop.iterations} round(s) of ${tool_iterations}`);
+  }
+  if (toolLoop.pending.length) {
+    pendingTools.push(...toolLoop.pending);
+    notes.push(`tools: ${toolLoop.pending.map((p) => p.name).join(", ")} held for confirmation (${effectiveProbe.dim} frame)`);
+  }
+  trimPendingTools(pendingTools, tcfg.pending_max);
+
+  sess.history.push({ role: "assistant", content: assistantText, turn });
+  emit({ type: "main_done", assistantText });
+
+  // ----------------
+  // Phase B.1: Layered summary. Close the topic segment when DIM/FOCUS moved on, and decide whether the
+  // headline + paragraph are due (scheduled smoothly by state). The summary calls themselves run at
+  // the start of the next turn (memory.summary_pending)
+  // ----------------
+  const scfg = params.summary;
+  const frame = { dim: effectiveProbe.dim, focus: effectiveProbe.focus };
+  const shift = detectTopicShift(sess.memory.summary_segment_open, sess.memory.attn_log, turn, scfg);
+  const openSeg = sess.memory.summary_segment_open;
+  let closedSegment: PendingSummary["segment"] = null;
+  if (shift.shifted && shift.since !== null && openSeg) {
+    // the closed segment spans start_turn … since-1; the diverging window opens the next topic
+    const since = shift.since;
+    closedSegment = { start_turn: openSeg.start_turn, end_turn: since - 1, dim: openSeg.dim, focus: openSeg.focus };
+    notes.push(`topic shift (${shift.reason}) → segment t${openSeg.start_turn}–${since - 1} closed`);
+    // the new segment is opened on the frame it started with, not on this turn's frame
+    const opening = sess.memory.attn_log.find((f) => f.turn === since);
+    sess.memory.summary_segment_open = {
+      start_turn: since,
+      dim: dominantDim(sess.memory.attn_log, scfg.shift_window) ?? frame.dim,
+      focus: opening?.focus ?? frame.focus,
+    };
+  } else if (!openSeg && frame.dim && frame.focus) {
+    sess.memory.summary_segment_open = { start_turn: turn, dim: frame.dim, focus: frame.focus };
+  }
+
+  const shouldUpdateSummary = turn - sess.memory.summary_updated_turn >= summary_update_interval;
+  if (shouldUpdateSummary || closedSegment) {
+    sess.memory.summary_pending = {
+      turn,
+      update: shouldUpdateSummary
+        ? { user_text: userText, assistant_text: assistantText, max_tokens: summary_update_max_tokens }
+        : null,
+      segment: closedSegment,
+    };
+  }
+
+  // ----------------
+  // Phase B.2: Extract typed notes from the exchange into the fragment bank (optional; scheduled by state)
+  // ----------------
+  let extraction: StepDebug["memory"]["fragments"]["extraction"] = null;
+  const ecfg = fcfg.extraction;
+  const lastExtracted = sess.memory.notes_extracted_turn ?? -1;
+  const shouldExtract = ecfg.enabled && ecfg.max_notes > 0 && turn - lastExtracted >= extract_interval;
+  if (shouldExtract && budget.exhausted) {
+    notes.push("cost budget exhausted → note extraction skipped");
+  } else if (shouldExtract) {
+    try {
+      const got = await extractNotes({
+        provider,
+        model: modelFor("extract", budgetState),
+        userText,
+        assistantText,
+        maxNotes: ecfg.max_notes,
+        maxTokens: ecfg.max_output_tokens,
+      });
+      sess.memory.notes_extracted_turn = turn;
+      extraction = { notes: [], issues: got.issues };
+      for (const note of got.notes) {
+        const salience = clamp(0, 1.2, fcfg.init_base + fcfg.init_state_weight * state + ecfg.kinds[note.kind].salience_bonus);
+        const text = noteFragmentText(note);
+        const res = upsertFragment(
+          sess.memory.fragments,
+          { key: noteFragmentKey(note), turn, dim: effectiveProbe.dim, focus: null, text, salience, kind: note.kind },
+          turn,
+          fcfg.dedup
+        );
+        if (res.merged) mergedThisTurn++;
+        extraction.notes.push({ kind: note.kind, text, added: res.added, merged: res.merged, salience });
+      }
+    } catch (e: any) {
+      notes.push(`note extraction failed: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  recordTurnSnapshot(
+    feedback,
+    {
+      turn,
+      score,
+      raw_state: combined.raw_state,
+      state,
+      state_source: combined.source,
+      max_output_tokens,
+      context_tokens,
+    },
+    params.feedback.history_max
+  );
+
+  meter.commit(sessUsage);
+  const unpriced = meter.unpriced();
+  if (unpriced.length) notes.push(`no price for ${unpriced.join(", ")} → counted as $0`);
+
+  const debug: StepDebug = {
+    turn,
+    probeText: effectiveProbe.raw || null,
+    probeText_original: probed.firstText || null,
+    dim: effectiveProbe.dim,
+    focus: effectiveProbe.focus,
+    next: effectiveProbe.next,
+    memory: {
+      context_tokens,
+      ctx_keep_msgs: built.history.length,
+      context: built.allocation,
+      summary_chars,
+      attn_items,
+      frag_items,
+      summary_update_interval,
+      summary_update_max_tokens,
+      extract_interval,
+      fragments: {
+        total: sess.memory.fragments.length,
+        decay_factor: decay.factor,
+        top_salience: topSalience,
+        last_add: fragAdd,
+        merged_this_turn: mergedThisTurn,
+        embedder: embedder.name,
+        ranking: relevanceQuery ? "salience+similarity" : "salience",
+        injected: fragRanked.map((r) => fragmentDebugItem(r.fragment, r)),
+        top: pickTopFragments(sess.memory.fragments, Math.min(10, sess.memory.fragments.length)).map((f) => fragmentDebugItem(f)),
+        extraction,
+      },
+    },
+    probe: probed.info,
+    ensemble: scored.ensemble,
+    pulse,
+    summary_used: summaryUsed,
+    summary_stored: sess.memory.summary || null,
+    summary_layers: {
+      injected: summaryLayers,
+      paragraph: sess.memory.summary_paragraph ?? null,
+      segments: sess.memory.summary_segments?.length ?? 0,
+      open_segment: sess.memory.summary_segment_open ?? null,
+      shift: shift.shifted ? shift.reason : null,
+    },
+    metrics: {
+      surprisal: S,
+      entropy: H,
+      zS,
+      zH,
+      score,
+      raw_state: rawStateFromScore,
+      state_source: combined.source,
+      fallback,
+    },
+    state,
+    calibration: {
+      ...calibration,
+      applied: calibrate,
+      uncalibrated: combined.raw_state,
+      tau: params.state.tau * calibration.tau_scale,
+      score_offset: calibration.offset * params.state.tau,
+    },
+    meta: {
+      meta_cap_stage: sess.gate.meta_cap_stage,
+      meta_cap: metaCapValue(sess.gate.meta_cap_stage),
+      recent_meta_share: recentMetaShare(sess.gate, 12, params.dimensions),
+    },
+    params: {
+      max_output_tokens,
+      temperature,
+      context_tokens,
+    },
+    config: {
+      preset: resolved.preset,
+      overrides: resolved.overrides,
+      resolved: resolved.config,
+    },
+    tools: {
+      offered: offeredTools(tcfg, tool_iterations).map((d) => d.name),
+      max_iterations: tcfg.enabled ? tool_iterations : 0,
+      iterations: toolLoop.iterations,
+      confirm_required: effectiveProbe.dim !== null && tcfg.confirm.dims.includes(effectiveProbe.dim),
+      calls: toolLoop.calls,
+      reported: toolReport.reported,
+    },
+    routing,
+    cost: {
+      phases: meter.phases,
+      models: meter.models,
+      turn: { ...meter.turn },
+      session: { ...sessUsage },
+      unpriced_models: unpriced,
+      budget,
+    },
+    notes,
+  };
+
+  sess.turn_log = appendTurnRecord(sess.turn_log ?? [], toTurnRecord(debug), params.memory.turn_log_max);
+
+  const trace: TurnTrace = {
+    session_id: sess.id,
+    turn,
+    at: new Date().toISOString(),
+    user_text: userText,
+    // primary probe; replay redoes the ensemble majority pick from probe_samples
+    probe_text: probed.probe.raw,
+    probe_latency_ms: probed.latencyMs,
+    probe_logprobs: sliceFirstLine(probeLogprobs, 30),
+    ...(extras.length
+      ? { probe_samples: extras.map((x) => ({ probe_text: x.text, probe_logprobs: sliceFirstLine(x.logprobs, 30) })) }
+      : {}),
+    pulse: { triggered: pulse.triggered, selected_probe: pulse.selected_probe },
+    state,
+  };
+
+  emit({ type: "done", debug });
+  return { assistantText, debug, trace };
+}
@@ -0,0 +1,45 @@
+import { stripLineMarkup, unwrapEmphasis } from "@/lib/markup";
+import type { NoteKind } from "@/lib/types";
+
+// Notes extracted from the main exchange ("FACT: ..." lines). These become fragments alongside the
+// probe's attention notes; keys are namespaced so they never merge with a DIM|FOCUS|NEXT key.
+
+export const NOTE_KINDS: readonly NoteKind[] = ["fact", "decision", "constraint", "todo"];
+
+const NOTE_MAX_CHARS = 120;
+
+export type ExtractedNote = { kind: NoteKind; text: string };
+
+// Parse the extractor output; unknown labels and overflow lines are reported, never thrown.
+export function parseExtractedNotes(text: string, maxNotes: number): { notes: ExtractedNote[]; issues: string[] } {
+  const notes: ExtractedNote[] = [];
+  const issues: string[] = [];
+  const lines = (text ?? "").split("\n").map(stripLineMarkup).filter(Boolean);
+  if (lines.length === 1 && /^none\.?$/i.test(lines[0])) return { notes, issues };
+
+  for (const line of lines) {
+    const m = line.match(/^([A-Za-z]+)\s*[:=\-–]\s*(.+)$/);
+    const kind = m ? (m[1].toLowerCase() as NoteKind) : null;
+    if (!m || !kind || !NOTE_KINDS.includes(kind)) {
+      issues.push(`ignored line "${line.slice(0, 40)}"`);
+      continue;
+    }
+    let body = unwrapEmphasis(m[2].replace(/\s+/g, " "));
+    if (body.length > NOTE_MAX_CHARS) body = body.slice(0, NOTE_MAX_CHARS).trim();
+    if (notes.some((n) => n.kind === kind && n.text.toLowerCase() === body.toLowerCase())) continue;
+    if (notes.length >= maxNotes) {
+      issues.push(`more than ${maxNotes} notes; extra dropped`);
+      break;
+    }
+    notes.push({ kind, text: body });
+  }
+  return { notes, issues };
+}
+
+export function noteFragmentKey(note: ExtractedNote): string {
+  return `note:${note.kind}|${note.text.toLowerCase()}`;
+}
+
+export function noteFragmentText(note: ExtractedNote): string {
+  return `[${note.kind.toUpperCase()}] ${note.text}`;
+}
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import type { GateConfig } from "@/lib/gateConfig";
+import { clamp01, sigmoid } from "@/lib/gating";
+import type { FeedbackEntry, FeedbackRating, FeedbackState, StateCalibration, TurnSnapshot } from "@/lib/types";
+
+// User ratings per assistant turn, and the per-session calibration they drive. Calibration acts in
+// logit space on the raw state: raw' = sigmoid((logit(raw) + offset) / tau_scale). For the logprob
+// path (raw = sigmoid(score / tau)) that is the same sigmoid with tau * tau_scale and the score
+// shifted by offset * tau.
+
+export type FeedbackConfig = GateConfig["feedback"];
+
+export const FeedbackBodySchema = z
+  .object({
+    turn: z.number().int().min(1),
+    rating: z.enum(["up", "down", "too_short", "too_long"]),
+  })
+  .strict();
+
+export type FeedbackBody = z.infer<typeof FeedbackBodySchema>;
+
+export function identityCalibration(): StateCalibration {
+  return { tau_scale: 1, offset: 0, ratings: 0 };
+}
+
+export function emptyFeedbackState(): FeedbackState {
+  return { turns: [], entries: [], calibration: identityCalibration() };
+}
+
+function logit(p: number): number {
+  const x = Math.min(1 - 1e-4, Math.max(1e-4, p));
+  return Math.log(x / (1 - x));
+}
+
+export function calibrateState(raw: number, cal: StateCalibration): number {
+  if (cal.offset === 0 && cal.tau_scale === 1) return raw;
+  return clamp01(sigmoid((logit(raw) + cal.offset) / cal.tau_scale));
+}
+
+// What the gate decided on a turn, so a later rating can be judged against it
+export function recordTurnSnapshot(fb: FeedbackState, snap: TurnSnapshot, max: number): void {
+  fb.turns = fb.turns.filter((t) => t.turn !== snap.turn);
+  fb.turns.push(snap);
+  if (fb.turns.length > max) fb.turns.splice(0, fb.turns.length - max);
+}
+
+// One rating → calibration step:
+//   too_short / too_long shift the offset (less when the turn was already near the extreme),
+//   down flattens the mapping (tau_scale up), up sharpens it back.
+export function updateCalibration(
+  cal: StateCalibration,
+  rating: FeedbackRating,
+  state: number,
+  cfg: FeedbackConfig
+): StateCalibration {
+  let { tau_scale, offset } = cal;
+  if (rating === "too_short") offset += cfg.offset_step * (1 - state);
+  else if (rating === "too_long") offset -= cfg.offset_step * state;
+  else if (rating === "down") tau_scale *= 1 + cfg.tau_step;
+  else tau_scale /= 1 + cfg.tau_step;
+  return {
+    tau_scale: Math.min(cfg.tau_scale_max, Math.max(cfg.tau_scale_min, tau_scale)),
+    offset: Math.min(cfg.offset_max, Math.max(-cfg.offset_max, offset)),
+    ratings: cal.ratings + 1,
+  };
+}
+
+// Record a rating for `turn`; null when the turn has no snapshot (too old, or never ran).
+// With calibration disabled the rating is still stored, the calibration left as is.
+export function applyFeedback(
+  fb: FeedbackState,
+  turn: number,
+  rating: FeedbackRating,
+  cfg: FeedbackConfig,
+  now = Date.now()
+): FeedbackEntry | null {
+  const snap = fb.turns.find((t) => t.turn === turn);
+  if (!snap) return null;
+  const before = fb.calibration;
+  const after = cfg.enabled ? updateCalibration(before, rating, snap.state, cfg) : before;
+  const entry: FeedbackEntry = { ...snap, at: now, rating, before, after };
+  fb.calibration = after;
+  fb.entries.push(entry);
+  if (fb.entries.length > cfg.history_max) fb.entries.splice(0, fb.entries.length - cfg.history_max);
+  return entry;
+}
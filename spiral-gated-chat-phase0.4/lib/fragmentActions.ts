@@ -0,0 +1,82 @@
+import { z } from "zod";
+import type { FragmentAction, MemoryFragment, MemoryState } from "@/lib/types";
+
+// Manual fragment bank edits (inspector panel). Every change is appended to
+// MemoryState.fragment_actions so corrections stay visible in exports.
+
+export const FRAGMENT_ACTION_LOG_MAX = 200;
+
+export const FragmentPatchSchema = z
+  .object({
+    pinned: z.boolean().optional(),
+    text: z.string().trim().min(1).max(160).optional(),
+    salience: z.number().min(0).max(1.2).optional(),
+  })
+  .strict()
+  .refine((p) => p.pinned !== undefined || p.text !== undefined || p.salience !== undefined, {
+    message: "nothing to change (expected pinned, text or salience)",
+  });
+
+export type FragmentPatch = z.infer<typeof FragmentPatchSchema>;
+
+// Inspector view of a fragment (no embedding vector)
+export type FragmentListItem = Omit<MemoryFragment, "embedding">;
+
+export function listFragments(mem: MemoryState): FragmentListItem[] {
+  return [...mem.fragments]
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.salience - a.salience)
+    .map(({ embedding: _embedding, ...rest }) => rest);
+}
+
+function record(mem: MemoryState, entry: FragmentAction): void {
+  const log = (mem.fragment_actions ??= []);
+  log.push(entry);
+  if (log.length > FRAGMENT_ACTION_LOG_MAX) log.splice(0, log.length - FRAGMENT_ACTION_LOG_MAX);
+}
+
+// Apply a patch to one fragment; returns the recorded actions (empty when nothing changed),
+// or null when the fragment does not exist.
+export function patchFragment(
+  mem: MemoryState,
+  id: string,
+  patch: FragmentPatch,
+  turn: number,
+  now = Date.now()
+): FragmentAction[] | null {
+  const f = mem.fragments.find((x) => x.id === id);
+  if (!f) return null;
+  const actions: FragmentAction[] = [];
+  const base = { at: now, turn, id };
+
+  if (patch.pinned !== undefined && patch.pinned !== !!f.pinned) {
+    actions.push({ ...base, action: patch.pinned ? "pin" : "unpin", before: null, after: null });
+    if (patch.pinned) f.pinned = true;
+    else delete f.pinned;
+  }
+  if (patch.text !== undefined) {
+    const text = patch.text.replace(/\s+/g, " ");
+    if (text !== f.text) {
+      actions.push({ ...base, action: "edit", before: f.text, after: text });
+      f.text = text;
+      f.edited = true;
+      // re-embedded on the next turn
+      delete f.embedding;
+    }
+  }
+  if (patch.salience !== undefined && patch.salience !== f.salience) {
+    actions.push({ ...base, action: "set_salience", before: f.salience, after: patch.salience });
+    f.salience = patch.salience;
+  }
+
+  for (const a of actions) record(mem, a);
+  return actions;
+}
+
+export function deleteFragment(mem: MemoryState, id: string, turn: number, now = Date.now()): FragmentAction | null {
+  const idx = mem.fragments.findIndex((x) => x.id === id);
+  if (idx < 0) return null;
+  const [f] = mem.fragments.splice(idx, 1);
+  const action: FragmentAction = { at: now, turn, id, action: "delete", before: f.text, after: null };
+  record(mem, action);
+  return action;
+}
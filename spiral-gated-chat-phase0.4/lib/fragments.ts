@@ -1,4 +1,7 @@
-import type { MemoryFragment } from "@/lib/types";
+import { dimDef, type DimensionRegistry } from "@/lib/dimensions";
+import { cosineSimilarity, embeddingTerms, type Embedder } from "@/lib/embeddings";
+import { DEFAULT_GATE_CONFIG, type GateConfig } from "@/lib/gateConfig";
+import type { MemoryFragment, NoteKind } from "@/lib/types";
 
 function clamp(a: number, b: number, x: number): number {
   return Math.max(a, Math.min(b, x));
@@ -24,36 +27,31 @@ export function makeFragmentKey(args: { dim: string | null; focus: string | null
   return `${d}|${f}|${n}`;
 }
 
-export function dimBonus(dim: string | null): number {
-  switch ((dim ?? "").toUpperCase()) {
-    case "RISK":
-      return 0.22;
-    case "GOAL":
-      return 0.16;
-    case "NOVELTY":
-      return 0.12;
-    case "OPPORTUNITY":
-      return 0.10;
-    case "UNCERTAINTY":
-      return 0.08;
-    case "META":
-      return 0.04;
-    default:
-      return 0.0;
-  }
+export function dimBonus(dim: string | null, reg: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions): number {
+  return dimDef(reg, dim)?.salience_bonus ?? 0.0;
 }
 
-export function salienceDecayFactor(state: number): number {
+export type DecayRange = { min: number; max: number; gamma: number };
+
+export function salienceDecayFactor(state: number, range: DecayRange = { min: 0.55, max: 0.93, gamma: 0.9 }): number {
   // low state → fast decay; high state → slow decay
-  // state=0 => 0.55, state=1 => 0.93
-  const t = Math.pow(clamp01(state), 0.9);
-  return lerp(0.55, 0.93, t);
+  // state=0 => min (0.55), state=1 => max (0.93)
+  const t = Math.pow(clamp01(state), range.gamma);
+  return lerp(range.min, range.max, t);
 }
 
-export function decayFragments(frags: MemoryFragment[], state: number): { factor: number } {
-  const factor = salienceDecayFactor(state);
+// kindPower: per note kind exponent on the factor (extracted facts/constraints can fade slower)
+export function decayFragments(
+  frags: MemoryFragment[],
+  state: number,
+  range?: DecayRange,
+  kindPower: Partial<Record<NoteKind, number>> = {}
+): { factor: number } {
+  const factor = salienceDecayFactor(state, range);
   for (const f of frags) {
-    f.salience = clamp(0, 1.2, f.salience * factor);
+    if (f.pinned) continue;
+    const power = f.kind ? (kindPower[f.kind] ?? 1) : 1;
+    f.salience = clamp(0, 1.2, f.salience * Math.pow(factor, power));
   }
   return { factor };
 }
@@ -68,33 +66,111 @@ export function fragmentText(args: { dim: string | null; focus: string | null; n
   return t.length > 160 ? t.slice(0, 160) : t;
 }
 
-export function upsertFragment(frags: MemoryFragment[], incoming: Omit<MemoryFragment, "id" | "last_used_turn">, turn: number): {
+// Terms compared for fuzzy dedup: the "(DIM) " / "[KIND] " header is dropped, as are filler words,
+// so "login flow" and "the login flow" come out identical.
+const DEDUP_STOPWORDS = new Set([
+  "the", "an", "of", "to", "for", "and", "or", "in", "on", "at", "with", "is", "are", "be", "this", "that", "it",
+]);
+
+export function dedupTerms(text: string): Set<string> {
+  const body = text.replace(/^\s*(?:\([A-Z_]+\)|\[[A-Z_]+\])\s*/, "");
+  return new Set(embeddingTerms(body).filter((t) => !DEDUP_STOPWORDS.has(t)));
+}
+
+// Jaccard overlap of the dedup terms (1 when both are empty)
+export function tokenOverlap(a: string, b: string): number {
+  const ta = dedupTerms(a);
+  const tb = dedupTerms(b);
+  if (!ta.size && !tb.size) return 1;
+  let inter = 0;
+  for (const t of ta) if (tb.has(t)) inter++;
+  return inter / (ta.size + tb.size - inter);
+}
+
+export type DedupOptions = GateConfig["fragments"]["dedup"];
+
+export type UpsertResult = {
   added: boolean;
   merged: boolean;
   id: string;
-} {
+  // set when the merge matched a near-duplicate rather than the exact key
+  fuzzy?: { via: "tokens" | "embedding"; similarity: number };
+};
+
+// Closest fragment above either threshold (exact-key matches are handled first). Attention notes only
+// merge within their DIM; extracted notes within their kind, whatever the DIM was at the time.
+function findNearDuplicate(
+  frags: MemoryFragment[],
+  incoming: Omit<MemoryFragment, "id" | "last_used_turn">,
+  opts: DedupOptions
+): { fragment: MemoryFragment; via: "tokens" | "embedding"; similarity: number } | null {
+  let best: { fragment: MemoryFragment; via: "tokens" | "embedding"; similarity: number } | null = null;
+  for (const f of frags) {
+    if (f.kind !== incoming.kind || (!incoming.kind && f.dim !== incoming.dim)) continue;
+    const tok = tokenOverlap(f.text, incoming.text);
+    if (tok >= opts.threshold && (!best || tok > best.similarity)) best = { fragment: f, via: "tokens", similarity: tok };
+    if (
+      opts.embedding_threshold !== null &&
+      f.embedding &&
+      incoming.embedding &&
+      f.embedding_model === incoming.embedding_model
+    ) {
+      const cos = cosineSimilarity(f.embedding, incoming.embedding);
+      if (cos >= opts.embedding_threshold && (!best || cos > best.similarity)) {
+        best = { fragment: f, via: "embedding", similarity: cos };
+      }
+    }
+  }
+  return best;
+}
+
+export function upsertFragment(
+  frags: MemoryFragment[],
+  incoming: Omit<MemoryFragment, "id" | "last_used_turn">,
+  turn: number,
+  dedup: DedupOptions | null = null
+): UpsertResult {
   const key = incoming.key;
-  const existing = frags.find((f) => f.key === key);
+  const exact = frags.find((f) => f.key === key);
+  const near = exact || !dedup ? null : findNearDuplicate(frags, incoming, dedup);
+  const existing = exact ?? near?.fragment;
   if (existing) {
-    // merge: keep the newest text, bump salience
-    existing.text = incoming.text;
+    // merge: keep the newest text (unless a user corrected it), bump salience
+    if (!existing.edited && existing.text !== incoming.text) {
+      existing.text = incoming.text;
+      if (incoming.embedding) {
+        existing.embedding = incoming.embedding;
+        existing.embedding_model = incoming.embedding_model;
+      } else {
+        delete existing.embedding;
+      }
+    }
     existing.dim = incoming.dim;
     existing.focus = incoming.focus;
     existing.turn = incoming.turn;
     existing.salience = clamp(0, 1.2, Math.max(existing.salience, incoming.salience) + 0.08);
-    return { added: false, merged: true, id: existing.id };
+    existing.merge_count = (existing.merge_count ?? 0) + 1;
+    const merges = (existing.merges ??= []);
+    merges.push({ turn, key, text: incoming.text, via: near?.via ?? "key", similarity: near?.similarity ?? 1 });
+    const keep = dedup?.history_max ?? DEFAULT_GATE_CONFIG.fragments.dedup.history_max;
+    if (merges.length > keep) merges.splice(0, merges.length - keep);
+    return near
+      ? { added: false, merged: true, id: existing.id, fuzzy: { via: near.via, similarity: near.similarity } }
+      : { added: false, merged: true, id: existing.id };
   }
   const id = makeFragmentId(turn);
   frags.push({ ...incoming, id, last_used_turn: -999 });
   return { added: true, merged: false, id };
 }
 
-export function pruneFragments(frags: MemoryFragment[], turn: number, maxKeep = 40): void {
-  // drop very low salience items that are also old-ish
-  const kept = frags.filter((f) => !(f.salience < 0.06 && turn - f.turn > 8));
+export function pruneFragments(frags: MemoryFragment[], turn: number, maxKeep = 40, minSalience = 0.06, minAge = 8): void {
+  // drop very low salience items that are also old-ish; pinned items are always kept
+  const pinned = frags.filter((f) => f.pinned);
+  const kept = frags.filter((f) => !f.pinned && !(f.salience < minSalience && turn - f.turn > minAge));
   kept.sort((a, b) => b.salience - a.salience);
   frags.length = 0;
-  for (const f of kept.slice(0, maxKeep)) frags.push(f);
+  for (const f of [...pinned, ...kept.slice(0, Math.max(0, maxKeep - pinned.length))]) frags.push(f);
+  frags.sort((a, b) => b.salience - a.salience);
 }
 
 export function pickTopFragments(frags: MemoryFragment[], k: number): MemoryFragment[] {
@@ -103,6 +179,57 @@ export function pickTopFragments(frags: MemoryFragment[], k: number): MemoryFrag
   return sorted.slice(0, k);
 }
 
+export type RankedFragment = {
+  fragment: MemoryFragment;
+  similarity: number | null;
+  score: number;
+};
+
+export type RelevanceQuery = {
+  user: number[] | null;
+  focus: number[] | null;
+};
+
+// Similarity of a fragment to the turn: user text and probe FOCUS, blended by focus_share.
+export function fragmentSimilarity(f: MemoryFragment, query: RelevanceQuery, focusShare: number): number | null {
+  if (!f.embedding || (!query.user && !query.focus)) return null;
+  const u = query.user ? Math.max(0, cosineSimilarity(f.embedding, query.user)) : null;
+  const fo = query.focus ? Math.max(0, cosineSimilarity(f.embedding, query.focus)) : null;
+  if (u === null) return fo;
+  if (fo === null) return u;
+  return (1 - focusShare) * u + focusShare * fo;
+}
+
+// Rank by salience blended with relevance; without a query (or vectors) this is pickTopFragments.
+export function rankFragments(
+  frags: MemoryFragment[],
+  query: RelevanceQuery | null,
+  k: number,
+  weights: GateConfig["fragments"]["relevance"] = DEFAULT_GATE_CONFIG.fragments.relevance
+): RankedFragment[] {
+  if (k <= 0) return [];
+  const ranked = frags.map((f) => {
+    const similarity = query ? fragmentSimilarity(f, query, weights.focus_share) : null;
+    const score =
+      similarity === null ? f.salience : weights.salience_weight * f.salience + weights.similarity_weight * similarity;
+    return { fragment: f, similarity, score };
+  });
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked.slice(0, k);
+}
+
+// Fill in missing/stale vectors (new notes, edited text, or a different embedder).
+export async function embedFragments(frags: MemoryFragment[], embedder: Embedder): Promise<number> {
+  const stale = frags.filter((f) => !f.embedding || f.embedding_model !== embedder.name);
+  if (!stale.length) return 0;
+  const vecs = await embedder.embed(stale.map((f) => f.text));
+  stale.forEach((f, i) => {
+    f.embedding = vecs[i];
+    f.embedding_model = embedder.name;
+  });
+  return stale.length;
+}
+
 export function rehearseFragments(frags: MemoryFragment[], picked: MemoryFragment[], turn: number): void {
   const pickedIds = new Set(picked.map((p) => p.id));
   for (const f of frags) {
@@ -116,7 +243,7 @@ export function formatFragmentsForPrompt(picked: MemoryFragment[]): string {
   if (!picked.length) return "";
   const lines = picked.map((f) => `- ${f.text}`);
   return [
-    "MEMORY_FRAGMENTS (salience-ranked; use ONLY if relevant; ignore if not needed):",
+    "MEMORY_FRAGMENTS (ranked by salience + relevance; use ONLY if relevant; ignore if not needed):",
     ...lines,
   ].join("\n");
 }
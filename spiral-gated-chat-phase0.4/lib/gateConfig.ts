@@ -0,0 +1,698 @@
+import { z } from "zod";
+import { DEFAULT_DIMENSIONS, DimensionRegistrySchema } from "@/lib/dimensions";
+
+// Every tuning knob of the gate in one validated object.
+// Resolution order: DEFAULT ← preset ← GATE_CONFIG env overrides ← per-session overrides
+// (which may not set the server-only sections, see SERVER_ONLY_SECTIONS).
+
+const BudgetCurveSchema = z
+  .object({
+    from: z.number(),
+    to: z.number(),
+    // lerp(from, to, powEase(state, gamma)) ...
+    gamma: z.number().positive().optional(),
+    // ... or lerp(from, to, smoothstep(edges[0], edges[1], state))
+    edges: z.tuple([z.number(), z.number()]).optional(),
+  })
+  .strict()
+  .refine((c) => !c.edges || c.edges[0] < c.edges[1], { message: "edges must be increasing" });
+
+export type BudgetCurve = z.infer<typeof BudgetCurveSchema>;
+
+const unit = z.number().min(0).max(1);
+
+const LLM_PHASES = ["probe", "exploration", "verify", "main", "summary", "extract"] as const;
+
+// built-in local tools (see lib/tools.ts)
+export const TOOL_NAMES = ["calculator", "clock", "scratchpad"] as const;
+
+const NoteKindSchema = z
+  .object({
+    salience_bonus: z.number(),
+    // 0 = never decays, 1 = decays like attention notes
+    decay_power: z.number().min(0),
+  })
+  .strict();
+
+export const GateConfigSchema = z
+  .object({
+    state: z
+      .object({
+        // EMA baseline update speed
+        eta: z.number().gt(0).lt(1),
+        // score = surprisal_weight * zS + entropy_weight * zH
+        surprisal_weight: z.number(),
+        entropy_weight: z.number(),
+        // state = sigmoid(score / tau)
+        tau: z.number().positive(),
+        hysteresis: z.object({ up: unit, down: unit, inertia: unit }).strict(),
+        // state without logprobs: weighted mean of heuristic signals in [0,1] (see lib/stateSignals.ts).
+        // Used alone when the probe has no logprobs; otherwise raw = (1 - blend) * logprob state + blend * estimate
+        fallback: z
+          .object({
+            enabled: z.boolean(),
+            blend: unit,
+            weights: z
+              .object({
+                length: z.number().min(0),
+                complexity: z.number().min(0),
+                questions: z.number().min(0),
+                dim_prior: z.number().min(0),
+                difficulty: z.number().min(0),
+                latency: z.number().min(0),
+              })
+              .strict(),
+            // user message size (estimated tokens) that counts as fully long
+            length_tokens_hi: z.number().int().min(8),
+            // ask the probe for a 5th "DIFF: 1-5" line (self-rated difficulty)
+            ask_difficulty: z.boolean(),
+          })
+          .strict(),
+      })
+      .strict(),
+    budgets: z
+      .object({
+        // main prompt token budget (system + summary + attention log + fragments + history)
+        context_tokens: BudgetCurveSchema,
+        summary_chars: BudgetCurveSchema,
+        attn_items: BudgetCurveSchema,
+        frag_items: BudgetCurveSchema,
+        summary_update_interval: BudgetCurveSchema,
+        summary_update_max_tokens: BudgetCurveSchema,
+        // turns between note extractions (only used when fragments.extraction.enabled)
+        extract_interval: BudgetCurveSchema,
+        max_output_tokens: BudgetCurveSchema,
+        temperature: BudgetCurveSchema,
+        // tool-calling rounds allowed in the main phase (0 = no tools offered)
+        tool_iterations: BudgetCurveSchema,
+      })
+      .strict(),
+    probe: z
+      .object({
+        // extra probe calls when the first output does not validate (0 = never retry)
+        max_repairs: z.number().int().min(0).max(3),
+        focus_max_chars: z.number().int().min(8),
+        next_max_chars: z.number().int().min(8),
+        why_max_chars: z.number().int().min(8),
+        // N probe samples per turn (1 = single probe); state from the aggregated score
+        // + disagreement_weight * (1 - share of the majority DIM)
+        ensemble: z
+          .object({
+            samples: z.number().int().min(1).max(8),
+            temperature: z.number().min(0).max(2),
+            aggregate: z.enum(["mean", "median"]),
+            disagreement_weight: z.number().min(0),
+          })
+          .strict(),
+      })
+      .strict(),
+    pulse: z
+      .object({
+        cooldown_turns: z.number().int().min(0),
+        // only explore while the previous state is below this (not already in high-compute mode)
+        max_prev_state: unit,
+        main_tokens_floor: z.number().int().min(0),
+        // alternative frames generated per pulse, and the sampling for them (see lib/pulse.ts)
+        candidates: z.number().int().min(2).max(6),
+        temperature: z.number().min(0).max(2),
+        candidate_tokens: z.number().int().min(16),
+        // a candidate with the same DIM as an earlier one (or the current frame) and FOCUS/NEXT token
+        // overlap at or above this is only a rewording and is dropped
+        diversity_threshold: unit,
+        // verifier score (0-10, after the repeat penalty) the best candidate needs to replace the frame
+        min_score: z.number().min(0).max(10),
+        // DIMs picked by earlier pulses: kept per session, and subtracted from a candidate's score
+        // (repeat_penalty per pick of its DIM within the last `window` pulses)
+        proposals: z
+          .object({
+            history_max: z.number().int().min(1),
+            window: z.number().int().min(1),
+            repeat_penalty: z.number().min(0),
+          })
+          .strict(),
+        // stagnation detectors (see lib/stagnation.ts); window … max_unique_focus configure state_flat
+        stagnation: z
+          .object({
+            window: z.number().int().min(2),
+            max_state_variance: z.number().min(0),
+            max_unique_dims: z.number().int().min(1),
+            max_unique_focus: z.number().int().min(1),
+            detectors: z
+              .object({
+                // flat state + one DIM + few FOCUS values over `window` turns
+                state_flat: z.object({ enabled: z.boolean(), weight: z.number().min(0) }).strict(),
+                // mean character n-gram overlap of consecutive FOCUS values
+                focus_overlap: z
+                  .object({
+                    enabled: z.boolean(),
+                    weight: z.number().min(0),
+                    window: z.number().int().min(2),
+                    ngram: z.number().int().min(1).max(6),
+                    threshold: unit,
+                  })
+                  .strict(),
+                // mean word n-gram overlap of consecutive assistant replies
+                assistant_repetition: z
+                  .object({
+                    enabled: z.boolean(),
+                    weight: z.number().min(0),
+                    window: z.number().int().min(2),
+                    ngram: z.number().int().min(1).max(6),
+                    threshold: unit,
+                  })
+                  .strict(),
+                // current user message vs the previous `window` ones (character trigram overlap)
+                user_repetition: z
+                  .object({
+                    enabled: z.boolean(),
+                    weight: z.number().min(0),
+                    window: z.number().int().min(1),
+                    threshold: unit,
+                  })
+                  .strict(),
+                // state keeps moving (total variation) while the FOCUS brings few new terms
+                state_drift: z
+                  .object({
+                    enabled: z.boolean(),
+                    weight: z.number().min(0),
+                    window: z.number().int().min(3),
+                    min_variation: z.number().min(0),
+                    max_novelty: unit,
+                  })
+                  .strict(),
+              })
+              .strict(),
+            // any: one detector fires; all: every enabled one; weighted: sum of firing weights >= threshold
+            policy: z
+              .object({
+                mode: z.enum(["any", "all", "weighted"]),
+                threshold: z.number().positive(),
+              })
+              .strict(),
+          })
+          .strict(),
+      })
+      .strict(),
+    fragments: z
+      .object({
+        max_keep: z.number().int().min(1),
+        // initial salience = base + state_weight * state + dimensions[DIM].salience_bonus
+        init_base: z.number(),
+        init_state_weight: z.number(),
+        // per-turn decay factor: lerp(decay_min, decay_max, state^decay_gamma)
+        decay_min: unit,
+        decay_max: unit,
+        decay_gamma: z.number().positive(),
+        // prune notes below this salience once they are older than prune_min_age turns
+        prune_min_salience: z.number().min(0),
+        prune_min_age: z.number().int().min(0),
+        // injection rank = salience_weight * salience + similarity_weight * similarity,
+        // similarity = (1 - focus_share) * cos(user text) + focus_share * cos(probe FOCUS)
+        relevance: z
+          .object({
+            salience_weight: z.number().min(0),
+            similarity_weight: z.number().min(0),
+            focus_share: unit,
+          })
+          .strict(),
+        // near-duplicate merge in upsertFragment (same DIM and kind): token-overlap Jaccard >= threshold,
+        // or embedding cosine >= embedding_threshold (null = token overlap only)
+        dedup: z
+          .object({
+            threshold: unit,
+            embedding_threshold: unit.nullable(),
+            history_max: z.number().int().min(0),
+          })
+          .strict(),
+        // notes pulled from the main exchange, typed fact/decision/constraint/todo; initial salience
+        // gets kinds[kind].salience_bonus and per-turn decay is factor^kinds[kind].decay_power
+        extraction: z
+          .object({
+            enabled: z.boolean(),
+            max_notes: z.number().int().min(0).max(3),
+            max_output_tokens: z.number().int().min(16),
+            kinds: z
+              .object({
+                fact: NoteKindSchema,
+                decision: NoteKindSchema,
+                constraint: NoteKindSchema,
+                todo: NoteKindSchema,
+              })
+              .strict(),
+          })
+          .strict(),
+      })
+      .strict(),
+    memory: z
+      .object({
+        attn_log_max: z.number().int().min(0),
+        // per-turn debug payloads kept on the session for the timeline
+        turn_log_max: z.number().int().min(0),
+      })
+      .strict(),
+    // split of budgets.context_tokens (after the system prompt and frame): each share caps its
+    // section, history gets the rest; history messages over max_message_tokens are elided in the middle
+    context: z
+      .object({
+        summary_share: unit,
+        attn_share: unit,
+        fragments_share: unit,
+        max_message_tokens: z.number().int().min(16),
+        // never elide a message below this (older messages are dropped instead)
+        min_elided_tokens: z.number().int().min(8),
+      })
+      .strict()
+      .refine((c) => c.summary_share + c.attn_share + c.fragments_share <= 1, {
+        message: "section shares must sum to at most 1",
+      }),
+    // layered summary (headline / paragraph / topic segments); injected amount follows budgets.summary_chars
+    summary: z
+      .object({
+        headline_max_chars: z.number().int().min(20),
+        paragraph_max_chars: z.number().int().min(40),
+        // summary_chars needed before the paragraph replaces the headline
+        paragraph_min_budget: z.number().int().min(0),
+        segment_max_chars: z.number().int().min(20),
+        segments_max: z.number().int().min(0),
+        // a segment closes when, over the last shift_window frames, another DIM dominates or every
+        // FOCUS overlaps the segment's FOCUS less than focus_shift_threshold
+        shift_window: z.number().int().min(1),
+        focus_shift_threshold: unit,
+      })
+      .strict(),
+    // attention dimensions the probe may choose from (see lib/dimensions.ts)
+    dimensions: DimensionRegistrySchema,
+    cost: z
+      .object({
+        // per-session spend limits (null = unlimited); server-only, not settable by session overrides
+        max_cost_usd: z.number().positive().nullable(),
+        max_tokens: z.number().int().positive().nullable(),
+        // above soft_ratio of a limit, state is capped down towards min_state_cap
+        soft_ratio: z.number().min(0).lt(1),
+        min_state_cap: unit,
+      })
+      .strict(),
+    // per-session calibration from user ratings (see lib/feedback.ts); offset/tau_scale stay within bounds
+    feedback: z
+      .object({
+        enabled: z.boolean(),
+        // logit shift per too_short/too_long rating (scaled by how far the turn's state was from the extreme)
+        offset_step: z.number().min(0),
+        // tau_scale × (1 + tau_step) per thumbs-down, ÷ per thumbs-up
+        tau_step: z.number().min(0),
+        offset_max: z.number().min(0),
+        tau_scale_min: z.number().positive(),
+        tau_scale_max: z.number().positive(),
+        // turn snapshots and ratings kept per session
+        history_max: z.number().int().min(1),
+      })
+      .strict()
+      .refine((f) => f.tau_scale_min <= 1 && f.tau_scale_max >= 1, { message: "tau_scale bounds must include 1" }),
+    // per-phase model choice by state (see lib/routing.ts). Probe/exploration/verify route on the
+    // previous turn's state, main/summary/extract on this turn's (both after the cost cap).
+    // Server-only: sessions pick models only through the presets.
+    routing: z
+      .object({
+        // capability flags by model name (longest prefix wins; unlisted models are assumed capable)
+        models: z.record(z.string(), z.object({ logprobs: z.boolean() }).strict()),
+        // first match wins; no match → the deployment model (OPENAI_MODEL)
+        routes: z.array(
+          z
+            .object({
+              phases: z.array(z.enum(LLM_PHASES)).min(1),
+              min_state: unit,
+              max_state: unit,
+              model: z.string().min(1),
+            })
+            .strict()
+            .refine((r) => r.min_state <= r.max_state, { message: "min_state must be <= max_state" })
+        ),
+      })
+      .strict(),
+    // tool calling in the main phase (see lib/tools.ts); rounds per turn follow budgets.tool_iterations
+    tools: z
+      .object({
+        enabled: z.boolean(),
+        allowed: z.array(z.enum(TOOL_NAMES)),
+        // calls made in these DIM frames wait for the user's confirmation instead of running
+        confirm: z
+          .object({
+            dims: z.array(z.string()),
+            // "side_effects": only tools that change state (scratchpad); "all": every tool
+            scope: z.enum(["side_effects", "all"]),
+          })
+          .strict(),
+        // tool output sent back to the model is cut to this length
+        max_output_chars: z.number().int().min(16),
+        // awaiting/resolved confirmations kept per session
+        pending_max: z.number().int().min(1),
+      })
+      .strict(),
+  })
+  .strict();
+
+export type GateConfig = z.infer<typeof GateConfigSchema>;
+
+export const DEFAULT_GATE_CONFIG: GateConfig = {
+  state: {
+    eta: 0.06,
+    surprisal_weight: 0.7,
+    entropy_weight: 0.3,
+    tau: 1.2,
+    hysteresis: { up: 0.62, down: 0.48, inertia: 0.6 },
+    // only for probes without logprobs; blend / ask_difficulty are opt-in
+    fallback: {
+      enabled: true,
+      blend: 0,
+      weights: { length: 1, complexity: 0.8, questions: 0.6, dim_prior: 0.8, difficulty: 1.5, latency: 0.4 },
+      length_tokens_hi: 400,
+      ask_difficulty: false,
+    },
+  },
+  budgets: {
+    context_tokens: { from: 1200, to: 8000, gamma: 1.25 },
+    summary_chars: { from: 0, to: 640, edges: [0.22, 0.8] },
+    attn_items: { from: 0, to: 10, edges: [0.35, 0.85] },
+    frag_items: { from: 0, to: 10, edges: [0.2, 0.86] },
+    summary_update_interval: { from: 18, to: 1, gamma: 1.4 },
+    summary_update_max_tokens: { from: 60, to: 220, gamma: 1.2 },
+    extract_interval: { from: 8, to: 1, gamma: 1.2 },
+    max_output_tokens: { from: 60, to: 520 },
+    temperature: { from: 0.05, to: 0.7 },
+    tool_iterations: { from: 0, to: 4, edges: [0.15, 0.85] },
+  },
+  probe: {
+    max_repairs: 1,
+    focus_max_chars: 80,
+    next_max_chars: 120,
+    why_max_chars: 160,
+    ensemble: { samples: 1, temperature: 0.7, aggregate: "mean", disagreement_weight: 0.8 },
+  },
+  pulse: {
+    cooldown_turns: 6,
+    max_prev_state: 0.6,
+    main_tokens_floor: 120,
+    candidates: 3,
+    temperature: 0.95,
+    candidate_tokens: 70,
+    diversity_threshold: 0.6,
+    min_score: 0,
+    proposals: { history_max: 12, window: 4, repeat_penalty: 2 },
+    stagnation: {
+      window: 8,
+      max_state_variance: 0.002,
+      max_unique_dims: 1,
+      max_unique_focus: 2,
+      detectors: {
+        // the other detectors are opt-in; with only state_flat the pulse fires as it always did
+        state_flat: { enabled: true, weight: 1 },
+        focus_overlap: { enabled: false, weight: 0.5, window: 4, ngram: 3, threshold: 0.55 },
+        assistant_repetition: { enabled: false, weight: 0.5, window: 3, ngram: 3, threshold: 0.4 },
+        user_repetition: { enabled: false, weight: 1, window: 6, threshold: 0.8 },
+        state_drift: { enabled: false, weight: 0.5, window: 6, min_variation: 0.3, max_novelty: 0.25 },
+      },
+      policy: { mode: "weighted", threshold: 1 },
+    },
+  },
+  fragments: {
+    max_keep: 40,
+    init_base: 0.25,
+    init_state_weight: 0.55,
+    decay_min: 0.55,
+    decay_max: 0.93,
+    decay_gamma: 0.9,
+    prune_min_salience: 0.06,
+    prune_min_age: 8,
+    relevance: { salience_weight: 0.5, similarity_weight: 0.6, focus_share: 0.35 },
+    dedup: { threshold: 0.75, embedding_threshold: null, history_max: 8 },
+    extraction: {
+      enabled: false,
+      max_notes: 3,
+      max_output_tokens: 120,
+      kinds: {
+        fact: { salience_bonus: 0.1, decay_power: 0.5 },
+        decision: { salience_bonus: 0.15, decay_power: 0.35 },
+        constraint: { salience_bonus: 0.2, decay_power: 0.25 },
+        todo: { salience_bonus: 0.12, decay_power: 0.8 },
+      },
+    },
+  },
+  memory: {
+    attn_log_max: 30,
+    turn_log_max: 100,
+  },
+  context: {
+    summary_share: 0.12,
+    attn_share: 0.06,
+    fragments_share: 0.14,
+    max_message_tokens: 900,
+    min_elided_tokens: 48,
+  },
+  summary: {
+    headline_max_chars: 120,
+    paragraph_max_chars: 480,
+    paragraph_min_budget: 200,
+    segment_max_chars: 180,
+    segments_max: 12,
+    shift_window: 3,
+    focus_shift_threshold: 0.15,
+  },
+  dimensions: DEFAULT_DIMENSIONS,
+  cost: {
+    max_cost_usd: null,
+    max_tokens: null,
+    soft_ratio: 0.8,
+    min_state_cap: 0.15,
+  },
+  feedback: {
+    enabled: true,
+    offset_step: 0.4,
+    tau_step: 0.1,
+    offset_max: 2.5,
+    tau_scale_min: 0.5,
+    tau_scale_max: 2.5,
+    history_max: 100,
+  },
+  routing: {
+    models: {
+      "gpt-4.1": { logprobs: true },
+      "gpt-4o": { logprobs: true },
+      // reasoning models do not return logprobs
+      o1: { logprobs: false },
+      o3: { logprobs: false },
+      "o4-mini": { logprobs: false },
+      "gpt-5": { logprobs: false },
+    },
+    routes: [],
+  },
+  // opt-in: enabling it adds tool specs to every main request
+  tools: {
+    enabled: false,
+    allowed: ["calculator", "clock", "scratchpad"],
+    confirm: { dims: ["RISK"], scope: "all" },
+    max_output_chars: 1200,
+    pending_max: 20,
+  },
+};
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type GateConfigOverrides = DeepPartial<GateConfig>;
+
+export const GATE_PRESETS = {
+  // cheaper turns: shorter outputs/context, faster forgetting, rarer summaries
+  frugal: {
+    budgets: {
+      context_tokens: { from: 700, to: 3500 },
+      summary_chars: { from: 0, to: 260 },
+      frag_items: { from: 0, to: 5 },
+      summary_update_interval: { from: 24, to: 3 },
+      summary_update_max_tokens: { from: 40, to: 120 },
+      max_output_tokens: { from: 40, to: 280 },
+      tool_iterations: { from: 0, to: 2 },
+    },
+    pulse: { cooldown_turns: 10, main_tokens_floor: 80, candidates: 2 },
+    fragments: { max_keep: 24, decay_min: 0.5, decay_max: 0.88 },
+    memory: { attn_log_max: 16 },
+    // small model for the side calls and low-state answers
+    routing: {
+      routes: [
+        { phases: ["probe", "exploration", "verify", "summary", "extract"], min_state: 0, max_state: 1, model: "gpt-4.1-mini" },
+        { phases: ["main"], min_state: 0, max_state: 0.45, model: "gpt-4.1-mini" },
+      ],
+    },
+  },
+  default: {},
+  // more compute per turn and a longer memory
+  deep: {
+    state: { tau: 1.0 },
+    budgets: {
+      context_tokens: { from: 2000, to: 16000 },
+      summary_chars: { from: 80, to: 960 },
+      attn_items: { from: 2, to: 14 },
+      frag_items: { from: 2, to: 14 },
+      summary_update_interval: { from: 10, to: 1 },
+      summary_update_max_tokens: { from: 80, to: 300 },
+      max_output_tokens: { from: 120, to: 900 },
+      tool_iterations: { from: 1, to: 6 },
+    },
+    pulse: { cooldown_turns: 4, max_prev_state: 0.7, main_tokens_floor: 200, candidates: 4 },
+    fragments: { max_keep: 64, decay_min: 0.65, decay_max: 0.96, extraction: { enabled: true } },
+    memory: { attn_log_max: 48 },
+  },
+} satisfies Record<string, GateConfigOverrides>;
+
+export type GatePresetName = keyof typeof GATE_PRESETS;
+
+export function isGatePresetName(x: unknown): x is GatePresetName {
+  return typeof x === "string" && Object.prototype.hasOwnProperty.call(GATE_PRESETS, x);
+}
+
+export function mergeDeep<T>(base: T, patch: DeepPartial<T> | undefined): T {
+  if (!patch) return base;
+  const out: any = Array.isArray(base) ? [...(base as any)] : { ...(base as any) };
+  for (const [k, v] of Object.entries(patch as Record<string, unknown>)) {
+    if (v === undefined) continue;
+    const cur = out[k];
+    const bothObjects =
+      v !== null && typeof v === "object" && !Array.isArray(v) && cur !== null && typeof cur === "object" && !Array.isArray(cur);
+    out[k] = bothObjects ? mergeDeep(cur, v as any) : v;
+  }
+  return out as T;
+}
+
+// Sections only the operator sets (DEFAULT / preset / GATE_CONFIG); session overrides may not touch them
+export const SERVER_ONLY_SECTIONS = ["cost", "routing", "tools"] as const satisfies readonly (keyof GateConfig)[];
+
+export type ServerOnlySection = (typeof SERVER_ONLY_SECTIONS)[number];
+
+// Upper bounds on what session overrides may set (extra LLM calls, token spend, stored session size).
+// Budget curves are checked on both ends. Operator config (preset / GATE_CONFIG) is not capped.
+export const SESSION_OVERRIDE_LIMITS: Record<string, number> = {
+  "probe.max_repairs": 1,
+  "probe.ensemble.samples": 3,
+  "pulse.candidates": 4,
+  "pulse.candidate_tokens": 120,
+  "budgets.context_tokens": 16000,
+  "budgets.max_output_tokens": 2000,
+  "budgets.summary_update_max_tokens": 400,
+  "budgets.summary_chars": 1200,
+  "budgets.attn_items": 20,
+  "budgets.frag_items": 20,
+  "fragments.max_keep": 80,
+  "memory.attn_log_max": 60,
+  "memory.turn_log_max": 100,
+  "summary.segments_max": 20,
+  "feedback.history_max": 100,
+};
+
+export type SessionGateOverrides = Omit<GateConfigOverrides, ServerOnlySection>;
+
+// Per-session selection, stored on the Session and accepted by /api/step
+export type SessionGateConfig = {
+  preset?: GatePresetName;
+  overrides?: SessionGateOverrides;
+};
+
+export type ResolvedGateConfig = {
+  preset: GatePresetName;
+  overrides: GateConfigOverrides | null;
+  config: GateConfig;
+};
+
+function formatIssue(err: z.ZodError): string {
+  const issue = err.issues[0];
+  return `${issue.path.join(".") || "(root)"}: ${issue.message}`;
+}
+
+export function envGateDefaults(): { preset: GatePresetName; overrides: GateConfigOverrides | null } {
+  // GATE_PRESET=frugal|default|deep, GATE_CONFIG='{"state":{"tau":1.0}}'
+  const envPreset = process.env.GATE_PRESET;
+  if (envPreset && !isGatePresetName(envPreset)) throw new Error(`Unknown GATE_PRESET: ${envPreset}`);
+  let overrides: GateConfigOverrides | null = null;
+  if (process.env.GATE_CONFIG) {
+    try {
+      overrides = JSON.parse(process.env.GATE_CONFIG) as GateConfigOverrides;
+    } catch {
+      throw new Error("GATE_CONFIG is not valid JSON");
+    }
+  }
+  return { preset: envPreset && isGatePresetName(envPreset) ? envPreset : "default", overrides };
+}
+
+// Values over SESSION_OVERRIDE_LIMITS, clamped in place on a copy; issues name the offending paths
+function capSessionOverrides(overrides: SessionGateOverrides): { capped: SessionGateOverrides; issues: string[] } {
+  const capped = structuredClone(overrides) as Record<string, any>;
+  const issues: string[] = [];
+  for (const [path, max] of Object.entries(SESSION_OVERRIDE_LIMITS)) {
+    const keys = path.split(".");
+    const last = keys.pop() as string;
+    const parent = keys.reduce<any>((o, k) => (o && typeof o === "object" ? o[k] : undefined), capped);
+    if (!parent || typeof parent !== "object") continue;
+    const v = parent[last];
+    // a number, or a budget curve whose ends are checked
+    const holders: [Record<string, unknown>, string][] =
+      v && typeof v === "object" ? [[v, "from"], [v, "to"]] : [[parent, last]];
+    for (const [o, k] of holders) {
+      if (typeof o[k] === "number" && (o[k] as number) > max) {
+        issues.push(`${path}${o === parent ? "" : `.${k}`} is over the per-session limit ${max}`);
+        o[k] = max;
+      }
+    }
+  }
+  return { capped: capped as SessionGateOverrides, issues };
+}
+
+// Drop server-only sections and clamp over-limit values (e.g. from sessions saved before the limits)
+function sessionOverrides(overrides: SessionGateOverrides | undefined): SessionGateOverrides | undefined {
+  if (!overrides) return undefined;
+  const out: Record<string, unknown> = { ...capSessionOverrides(overrides).capped };
+  for (const k of SERVER_ONLY_SECTIONS) delete out[k];
+  return out as SessionGateOverrides;
+}
+
+export function resolveGateConfig(session?: SessionGateConfig | null): ResolvedGateConfig {
+  const env = envGateDefaults();
+  const preset = session?.preset ?? env.preset;
+  const overrides = sessionOverrides(session?.overrides);
+  let cfg = mergeDeep(DEFAULT_GATE_CONFIG, GATE_PRESETS[preset] as GateConfigOverrides);
+  cfg = mergeDeep(cfg, env.overrides ?? undefined);
+  cfg = mergeDeep(cfg, overrides);
+  const parsed = GateConfigSchema.safeParse(cfg);
+  if (!parsed.success) throw new Error(`Invalid gate config at ${formatIssue(parsed.error)}`);
+  return { preset, overrides: overrides ?? null, config: parsed.data };
+}
+
+// Validate an untrusted per-session selection (e.g. from a request body).
+export function parseSessionGateConfig(raw: unknown): SessionGateConfig {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) throw new Error("config must be an object");
+  const { preset, overrides } = raw as { preset?: unknown; overrides?: unknown };
+  if (preset !== undefined && !isGatePresetName(preset)) throw new Error(`Unknown preset: ${String(preset)}`);
+  if (overrides !== undefined && (overrides === null || typeof overrides !== "object" || Array.isArray(overrides))) {
+    throw new Error("config.overrides must be an object");
+  }
+  for (const k of SERVER_ONLY_SECTIONS) {
+    if (overrides && k in overrides) throw new Error(`config.overrides.${k} cannot be set per session (use GATE_CONFIG)`);
+  }
+  if (overrides) {
+    const { issues } = capSessionOverrides(overrides as SessionGateOverrides);
+    if (issues.length) throw new Error(`config.overrides.${issues[0]}`);
+  }
+  const out: SessionGateConfig = { preset, overrides: overrides as SessionGateOverrides | undefined };
+  // fail early on bad override values/unknown keys
+  resolveGateConfig(out);
+  return out;
+}
+
+// Apply a validated update to the stored selection: fields it leaves out keep their stored value
+// (switching preset keeps the overrides; `overrides: {}` clears them). Throws when the combination is invalid.
+export function mergeSessionGateConfig(current: SessionGateConfig | undefined, update: SessionGateConfig): SessionGateConfig {
+  const out: SessionGateConfig = { ...current };
+  if (update.preset !== undefined) out.preset = update.preset;
+  if (update.overrides !== undefined) out.overrides = update.overrides;
+  resolveGateConfig(out);
+  return out;
+}
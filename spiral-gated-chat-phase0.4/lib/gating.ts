@@ -1,5 +1,8 @@
+import { dimDef, stagedCapDims, type DimensionRegistry } from "@/lib/dimensions";
+import { DEFAULT_GATE_CONFIG, type GateConfig } from "@/lib/gateConfig";
 import type { GateState, TokenLogprob } from "@/lib/types";
 
+// The built-in dimensions (DEFAULT_DIMENSIONS); the active set is GateConfig.dimensions
 export const DIMS = ["RISK", "NOVELTY", "GOAL", "UNCERTAINTY", "OPPORTUNITY", "META"] as const;
 export type Dim = (typeof DIMS)[number];
 
@@ -137,14 +140,107 @@ export function lowDiversity<T>(xs: T[], uniqMax: number): boolean {
   return s.size <= uniqMax;
 }
 
-export function shouldExplorationPulse(gs: GateState): boolean {
+export function shouldExplorationPulse(
+  gs: GateState,
+  opts: GateConfig["pulse"]["stagnation"] = DEFAULT_GATE_CONFIG.pulse.stagnation
+): boolean {
   // Conservative: only when state is flat AND DIM is repeating.
-  if (gs.last_states.length < 8) return false;
-  if (gs.last_dims.length < 8) return false;
-  if (gs.last_focus.length < 8) return false;
-  const v = variance(gs.last_states.slice(-8));
-  const flat = v < 0.002;
-  const dimFlat = lowDiversity(gs.last_dims.slice(-8), 1);
-  const focusLowDiv = lowDiversity(gs.last_focus.slice(-8), 2);
+  const w = opts.window;
+  if (gs.last_states.length < w) return false;
+  if (gs.last_dims.length < w) return false;
+  if (gs.last_focus.length < w) return false;
+  const v = variance(gs.last_states.slice(-w));
+  const flat = v < opts.max_state_variance;
+  const dimFlat = lowDiversity(gs.last_dims.slice(-w), opts.max_unique_dims);
+  const focusLowDiv = lowDiversity(gs.last_focus.slice(-w), opts.max_unique_focus);
   return flat && dimFlat && focusLowDiv;
 }
+
+export function metaCapValue(stage: 0 | 1 | 2): number | null {
+  if (stage === 0) return 0.55;
+  if (stage === 1) return 0.65;
+  return null; // unlocked
+}
+
+// Share of recent turns on staged-cap DIMs (META by default)
+export function recentMetaShare(
+  gs: GateState,
+  window = 12,
+  reg: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions
+): number | null {
+  const dims = gs.last_dims.slice(-window);
+  if (dims.length < window) return null;
+  const capped = new Set(stagedCapDims(reg));
+  const meta = dims.filter((d) => capped.has(d)).length;
+  return meta / dims.length;
+}
+
+export function maybeRelaxMetaCapStage(
+  gs: GateState,
+  turn: number,
+  reg: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions
+): { changed: boolean; metaShare: number | null } {
+  // Monotonic relaxation: 0 (0.55) → 1 (0.65) → 2 (unlocked)
+  const share = recentMetaShare(gs, 12, reg);
+  if (share === null) return { changed: false, metaShare: null };
+
+  const stage0MinInterval = 12;
+  const stage1MinInterval = 18;
+  const minInterval = gs.meta_cap_stage === 1 ? stage1MinInterval : stage0MinInterval;
+  if (turn - gs.meta_cap_last_change_turn < minInterval) return { changed: false, metaShare: share };
+
+  if (gs.meta_cap_stage === 0 && share <= 0.25) {
+    gs.meta_cap_stage = 1;
+    gs.meta_cap_last_change_turn = turn;
+    return { changed: true, metaShare: share };
+  }
+
+  if (gs.meta_cap_stage === 1 && share <= 0.17) {
+    gs.meta_cap_stage = 2;
+    gs.meta_cap_last_change_turn = turn;
+    return { changed: true, metaShare: share };
+  }
+
+  return { changed: false, metaShare: share };
+}
+
+// Apply the DIM's registered state rule to the raw state.
+export function applyDimWeight(
+  rawState: number,
+  dim: string | null,
+  gs: GateState,
+  reg: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions
+): { raw: number; notes: string[]; metaCap: number | null } {
+  let s = rawState;
+  const notes: string[] = [];
+  const rule = dimDef(reg, dim)?.state ?? { kind: "none" };
+  const name = dim?.toUpperCase();
+
+  // boost: state-dependent (e.g. RISK boosts more when we're in low-compute mode)
+  if (rule.kind === "boost") {
+    const base = clamp01(s);
+    const boost = rule.at_low + (rule.at_high - rule.at_low) * base;
+    s = clamp01(s + boost);
+    notes.push(`DIM=${name} → state +${boost.toFixed(2)} (state-dependent)`);
+  }
+
+  let cap: number | null = null;
+  if (rule.kind === "cap") {
+    cap = rule.max;
+    if (s > cap) notes.push(`DIM=${name} → state cap ${cap}`);
+    s = Math.min(s, cap);
+  }
+
+  // staged cap (relaxes over time if these DIMs aren't dominating)
+  if (rule.kind === "staged_cap") {
+    cap = metaCapValue(gs.meta_cap_stage);
+    if (cap !== null) {
+      if (s > cap) notes.push(`DIM=${name} → state cap ${cap} (stage ${gs.meta_cap_stage})`);
+      s = Math.min(s, cap);
+    } else {
+      notes.push(`DIM=${name} → cap unlocked`);
+    }
+  }
+
+  return { raw: s, notes, metaCap: cap };
+}
@@ -0,0 +1,87 @@
+import type { TokenLogprob } from "@/lib/types";
+import { createMockProvider } from "@/lib/mockProvider";
+import { createOpenAIProvider } from "@/lib/openaiProvider";
+
+// Which step of the per-turn pipeline a call belongs to (used by scripted providers and debug)
+export type LLMPhase = "probe" | "exploration" | "verify" | "main" | "summary" | "extract";
+
+export type LLMMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// A function the model may call (parameters is a JSON schema object)
+export type LLMToolSpec = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type LLMToolCall = {
+  id: string;
+  name: string;
+  // raw JSON arguments as produced by the model
+  arguments: string;
+};
+
+// A call made earlier in the same turn and what it returned (sent back after `input`)
+export type LLMToolExchange = {
+  call: LLMToolCall;
+  output: string;
+};
+
+export type LLMRequest = {
+  phase: LLMPhase;
+  model: string;
+  input: LLMMessage[];
+  temperature: number;
+  max_output_tokens: number;
+  // request token logprobs (+ top_logprobs alternatives per token)
+  logprobs?: { top: number };
+  // tools offered on this call, and the calls/results so far this turn
+  tools?: LLMToolSpec[];
+  tool_history?: LLMToolExchange[];
+};
+
+export type LLMUsage = {
+  input_tokens: number;
+  output_tokens: number;
+};
+
+export type LLMResult = {
+  text: string;
+  // empty when the backend did not return logprobs
+  logprobs: TokenLogprob[];
+  // null when the backend did not report token usage
+  usage: LLMUsage | null;
+  // function calls requested instead of (or alongside) text; absent when none
+  tool_calls?: LLMToolCall[];
+};
+
+export type LLMGenerateOptions = {
+  // when set, the provider streams text deltas as they arrive (the result still carries the full text)
+  onDelta?: (delta: string) => void;
+};
+
+export type LLMProvider = {
+  name: string;
+  generate(req: LLMRequest, opts?: LLMGenerateOptions): Promise<LLMResult>;
+};
+
+let cached: LLMProvider | null = null;
+
+export function getProvider(): LLMProvider {
+  // LLM_PROVIDER=mock runs the whole gate offline (deterministic for a given MOCK_SEED;
+  // MOCK_LOGPROBS=0 drops logprobs to exercise the fallback state estimate)
+  if (cached) return cached;
+  const kind = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+  if (kind === "mock") {
+    const seed = Number(process.env.MOCK_SEED ?? 1);
+    cached = createMockProvider({ seed: Number.isFinite(seed) ? seed : 1, logprobs: process.env.MOCK_LOGPROBS !== "0" });
+  } else if (kind === "openai") {
+    cached = createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY });
+  } else {
+    throw new Error(`Unknown LLM_PROVIDER: ${kind}`);
+  }
+  return cached;
+}
@@ -0,0 +1,18 @@
+// Markdown that models put around "LABEL: value" lines. Only list markers, emphasis around the label
+// and an emphasis run wrapping the whole value are removed; `*`, `_` and backticks inside a value
+// (code, arithmetic, file names) are kept as written.
+
+const LIST_MARKER = /^\s*(?:[-•]|\*(?=\s)|\d+[.)])\s*/;
+
+// "**FOCUS:** x" / "**FOCUS**: x" / "`DIM`: x" → "FOCUS: x" / "DIM: x"
+const LABEL_EMPHASIS = /^([*_`]{1,3})\s*([A-Za-z][A-Za-z _]*?)\s*([:=])?\s*\1/;
+
+export function stripLineMarkup(line: string): string {
+  return line.replace(LIST_MARKER, "").replace(LABEL_EMPHASIS, "$2$3").trim();
+}
+
+// "**GOAL**" → "GOAL"; "12*7" and "check `a*b` first" are left alone
+export function unwrapEmphasis(value: string): string {
+  const m = value.trim().match(/^(\*{1,2}|_{1,2}|`{1,3})(\S(?:.*\S)?)\1$/);
+  return m ? m[2] : value.trim();
+}
@@ -0,0 +1,193 @@
+import { DIMS } from "@/lib/gating";
+import type { LLMGenerateOptions, LLMMessage, LLMPhase, LLMProvider, LLMRequest, LLMResult, LLMToolCall } from "@/lib/llm";
+import type { TokenLogprob, TopTokenLogprob } from "@/lib/types";
+
+// A scripted reply. Entries are consumed in order by the first call whose phase matches
+// (entries without a phase match any call). Missing logprobs are synthesized from the seed.
+export type MockScriptEntry = {
+  phase?: LLMPhase;
+  text: string;
+  logprobs?: TokenLogprob[];
+  tool_calls?: LLMToolCall[];
+};
+
+export type MockProviderOptions = {
+  seed?: number;
+  script?: MockScriptEntry[];
+  // false: behave like a backend that never returns logprobs
+  logprobs?: boolean;
+};
+
+function hashString(s: string, seed = 0): number {
+  // FNV-1a (32-bit), mixed with the seed
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function tokenize(text: string): string[] {
+  // crude word-level tokens; newlines are their own token so sliceFirstLine stops on them
+  return text.match(/[^\S\n]*[^\s]+|\n/g) ?? [];
+}
+
+export function fakeTokenLogprobs(text: string, rng: () => number, top = 5): TokenLogprob[] {
+  const out: TokenLogprob[] = [];
+  for (const token of tokenize(text)) {
+    // chosen token probability in ~[0.08, 0.98]
+    const p = 0.08 + 0.9 * Math.pow(rng(), 0.6);
+    const alts: TopTokenLogprob[] = [{ token, logprob: Math.log(p) }];
+    let rest = (1 - p) * (0.5 + 0.45 * rng());
+    for (let i = 1; i < top && rest > 1e-6; i++) {
+      const share = i === top - 1 ? rest : rest * (0.3 + 0.5 * rng());
+      alts.push({ token: `${token}~${i}`, logprob: Math.log(share) });
+      rest -= share;
+    }
+    out.push({ token, logprob: Math.log(p), top_logprobs: top > 0 ? alts : undefined });
+  }
+  return out;
+}
+
+function lastUserText(input: LLMMessage[]): string {
+  for (let i = input.length - 1; i >= 0; i--) {
+    if (input[i].role === "user") return input[i].content;
+  }
+  return "";
+}
+
+function firstWords(s: string, n: number): string {
+  const words = s.replace(/\s+/g, " ").trim().split(" ").filter(Boolean);
+  return words.slice(0, n).join(" ") || "the message";
+}
+
+function pick<T>(xs: readonly T[], rng: () => number): T {
+  return xs[Math.floor(rng() * xs.length) % xs.length];
+}
+
+function probeBlock(dim: string, focus: string): string {
+  return [`DIM: ${dim}`, `FOCUS: ${focus}`, `NEXT: check ${focus}`, "WHY: it is the main point of the message"].join(
+    "\n"
+  );
+}
+
+// DIMs offered by the prompt's "DIM: <A|B|...>" line (custom registries), else the built-ins
+function offeredDims(req: LLMRequest): readonly string[] {
+  const sys = req.input.find((m) => m.role === "system")?.content ?? "";
+  const choice = sys.match(/^DIM: <([A-Z_|]+)>$/m)?.[1];
+  return choice ? choice.split("|") : DIMS;
+}
+
+function defaultText(req: LLMRequest, rng: () => number): string {
+  const user = lastUserText(req.input);
+  switch (req.phase) {
+    case "probe": {
+      const block = probeBlock(pick(offeredDims(req), rng), firstWords(user, 4));
+      const sys = req.input.find((m) => m.role === "system")?.content ?? "";
+      // self-rated difficulty grows with the message length
+      const words = user.split(/\s+/).filter(Boolean).length;
+      return /^DIFF: </m.test(sys) ? `${block}\nDIFF: ${Math.min(5, 1 + Math.floor(words / 12))}` : block;
+    }
+    case "exploration": {
+      const sys = req.input.find((m) => m.role === "system")?.content ?? "";
+      const current = sys.match(/Current DIM is:\s*([A-Z_]+)/)?.[1] ?? null;
+      const others = offeredDims(req).filter((d) => d !== current);
+      const focus = firstWords(user.replace(/^User message:\s*/i, ""), 3);
+      const n = Number(sys.match(/EXACTLY (\d+)/)?.[1] ?? 3);
+      return Array.from({ length: n }, (_, i) => probeBlock(others[(i + Math.floor(rng() * others.length)) % others.length], focus)).join(
+        "\n\n"
+      );
+    }
+    case "verify": {
+      const n = (user.match(/^Candidate \d+:/gm) ?? []).length || 3;
+      return Array.from({ length: n }, (_, i) => `SCORE ${i + 1}: ${Math.floor(rng() * 11)} | ${pick(["concrete", "on topic", "too vague"], rng)}`).join("\n");
+    }
+    case "summary": {
+      const said = firstWords((user.split("\n").find((l) => l.startsWith("User:")) ?? user).replace(/^User:\s*/, ""), 10);
+      const sys = req.input.find((m) => m.role === "system")?.content ?? "";
+      if (!sys.includes("HEADLINE:")) return `Topic covered: ${said}`;
+      return [`HEADLINE: User is working on: ${said}`, `SUMMARY: The user asked about ${said}; the assistant replied.`].join("\n");
+    }
+    case "extract": {
+      const said = user.split("\n").find((l) => l.startsWith("User:")) ?? user;
+      return `FACT: user asked about ${firstWords(said.replace(/^User:\s*/, ""), 8)}`;
+    }
+    case "main":
+    default: {
+      const words = Math.max(4, Math.floor(req.max_output_tokens * 0.6));
+      const results = (req.tool_history ?? []).map((ex) => ` (${ex.call.name}: ${ex.output})`).join("");
+      const body = `[mock] Reply to "${firstWords(user, 12)}".${results}`;
+      const filler = Array.from({ length: Math.min(words, 24) }, () => pick(["ok", "next", "step", "check"], rng));
+      return `${body} ${filler.join(" ")}`;
+    }
+  }
+}
+
+// Main phase with tools offered and none called yet: arithmetic → calculator, time → clock,
+// "remember/note ..." → scratchpad (one call each, all in the first round)
+function defaultToolCalls(req: LLMRequest, key: number): LLMToolCall[] {
+  if (req.phase !== "main" || !req.tools?.length || req.tool_history?.length) return [];
+  const user = lastUserText(req.input);
+  const offered = new Set(req.tools.map((t) => t.name));
+  const calls: LLMToolCall[] = [];
+  const add = (name: string, args: Record<string, unknown>) => {
+    if (offered.has(name)) calls.push({ id: `call_${(key + calls.length).toString(36)}`, name, arguments: JSON.stringify(args) });
+  };
+  const expr = user.match(/[(\d][\d\s.()]*(?:[-+*/^%][\s(]*[\d.]+[\d\s.()]*)+/)?.[0];
+  if (expr) add("calculator", { expression: expr.trim() });
+  if (/\b(?:time|clock|date|today)\b|何時|時刻|日付/i.test(user)) add("clock", {});
+  const note = user.match(/(?:\bremember|\bnote)(?: that)?:?\s+(.+)|(.+?)(?:を)?(?:覚えて|メモして)/i);
+  if (note) add("scratchpad", { text: firstWords(note[1] ?? note[2], 16) });
+  return calls;
+}
+
+export function createMockProvider(opts: MockProviderOptions = {}): LLMProvider {
+  const seed = opts.seed ?? 1;
+  const script = [...(opts.script ?? [])];
+  // the previous request and how many times in a row it was sent
+  let last = { key: NaN, count: 0 };
+
+  async function generate(req: LLMRequest, genOpts?: LLMGenerateOptions): Promise<LLMResult> {
+    // same seed + same request sequence → same replies (turns and replays are reproducible). With
+    // temperature > 0, back-to-back repeats of one request sample differently (like ensemble probes
+    // would); any other request resets the count, so nothing accumulates across turns.
+    const key = hashString(
+      `${req.phase}\u0000${JSON.stringify(req.input)}${req.tool_history?.length ? JSON.stringify(req.tool_history) : ""}`,
+      seed
+    );
+    last = { key, count: last.key === key ? last.count + 1 : 0 };
+    const repeat = req.temperature > 0 ? last.count : 0;
+    const rng = mulberry32(repeat ? hashString(String(repeat), key) : key);
+    const idx = script.findIndex((e) => !e.phase || e.phase === req.phase);
+    const scripted = idx >= 0 ? script.splice(idx, 1)[0] : null;
+    const toolCalls = scripted ? (req.tools?.length ? scripted.tool_calls ?? [] : []) : defaultToolCalls(req, key);
+    const text = scripted ? scripted.text : toolCalls.length ? "" : defaultText(req, rng);
+    if (genOpts?.onDelta) for (const tok of tokenize(text)) genOpts.onDelta(tok);
+    // word-level token counts stand in for real usage
+    const usage = {
+      input_tokens:
+        req.input.reduce((n, m) => n + tokenize(m.content).length, 0) +
+        (req.tool_history ?? []).reduce((n, ex) => n + tokenize(ex.call.arguments).length + tokenize(ex.output).length, 0),
+      output_tokens: tokenize(text).length + toolCalls.reduce((n, c) => n + tokenize(c.arguments).length, 0),
+    };
+    const calls = toolCalls.length ? { tool_calls: toolCalls } : {};
+    if (!req.logprobs || opts.logprobs === false) return { text, logprobs: [], usage, ...calls };
+    const top = req.logprobs.top > 0 ? Math.min(req.logprobs.top, 8) : 0;
+    const logprobs = scripted?.logprobs ?? fakeTokenLogprobs(text, rng, top);
+    return { text, logprobs, usage, ...calls };
+  }
+
+  return { name: "mock", generate };
+}
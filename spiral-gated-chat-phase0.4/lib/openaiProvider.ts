@@ -0,0 +1,91 @@
+import OpenAI from "openai";
+import type { LLMGenerateOptions, LLMProvider, LLMRequest, LLMResult, LLMToolCall } from "@/lib/llm";
+import type { TokenLogprob } from "@/lib/types";
+
+function normalizeTokenLogprobs(raw: any): TokenLogprob[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw as TokenLogprob[];
+  // common shapes
+  if (Array.isArray(raw.content)) return raw.content as TokenLogprob[];
+  if (Array.isArray(raw.tokens)) return raw.tokens as TokenLogprob[];
+  return [];
+}
+
+function extractToolCalls(response: any): LLMToolCall[] {
+  if (!Array.isArray(response?.output)) return [];
+  return response.output
+    .filter((o: any) => o?.type === "function_call" && typeof o?.name === "string")
+    .map((o: any) => ({ id: String(o.call_id ?? o.id ?? ""), name: o.name, arguments: String(o.arguments ?? "{}") }));
+}
+
+export function extractFirstTextAndLogprobs(response: any): LLMResult {
+  const msg = Array.isArray(response?.output)
+    ? response.output.find((o: any) => o?.type === "message" && o?.role === "assistant")
+    : null;
+  const part = msg?.content?.find((c: any) => c?.type === "output_text") ?? msg?.content?.[0];
+  const text: string = part?.text ?? "";
+  const logprobs = normalizeTokenLogprobs(part?.logprobs);
+  const u = response?.usage;
+  const usage =
+    u && typeof u.input_tokens === "number" && typeof u.output_tokens === "number"
+      ? { input_tokens: u.input_tokens, output_tokens: u.output_tokens }
+      : null;
+  const toolCalls = extractToolCalls(response);
+  return toolCalls.length ? { text, logprobs, usage, tool_calls: toolCalls } : { text, logprobs, usage };
+}
+
+// earlier calls this turn go back as function_call / function_call_output items after the messages
+function requestInput(req: LLMRequest): unknown[] {
+  const items: unknown[] = [...req.input];
+  for (const ex of req.tool_history ?? []) {
+    items.push({ type: "function_call", call_id: ex.call.id, name: ex.call.name, arguments: ex.call.arguments });
+    items.push({ type: "function_call_output", call_id: ex.call.id, output: ex.output });
+  }
+  return items;
+}
+
+export function createOpenAIProvider(opts: { apiKey?: string }): LLMProvider {
+  const openai = new OpenAI({ apiKey: opts.apiKey });
+
+  async function generate(req: LLMRequest, opts?: LLMGenerateOptions): Promise<LLMResult> {
+    // logprob fields are not in every SDK version's typings; pass them through untyped
+    const extra: Record<string, unknown> = req.logprobs
+      ? { include: ["message.output_text.logprobs"], top_logprobs: req.logprobs.top }
+      : {};
+    if (req.tools?.length) {
+      extra.tools = req.tools.map((t) => ({ type: "function", name: t.name, description: t.description, parameters: t.parameters, strict: false }));
+    }
+    const params = {
+      model: req.model,
+      input: requestInput(req),
+      temperature: req.temperature,
+      max_output_tokens: req.max_output_tokens,
+      ...extra,
+    };
+
+    if (!opts?.onDelta) {
+      const resp = await openai.responses.create(params as OpenAI.Responses.ResponseCreateParamsNonStreaming);
+      return extractFirstTextAndLogprobs(resp);
+    }
+
+    const stream = await openai.responses.create({
+      ...params,
+      stream: true,
+    } as OpenAI.Responses.ResponseCreateParamsStreaming);
+    let streamed = "";
+    let completed: LLMResult | null = null;
+    for await (const ev of stream) {
+      if (ev.type === "response.output_text.delta") {
+        streamed += ev.delta;
+        opts.onDelta(ev.delta);
+      } else if (ev.type === "response.completed") {
+        completed = extractFirstTextAndLogprobs(ev.response);
+      }
+    }
+    return completed && (completed.text || completed.tool_calls)
+      ? completed
+      : { text: streamed, logprobs: completed?.logprobs ?? [], usage: completed?.usage ?? null };
+  }
+
+  return { name: "openai", generate };
+}
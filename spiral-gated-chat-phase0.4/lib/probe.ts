@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { dimIds, normalizeDim, type DimensionRegistry } from "@/lib/dimensions";
+import { DEFAULT_GATE_CONFIG, type GateConfig } from "@/lib/gateConfig";
+import { stripLineMarkup, unwrapEmphasis } from "@/lib/markup";
+import type { ProbeFields, ProbeQuality } from "@/lib/types";
+
+// Validated probe parsing. The wire format stays the 4-line "DIM: ..." text (plus an optional
+// "DIFF: 1-5" line) so the first line (the DIM line) is still what surprisal/entropy are measured on.
+
+export type ProbeLimits = GateConfig["probe"];
+
+export type ProbeParse = {
+  fields: ProbeFields;
+  // strict: exact 4-line format; lenient: recovered by normalization/truncation; invalid: unusable
+  quality: Exclude<ProbeQuality, "repaired">;
+  issues: string[];
+};
+
+const FIELD_KEYS: Record<keyof Omit<ProbeFields, "raw" | "difficulty">, string> = {
+  dim: "dim|dimension|attention[ _]?dimension",
+  focus: "focus",
+  next: "next(?:[ _]?(?:step|action|observation))?",
+  why: "why|reason",
+};
+
+export function probeSchema(limits: ProbeLimits, dims: DimensionRegistry) {
+  const ids = dimIds(dims);
+  return z.object({
+    dim: z.string().refine((d) => ids.includes(d), { message: "DIM is not registered" }),
+    focus: z.string().min(1).max(limits.focus_max_chars),
+    next: z.string().min(1).max(limits.next_max_chars).nullable(),
+    why: z.string().min(1).max(limits.why_max_chars).nullable(),
+  });
+}
+
+function oneLine(s: string): string {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+function truncateWords(s: string, max: number): string {
+  if (s.length <= max) return s;
+  const cut = s.slice(0, max);
+  const sp = cut.lastIndexOf(" ");
+  return (sp > max * 0.6 ? cut.slice(0, sp) : cut).trim();
+}
+
+const DIFF_LINE = /^\s*(?:[-•*]\s*)?(?:diff|difficulty)\s*[:=\-–]\s*\*?([1-5])\b/im;
+
+function isStrictFormat(text: string, dims: DimensionRegistry): boolean {
+  const lines = text.trim().split("\n");
+  const dimLine = lines[0]?.trim().match(/^DIM: ([A-Z_]+)$/);
+  return (
+    (lines.length === 4 || (lines.length === 5 && /^DIFF: [1-5]$/.test(lines[4].trim()))) &&
+    !!dimLine &&
+    !!dims[dimLine[1]] &&
+    /^FOCUS: \S/.test(lines[1].trim()) &&
+    /^NEXT: \S/.test(lines[2].trim()) &&
+    /^WHY: \S/.test(lines[3].trim())
+  );
+}
+
+function extractJson(text: string): Record<string, unknown> | null {
+  const m = text.match(/\{[\s\S]*\}/);
+  if (!m) return null;
+  try {
+    const obj = JSON.parse(m[0]);
+    if (!obj || typeof obj !== "object" || Array.isArray(obj)) return null;
+    // case-insensitive keys
+    return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k.toLowerCase().replace(/\s+/g, "_"), v]));
+  } catch {
+    return null;
+  }
+}
+
+function extractLines(text: string): Partial<Record<keyof typeof FIELD_KEYS, string>> {
+  // tolerate markdown around the labels, list markers and "=" / "-" separators (values stay as written)
+  const cleaned = text.split("\n").map(stripLineMarkup);
+  const out: Partial<Record<keyof typeof FIELD_KEYS, string>> = {};
+  for (const [field, keys] of Object.entries(FIELD_KEYS) as [keyof typeof FIELD_KEYS, string][]) {
+    const re = new RegExp(`^(?:${keys})\\s*[:=\\-–]\\s*(.+)$`, "i");
+    for (const line of cleaned) {
+      const m = line.match(re);
+      if (m) {
+        out[field] = unwrapEmphasis(m[1]);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+// Parse + validate one probe. Never throws; `quality` says how much had to be recovered.
+export function parseProbe(
+  text: string,
+  limits: ProbeLimits,
+  dims: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions
+): ProbeParse {
+  const raw = text ?? "";
+  const issues: string[] = [];
+  const strict = isStrictFormat(raw, dims);
+
+  const json = extractJson(raw);
+  // optional; a missing or malformed DIFF is not an issue
+  const diffRaw = json ? Number(json.diff ?? json.difficulty) : Number(raw.match(DIFF_LINE)?.[1]);
+  const difficulty = Number.isInteger(diffRaw) && diffRaw >= 1 && diffRaw <= 5 ? diffRaw : null;
+  const found: Partial<Record<keyof typeof FIELD_KEYS, string>> = json
+    ? {
+        dim: typeof json.dim === "string" ? json.dim : typeof json.dimension === "string" ? json.dimension : undefined,
+        focus: typeof json.focus === "string" ? json.focus : undefined,
+        next: typeof json.next === "string" ? json.next : undefined,
+        why: typeof json.why === "string" ? json.why : undefined,
+      }
+    : extractLines(raw);
+  if (json) issues.push("probe was JSON, not the 4-line format");
+
+  const dim = normalizeDim(found.dim, dims);
+  if (!found.dim) issues.push("DIM missing");
+  else if (!dim) issues.push(`unknown DIM "${oneLine(found.dim).slice(0, 24)}"`);
+  else if (found.dim.trim().toUpperCase() !== dim) issues.push(`DIM "${oneLine(found.dim).slice(0, 24)}" normalized to ${dim}`);
+
+  const bounded = (name: string, v: string | undefined, max: number): string | null => {
+    const s = oneLine(v ?? "");
+    if (!s) {
+      issues.push(`${name} missing`);
+      return null;
+    }
+    if (s.length > max) {
+      issues.push(`${name} truncated to ${max} chars`);
+      return truncateWords(s, max);
+    }
+    return s;
+  };
+  const candidate = {
+    dim,
+    focus: bounded("FOCUS", found.focus, limits.focus_max_chars),
+    next: bounded("NEXT", found.next, limits.next_max_chars),
+    why: bounded("WHY", found.why, limits.why_max_chars),
+  };
+
+  const parsed = probeSchema(limits, dims).safeParse(candidate);
+  if (!parsed.success) {
+    // keep whatever is individually usable; an invalid DIM never leaks downstream
+    return { fields: { raw, ...candidate, difficulty }, quality: "invalid", issues };
+  }
+  return {
+    fields: { raw, ...parsed.data, difficulty },
+    quality: strict && issues.length === 0 ? "strict" : "lenient",
+    issues,
+  };
+}
@@ -1,12 +1,19 @@
-export function probeSystemPrompt(): string {
+import { dimChoice, dimIds, dimPromptLines, type DimensionRegistry } from "@/lib/dimensions";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+
+// askDifficulty adds a 5th "DIFF: <1-5>" line (self-rated difficulty, for the fallback state estimate)
+export function probeSystemPrompt(dims: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions, askDifficulty = false): string {
   return [
     "You are the ATTENTION PROBE of the agent.",
     "Task: from the user's latest message, pick exactly ONE attention dimension and a concrete focus.",
-    "Output MUST be exactly 4 lines, in this exact order:",
-    "DIM: <RISK|NOVELTY|GOAL|UNCERTAINTY|OPPORTUNITY|META>",
+    "Dimensions:",
+    ...dimPromptLines(dims),
+    `Output MUST be exactly ${askDifficulty ? 5 : 4} lines, in this exact order:`,
+    `DIM: ${dimChoice(dims)}`,
     "FOCUS: <short noun phrase>",
     "NEXT: <one next observation or action>",
     "WHY: <one short sentence>",
+    ...(askDifficulty ? ["DIFF: <1-5, how hard the message is to answer well (1 = trivial, 5 = very hard)>"] : []),
     "Constraints:",
     "- Keep wording plain. No metaphors, no rare words, no invented terms.",
     "- Keep FOCUS and NEXT concrete and short.",
@@ -14,6 +21,19 @@ export function probeSystemPrompt(): string {
   ].join("\n");
 }
 
+export function probeRepairSystemPrompt(
+  issues: string[],
+  dims: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions,
+  askDifficulty = false
+): string {
+  return [
+    probeSystemPrompt(dims, askDifficulty),
+    "Your previous output could not be used:",
+    ...issues.slice(0, 4).map((i) => `- ${i}`),
+    "Answer again using EXACTLY the line format above, with DIM being one of the listed values.",
+  ].join("\n");
+}
+
 export function mainSystemPrompt(state: number): string {
   return [
     "You are the MAIN agent response.",
@@ -44,13 +64,20 @@ export function frameSystemPrompt(args: {
   ].join("\n");
 }
 
-export function explorationSystemPrompt(currentDim: string | null): string {
+export function explorationSystemPrompt(
+  currentDim: string | null,
+  dims: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions,
+  n = 3,
+  recentDims: string[] = []
+): string {
   return [
     "You are the EXPLORATION PULSE.",
     "The agent is stuck repeating the same attention dimension.",
-    "Generate EXACTLY 3 alternative attention probes.",
+    `Generate EXACTLY ${n} alternative attention probes.`,
+    "Dimensions:",
+    ...dimPromptLines(dims),
     "Each candidate MUST be exactly 4 lines, in this exact order:",
-    "DIM: <RISK|NOVELTY|GOAL|UNCERTAINTY|OPPORTUNITY|META>",
+    `DIM: ${dimChoice(dims, currentDim)}`,
     "FOCUS: <short noun phrase>",
     "NEXT: <one next observation or action>",
     "WHY: <one short sentence>",
@@ -58,28 +85,54 @@ export function explorationSystemPrompt(currentDim: string | null): string {
     "- Use plain wording. No metaphors, no rare words, no invented terms.",
     "- Each candidate DIM must be DIFFERENT from the current DIM.",
     `- Current DIM is: ${currentDim ?? "(unknown)"}`,
+    "- Candidates must differ in DIM or in FOCUS, not only in wording.",
+    ...(recentDims.length ? [`- Earlier pulses already switched to: ${recentDims.join(", ")}. Prefer other DIMs.`] : []),
     "- Separate candidates with ONE blank line. No extra commentary.",
   ].join("\n");
 }
 
-export function verifyPickSystemPrompt(): string {
+export function verifyScoreSystemPrompt(dims: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions, n = 3): string {
+  const ids = dimIds(dims);
   return [
     "You are the VERIFIER.",
-    "Choose the single best candidate among 3 alternatives.",
+    `Score each of the ${n} alternative candidates from 0 (useless) to 10 (clearly the best next frame).`,
     "Criteria:",
     "- Must be helpful and concrete for the user's latest message.",
-    "- Avoid META unless it is clearly the best practical move.",
-    "- If RISK is plausible, prefer it.",
-    "Output MUST be exactly one line:",
-    "PICK: <1|2|3>",
+    ...ids.filter((d) => dims[d].verifier === "avoid").map((d) => `- Score ${d} low unless it is clearly the best practical move.`),
+    ...ids.filter((d) => dims[d].verifier === "prefer").map((d) => `- If ${d} is plausible, score it higher.`),
+    `Output MUST be exactly ${n} lines, one per candidate, in order:`,
+    "SCORE <candidate number>: <0-10> | <reason, under 12 words>",
+  ].join("\n");
+}
+
+export function summaryUpdateSystemPrompt(headlineMax: number, paragraphMax: number): string {
+  return [
+    "You update a running conversation summary with two layers.",
+    "Output exactly two lines:",
+    `HEADLINE: <one line, ${headlineMax} characters or fewer: what the conversation is about right now>`,
+    `SUMMARY: <one paragraph, ${paragraphMax} characters or fewer: goals, constraints, decisions and current plan>`,
+    "Keep earlier goals and decisions that still matter; drop what was resolved or abandoned. Avoid fluff.",
+  ].join("\n");
+}
+
+export function segmentSummarySystemPrompt(maxChars: number): string {
+  return [
+    "The conversation just moved on from a topic. Summarize that finished topic for later reference.",
+    `Output MUST be exactly one line, ${maxChars} characters or fewer.`,
+    "Include what was asked, what was concluded or decided, and anything left open.",
   ].join("\n");
 }
 
-export function summaryUpdateSystemPrompt(): string {
+export function noteExtractionSystemPrompt(maxNotes: number): string {
   return [
-    "You update a running one-line conversation summary.",
-    "Output MUST be exactly one line.",
-    "Keep it short: 140 characters or fewer.",
-    "Focus on: the user's goal, constraints, and current plan. Avoid fluff.",
+    `Extract up to ${maxNotes} short notes worth remembering from the latest exchange.`,
+    "Only durable content: facts stated, decisions made, constraints or requirements, open todos.",
+    "Skip chit-chat, restatements of the question and anything already obvious.",
+    "Output one note per line, exactly in this format (no extra text):",
+    "FACT: <note>",
+    "DECISION: <note>",
+    "CONSTRAINT: <note>",
+    "TODO: <note>",
+    "Each note 120 characters or fewer. If nothing is worth keeping, output exactly: NONE",
   ].join("\n");
 }
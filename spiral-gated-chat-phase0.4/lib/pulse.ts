@@ -0,0 +1,268 @@
+import type { DimensionRegistry } from "@/lib/dimensions";
+import { tokenOverlap } from "@/lib/fragments";
+import { DEFAULT_GATE_CONFIG, type GateConfig } from "@/lib/gateConfig";
+import type { LLMPhase, LLMProvider } from "@/lib/llm";
+import { parseProbe, type ProbeLimits } from "@/lib/probe";
+import { explorationSystemPrompt, verifyScoreSystemPrompt } from "@/lib/prompts";
+import { detectStagnation, type StagnationInput, type StagnationReport } from "@/lib/stagnation";
+import type { GateState, ProbeFields, PulseCandidate, PulseInfo, PulseProposal } from "@/lib/types";
+
+// Exploration pulse: when the gate is stuck on one frame, generate N alternative frames, drop the
+// ones that only reword another, have the verifier score the rest, and switch to the best one.
+// Recent picks are kept on the GateState so later pulses are steered away from the same DIM.
+
+export type PulseConfig = GateConfig["pulse"];
+
+export type PulseEligibility = {
+  stagnation_detected: boolean;
+  repeating_dim: string | null;
+  eligible: boolean;
+  // every enabled detector's verdict and the policy outcome
+  stagnation: StagnationReport;
+};
+
+// Decide (before the state update) whether this turn may run an exploration pulse.
+// Without texts (e.g. replay of old traces) the text-based detectors report "not available".
+export function pulseEligibility(
+  gs: GateState,
+  turn: number,
+  params: PulseConfig,
+  dims: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions,
+  texts: Omit<StagnationInput, "gs"> = { userTexts: [], assistantTexts: [] }
+): PulseEligibility {
+  const report = detectStagnation({ gs, ...texts }, params.stagnation);
+  const stagnation = report.stagnant;
+  const repeatingDim = gs.last_dims.length ? gs.last_dims[gs.last_dims.length - 1] : null;
+  const cooldownOk = turn - gs.last_pulse_turn >= params.cooldown_turns;
+  // e.g. a RISK streak is intentional, not stagnation
+  const notRiskLoop = !(repeatingDim && dims[repeatingDim]?.pulse_exempt);
+  const boredomish = gs.last_state < params.max_prev_state; // don't explore when we're already in high-compute mode
+  return {
+    stagnation_detected: stagnation,
+    repeating_dim: repeatingDim,
+    eligible: stagnation && cooldownOk && notRiskLoop && boredomish,
+    stagnation: report,
+  };
+}
+
+export function emptyPulseInfo(elig: PulseEligibility, requested: number): PulseInfo {
+  return {
+    triggered: false,
+    stagnation_detected: elig.stagnation_detected,
+    repeating_dim: elig.repeating_dim,
+    candidates_text: null,
+    requested,
+    candidates: [],
+    verifier: null,
+    picked: null,
+    selected_probe: null,
+    recent_dims: [],
+    stagnation: elig.stagnation,
+  };
+}
+
+// Candidate blocks separated by blank lines; each goes through the probe validation, unusable ones are dropped
+export function parsePulseCandidates(text: string, max: number, limits: ProbeLimits, dims: DimensionRegistry): ProbeFields[] {
+  if (!(text ?? "").trim()) return [];
+  const cands: ProbeFields[] = [];
+  for (const b of text.split(/\n\s*\n/g)) {
+    const lines = b
+      .split("\n")
+      .map((x) => x.trimEnd())
+      .filter((x) => x.length > 0)
+      .slice(0, 4);
+    if (lines.length < 2) continue;
+    const parsed = parseProbe(lines.join("\n"), limits, dims);
+    if (parsed.quality === "invalid") continue;
+    cands.push(parsed.fields);
+    if (cands.length >= max) break;
+  }
+  return cands;
+}
+
+function frameText(p: Pick<ProbeFields, "focus" | "next">): string {
+  return [p.focus, p.next].filter(Boolean).join(" ");
+}
+
+// Mark candidates that keep the current DIM with a near-identical FOCUS/NEXT, or that reword an
+// earlier candidate of the same DIM
+export function diversityFilter(
+  cands: ProbeFields[],
+  current: ProbeFields,
+  threshold: number
+): PulseCandidate["dropped"][] {
+  const kept: ProbeFields[] = [];
+  return cands.map((c) => {
+    const same = (o: ProbeFields) => o.dim === c.dim && tokenOverlap(frameText(o), frameText(c)) >= threshold;
+    if (same(current)) return "same_as_current";
+    if (kept.some(same)) return "duplicate";
+    kept.push(c);
+    return null;
+  });
+}
+
+export type VerifierScores = {
+  // per candidate (1-based order as shown to the verifier), null when not scored
+  scores: ({ score: number; reason: string | null } | null)[];
+  format: "scores" | "pick" | "none";
+  // "PICK: n" (older verifier format), 1-based
+  pick: number | null;
+};
+
+// "SCORE 2: 7 | concrete next step" lines (also "2: 7/10 - reason"); a bare "PICK: n" is accepted
+export function parseVerifierScores(text: string, n: number): VerifierScores {
+  const scores: VerifierScores["scores"] = Array.from({ length: n }, () => null);
+  let found = false;
+  for (const line of (text ?? "").replace(/\*+|`+/g, "").split("\n")) {
+    const m = line.match(/^\s*(?:score\s*)?(?:candidate\s*)?#?(\d+)\s*[:=.)]\s*(\d+(?:\.\d+)?)\s*(?:\/\s*10)?\s*(?:[|—–-]\s*(.*))?$/i);
+    if (!m) continue;
+    const i = parseInt(m[1], 10) - 1;
+    if (i < 0 || i >= n) continue;
+    scores[i] = { score: Math.min(10, Math.max(0, Number(m[2]))), reason: m[3]?.trim() || null };
+    found = true;
+  }
+  if (found) return { scores, format: "scores", pick: null };
+  const pm = (text ?? "").match(/\bPICK\s*:\s*(\d+)\b/i);
+  const pick = pm ? parseInt(pm[1], 10) : null;
+  return pick !== null && pick >= 1 && pick <= n ? { scores, format: "pick", pick } : { scores, format: "none", pick: null };
+}
+
+// DIMs picked by the last `window` pulses, oldest first
+export function recentPulseDims(log: PulseProposal[] | undefined, window: number): string[] {
+  return (log ?? [])
+    .slice(-window)
+    .map((p) => p.picked)
+    .filter((d): d is string => d !== null);
+}
+
+export function recordPulseProposal(gs: GateState, entry: PulseProposal, max: number): void {
+  const log = (gs.pulse_log ??= []);
+  log.push(entry);
+  if (log.length > max) log.splice(0, log.length - max);
+}
+
+// Highest final score (verifier score − repeat_penalty × recent picks of the DIM); without scores,
+// the verifier's PICK, else the least-repeated DIM (first on ties). Returns a kept candidate's index.
+export function chooseCandidate(cands: PulseCandidate[], verdict: VerifierScores, cfg: PulseConfig): number | null {
+  const kept = cands.map((c, i) => ({ c, i })).filter((x) => x.c.dropped === null);
+  if (!kept.length) return null;
+  if (verdict.format === "scores") {
+    const scored = kept.filter((x) => x.c.final_score !== null);
+    if (!scored.length) return null;
+    const best = scored.reduce((a, b) => ((b.c.final_score ?? 0) > (a.c.final_score ?? 0) ? b : a));
+    return (best.c.final_score ?? 0) >= cfg.min_score ? best.i : null;
+  }
+  if (verdict.format === "pick" && verdict.pick !== null) return kept[verdict.pick - 1]?.i ?? null;
+  return kept.reduce((a, b) => (b.c.recent_picks < a.c.recent_picks ? b : a)).i;
+}
+
+export type PulseResult = {
+  info: PulseInfo;
+  // the frame to switch to (null = keep the current one)
+  selected: ProbeFields | null;
+  notes: string[];
+};
+
+// Generate → filter → verify → pick. Records the proposal on the GateState when candidates came back.
+export async function runExplorationPulse(args: {
+  provider: LLMProvider;
+  modelFor: (phase: LLMPhase) => string;
+  gs: GateState;
+  turn: number;
+  userText: string;
+  current: ProbeFields;
+  eligibility: PulseEligibility;
+  cfg: PulseConfig;
+  limits: ProbeLimits;
+  dims: DimensionRegistry;
+}): Promise<PulseResult> {
+  const { provider, cfg, current, dims } = args;
+  const notes: string[] = [];
+  const info = emptyPulseInfo(args.eligibility, cfg.candidates);
+  const recent = recentPulseDims(args.gs.pulse_log, cfg.proposals.window);
+  info.recent_dims = recent;
+
+  const { text: candidatesText } = await provider.generate({
+    phase: "exploration",
+    model: args.modelFor("exploration"),
+    input: [
+      { role: "system", content: explorationSystemPrompt(args.eligibility.repeating_dim, dims, cfg.candidates, [...new Set(recent)]) },
+      {
+        role: "user",
+        content: ["User message:", args.userText, "\nOriginal probe (current frame):", current.raw].join("\n"),
+      },
+    ],
+    temperature: cfg.temperature,
+    max_output_tokens: cfg.candidates * cfg.candidate_tokens + 10,
+  });
+  info.candidates_text = candidatesText || null;
+
+  const parsed = parsePulseCandidates(candidatesText || "", cfg.candidates, args.limits, dims);
+  const dropped = diversityFilter(parsed, current, cfg.diversity_threshold);
+  info.candidates = parsed.map((c, i) => ({
+    dim: c.dim,
+    focus: c.focus,
+    raw: c.raw,
+    score: null,
+    reason: null,
+    recent_picks: recent.filter((d) => d === c.dim).length,
+    final_score: null,
+    dropped: dropped[i],
+  }));
+  const kept = info.candidates.filter((c) => c.dropped === null);
+  if (parsed.length < cfg.candidates) notes.push(`pulse: ${parsed.length} of ${cfg.candidates} candidates usable`);
+  if (kept.length < parsed.length) notes.push(`pulse: ${parsed.length - kept.length} candidate(s) dropped as rewordings`);
+  if (!kept.length) return { info, selected: null, notes };
+
+  let verdict: VerifierScores = { scores: [], format: "none", pick: null };
+  if (kept.length === 1) {
+    info.verifier = "skipped";
+  } else {
+    const { text: verifyText } = await provider.generate({
+      phase: "verify",
+      model: args.modelFor("verify"),
+      input: [
+        { role: "system", content: verifyScoreSystemPrompt(dims, kept.length) },
+        {
+          role: "user",
+          content: [
+            "User message:",
+            args.userText,
+            "\nOriginal probe:",
+            current.raw,
+            "\nCandidates:",
+            kept.map((c, i) => `Candidate ${i + 1}:\n${c.raw}`).join("\n\n"),
+          ].join("\n"),
+        },
+      ],
+      temperature: 0,
+      max_output_tokens: 12 + 24 * kept.length,
+    });
+    verdict = parseVerifierScores(verifyText || "", kept.length);
+    info.verifier = verdict.format === "none" ? "fallback" : verdict.format;
+    if (verdict.format === "none") notes.push("pulse: verifier output unusable → least-repeated DIM");
+    kept.forEach((c, i) => {
+      const s = verdict.scores[i];
+      if (!s) return;
+      c.score = s.score;
+      c.reason = s.reason;
+      c.final_score = s.score - cfg.proposals.repeat_penalty * c.recent_picks;
+    });
+  }
+
+  const idx = chooseCandidate(info.candidates, verdict, cfg);
+  const pickedDim = idx !== null ? info.candidates[idx].dim : null;
+  recordPulseProposal(
+    args.gs,
+    { turn: args.turn, from: args.eligibility.repeating_dim, proposed: kept.map((c) => c.dim ?? "?"), picked: pickedDim },
+    cfg.proposals.history_max
+  );
+  if (idx === null) {
+    notes.push(`pulse: no candidate reached min_score ${cfg.min_score} → frame kept`);
+    return { info, selected: null, notes };
+  }
+  info.triggered = true;
+  info.picked = idx + 1;
+  info.selected_probe = info.candidates[idx].raw;
+  return { info, selected: parsed[idx], notes };
+}
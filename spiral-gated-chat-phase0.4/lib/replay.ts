@@ -0,0 +1,139 @@
+import { createInitialGateState } from "@/lib/gating";
+import type { GateConfig } from "@/lib/gateConfig";
+import { parseProbe } from "@/lib/probe";
+import { pulseEligibility } from "@/lib/pulse";
+import {
+  combineState,
+  computeBudgets,
+  fallbackState,
+  scoreProbe,
+  scoreProbeEnsemble,
+  settleState,
+  type MemoryBudgets,
+  type ProbeScore,
+} from "@/lib/statePipeline";
+import type { TurnTrace } from "@/lib/trace";
+import type { StateSource } from "@/lib/types";
+
+export type ReplayTurn = {
+  turn: number;
+  dim: string | null;
+  // raw_state is after the fallback blend
+  metrics: Omit<ProbeScore, "notes">;
+  state_source: StateSource;
+  state: number;
+  // state recorded when the transcript was captured (for drift comparison)
+  recorded_state: number;
+  budgets: MemoryBudgets;
+  pulse: {
+    eligible: boolean;
+    stagnation_detected: boolean;
+    // eligible AND the recording has a selected alternate frame to apply
+    applied: boolean;
+  };
+  notes: string[];
+};
+
+export type ReplaySet = {
+  name: string;
+  params: GateConfig;
+};
+
+export type ReplayComparison = {
+  sets: string[];
+  turns: { turn: number; user_text: string; results: ReplayTurn[] }[];
+  totals: { name: string; mean_state: number; pulses: number; mean_max_output_tokens: number; mean_context_tokens: number }[];
+};
+
+// Re-run the state pipeline over recorded probe logprobs with a fresh GateState.
+// No model calls: a pulse can only change the frame when the recording already has its pick.
+// Traces hold no assistant text, so the assistant_repetition detector never fires here.
+export function replayTranscript(turns: TurnTrace[], params: GateConfig): ReplayTurn[] {
+  const gs = createInitialGateState();
+  const out: ReplayTurn[] = [];
+  const userTexts: string[] = [];
+
+  for (const t of turns) {
+    userTexts.push(t.user_text);
+    let probe = parseProbe(t.probe_text, params.probe, params.dimensions).fields;
+    // ensemble params replay as many recorded extra samples as they ask for (and as were recorded)
+    const extras = (t.probe_samples ?? [])
+      .slice(0, params.probe.ensemble.samples - 1)
+      .map((x) => ({ parsed: parseProbe(x.probe_text, params.probe, params.dimensions), logprobs: x.probe_logprobs }));
+    const { notes, ensemble, ...metrics } =
+      params.probe.ensemble.samples > 1 && extras.length
+        ? scoreProbeEnsemble(
+            gs,
+            [
+              { dim: probe.dim, logprobs: t.probe_logprobs },
+              ...extras.map((x) => ({ dim: x.parsed.fields.dim, logprobs: x.logprobs })),
+            ],
+            params.state,
+            params.probe.ensemble
+          )
+        : { ...scoreProbe(gs, t.probe_logprobs, params.state), ensemble: null };
+    const majority = ensemble?.majority_dim ?? null;
+    if (majority && probe.dim !== majority) {
+      const alt = extras.find((x) => x.parsed.fields.dim === majority && x.parsed.quality !== "invalid");
+      if (alt) probe = alt.parsed.fields;
+    }
+    const fb = params.state.fallback.enabled
+      ? fallbackState(
+          gs,
+          { userText: t.user_text, dim: probe.dim, difficulty: probe.difficulty, probeLatencyMs: t.probe_latency_ms ?? null },
+          params.state,
+          params.dimensions
+        )
+      : null;
+    const combined = combineState(metrics.score !== null ? metrics.raw_state : null, fb?.estimate ?? null, gs.last_state, params.state);
+    metrics.raw_state = combined.raw_state;
+    const elig = pulseEligibility(gs, t.turn, params.pulse, params.dimensions, { userTexts, assistantTexts: [] });
+
+    let frame = probe;
+    const applied = elig.eligible && t.pulse.triggered && !!t.pulse.selected_probe;
+    if (elig.eligible) {
+      gs.last_pulse_turn = t.turn;
+      if (applied) frame = parseProbe(t.pulse.selected_probe ?? "", params.probe, params.dimensions).fields;
+      else notes.push("pulse eligible but no recorded candidates → original frame kept");
+    } else if (t.pulse.triggered) {
+      notes.push("recorded pulse not eligible under these params");
+    }
+
+    const settled = settleState(gs, metrics.raw_state, frame.dim, frame.focus, t.turn, params.state, params.dimensions);
+    const budgets = computeBudgets(settled.state, params.budgets);
+    if (elig.eligible) budgets.max_output_tokens = Math.max(budgets.max_output_tokens, params.pulse.main_tokens_floor);
+
+    out.push({
+      turn: t.turn,
+      dim: frame.dim,
+      metrics,
+      state_source: combined.source,
+      state: settled.state,
+      recorded_state: t.state,
+      budgets,
+      pulse: { eligible: elig.eligible, stagnation_detected: elig.stagnation_detected, applied },
+      notes: [...notes, ...settled.notes],
+    });
+  }
+
+  return out;
+}
+
+function mean(xs: number[]): number {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+export function compareParamSets(turns: TurnTrace[], sets: ReplaySet[]): ReplayComparison {
+  const runs = sets.map((s) => replayTranscript(turns, s.params));
+  return {
+    sets: sets.map((s) => s.name),
+    turns: turns.map((t, i) => ({ turn: t.turn, user_text: t.user_text, results: runs.map((r) => r[i]) })),
+    totals: sets.map((s, i) => ({
+      name: s.name,
+      mean_state: mean(runs[i].map((r) => r.state)),
+      pulses: runs[i].filter((r) => r.pulse.eligible).length,
+      mean_max_output_tokens: mean(runs[i].map((r) => r.budgets.max_output_tokens)),
+      mean_context_tokens: mean(runs[i].map((r) => r.budgets.context_tokens)),
+    })),
+  };
+}
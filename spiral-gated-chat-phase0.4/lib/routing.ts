@@ -0,0 +1,59 @@
+import type { GateConfig } from "@/lib/gateConfig";
+import type { LLMPhase } from "@/lib/llm";
+
+// Per-phase model routing by state. Routes are tried in order; the first one whose phases and
+// [min_state, max_state] match and whose model has the capabilities the phase needs wins.
+// No match → the deployment model (OPENAI_MODEL).
+
+export type RoutingConfig = GateConfig["routing"];
+
+export type ModelCapabilities = RoutingConfig["models"][string];
+
+// capabilities a phase cannot do without (the probe's state estimate comes from token logprobs)
+const PHASE_NEEDS: Partial<Record<LLMPhase, (keyof ModelCapabilities)[]>> = {
+  probe: ["logprobs"],
+};
+
+// models missing from routing.models are assumed to support everything
+const FULL: ModelCapabilities = { logprobs: true };
+
+export type RouteDecision = {
+  model: string;
+  // index into routing.routes (null = deployment model)
+  route: number | null;
+  // state the decision was made on
+  state: number;
+  capabilities: ModelCapabilities;
+  // routes that matched but were skipped for a missing capability
+  skipped: { route: number; model: string; missing: string[] }[];
+};
+
+export function capabilitiesFor(model: string, models: RoutingConfig["models"]): ModelCapabilities {
+  // exact match, else the longest prefix (same lookup as prices)
+  if (models[model]) return models[model];
+  let best: string | null = null;
+  for (const k of Object.keys(models)) {
+    if (model.startsWith(k) && (!best || k.length > best.length)) best = k;
+  }
+  return best ? models[best] : FULL;
+}
+
+export function missingCapabilities(phase: LLMPhase, caps: ModelCapabilities): string[] {
+  return (PHASE_NEEDS[phase] ?? []).filter((c) => !caps[c]);
+}
+
+export function routeModel(phase: LLMPhase, state: number, fallback: string, cfg: RoutingConfig): RouteDecision {
+  const skipped: RouteDecision["skipped"] = [];
+  for (let i = 0; i < cfg.routes.length; i++) {
+    const r = cfg.routes[i];
+    if (!r.phases.includes(phase) || state < r.min_state || state > r.max_state) continue;
+    const capabilities = capabilitiesFor(r.model, cfg.models);
+    const missing = missingCapabilities(phase, capabilities);
+    if (missing.length) {
+      skipped.push({ route: i, model: r.model, missing });
+      continue;
+    }
+    return { model: r.model, route: i, state, capabilities, skipped };
+  }
+  return { model: fallback, route: null, state, capabilities: capabilitiesFor(fallback, cfg.models), skipped };
+}
@@ -0,0 +1,265 @@
+import { z } from "zod";
+import { GATE_PRESETS, parseSessionGateConfig, type GatePresetName } from "@/lib/gateConfig";
+import type { Session } from "@/lib/sessionStore";
+
+// Bump when the exported shape changes, and register a migration from the previous version.
+export const SESSION_EXPORT_VERSION = 1;
+export const SESSION_EXPORT_FORMAT = "spiral-gated-chat/session";
+
+const RunningStatsSchema = z.object({ mean: z.number(), var: z.number() });
+
+const GateStateSchema = z.object({
+  S: RunningStatsSchema,
+  H: RunningStatsSchema,
+  last_state: z.number().min(0).max(1),
+  meta_cap_stage: z.union([z.literal(0), z.literal(1), z.literal(2)]),
+  meta_cap_last_change_turn: z.number().int(),
+  last_dims: z.array(z.string()),
+  last_focus: z.array(z.string()),
+  last_states: z.array(z.number()),
+  last_pulse_turn: z.number().int(),
+  L: RunningStatsSchema.optional(),
+  pulse_log: z
+    .array(z.object({ turn: z.number().int(), from: z.string().nullable(), proposed: z.array(z.string()), picked: z.string().nullable() }))
+    .optional(),
+});
+
+const MemoryFragmentSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  turn: z.number().int(),
+  dim: z.string().nullable(),
+  focus: z.string().nullable(),
+  text: z.string(),
+  salience: z.number().min(0).max(1.2),
+  last_used_turn: z.number().int(),
+  embedding: z.array(z.number()).optional(),
+  embedding_model: z.string().optional(),
+  pinned: z.boolean().optional(),
+  edited: z.boolean().optional(),
+  kind: z.enum(["fact", "decision", "constraint", "todo"]).optional(),
+  merge_count: z.number().int().min(0).optional(),
+  merges: z
+    .array(
+      z.object({
+        turn: z.number().int(),
+        key: z.string(),
+        text: z.string(),
+        via: z.enum(["key", "tokens", "embedding"]),
+        similarity: z.number(),
+      })
+    )
+    .optional(),
+});
+
+const MemoryStateSchema = z.object({
+  summary: z.string(),
+  summary_updated_turn: z.number().int(),
+  attn_log: z.array(
+    z.object({
+      turn: z.number().int(),
+      dim: z.string(),
+      focus: z.string(),
+      next: z.string().nullable().optional(),
+    })
+  ),
+  fragments: z.array(MemoryFragmentSchema),
+  fragment_actions: z
+    .array(
+      z.object({
+        at: z.number(),
+        turn: z.number().int(),
+        action: z.enum(["pin", "unpin", "edit", "set_salience", "delete"]),
+        id: z.string(),
+        before: z.union([z.string(), z.number()]).nullable(),
+        after: z.union([z.string(), z.number()]).nullable(),
+      })
+    )
+    .optional(),
+  notes_extracted_turn: z.number().int().optional(),
+  summary_paragraph: z.string().optional(),
+  summary_segments: z
+    .array(
+      z.object({
+        start_turn: z.number().int(),
+        end_turn: z.number().int(),
+        dim: z.string().nullable(),
+        focus: z.string().nullable(),
+        text: z.string(),
+      })
+    )
+    .optional(),
+  summary_segment_open: z
+    .object({ start_turn: z.number().int(), dim: z.string().nullable(), focus: z.string().nullable() })
+    .optional(),
+  summary_pending: z
+    .object({
+      turn: z.number().int(),
+      update: z
+        .object({ user_text: z.string(), assistant_text: z.string(), max_tokens: z.number() })
+        .nullable(),
+      segment: z
+        .object({
+          start_turn: z.number().int(),
+          end_turn: z.number().int(),
+          dim: z.string().nullable(),
+          focus: z.string().nullable(),
+        })
+        .nullable(),
+    })
+    .optional(),
+});
+
+const UsageTotalsSchema = z.object({
+  calls: z.number().int().min(0),
+  input_tokens: z.number().int().min(0),
+  output_tokens: z.number().int().min(0),
+  cost_usd: z.number().min(0),
+});
+
+const StateCalibrationSchema = z.object({
+  tau_scale: z.number().positive(),
+  offset: z.number(),
+  ratings: z.number().int().min(0),
+});
+
+const TurnSnapshotSchema = z.object({
+  turn: z.number().int(),
+  score: z.number().nullable(),
+  raw_state: z.number(),
+  state: z.number(),
+  state_source: z.enum(["logprobs", "fallback", "blended", "held"]),
+  max_output_tokens: z.number(),
+  context_tokens: z.number(),
+});
+
+const FeedbackStateSchema = z.object({
+  turns: z.array(TurnSnapshotSchema),
+  entries: z.array(
+    TurnSnapshotSchema.extend({
+      at: z.number(),
+      rating: z.enum(["up", "down", "too_short", "too_long"]),
+      before: StateCalibrationSchema,
+      after: StateCalibrationSchema,
+    })
+  ),
+  calibration: StateCalibrationSchema,
+});
+
+const PendingToolCallSchema = z.object({
+  id: z.string(),
+  turn: z.number().int(),
+  dim: z.string().nullable(),
+  name: z.string(),
+  arguments: z.string(),
+  status: z.enum(["pending", "approved", "denied"]),
+  output: z.string().nullable(),
+  resolved_at: z.number().nullable(),
+  reported: z.boolean(),
+});
+
+// every field the timeline and turn inspector read (lib/turnLog.ts)
+const TurnRecordSchema = z.object({
+  turn: z.number().int(),
+  state: z.number(),
+  raw_state: z.number(),
+  state_source: z.enum(["logprobs", "fallback", "blended", "held"]),
+  zS: z.number().nullable(),
+  zH: z.number().nullable(),
+  score: z.number().nullable(),
+  dim: z.string().nullable(),
+  focus: z.string().nullable(),
+  next: z.string().nullable(),
+  meta_cap_stage: z.number().int().min(0).max(2),
+  budgets: z.object({
+    context_tokens: z.number(),
+    max_output_tokens: z.number(),
+    summary_chars: z.number(),
+    attn_items: z.number(),
+    frag_items: z.number(),
+  }),
+  pulse: z.object({ triggered: z.boolean(), stagnation_detected: z.boolean() }),
+});
+
+const SessionSchema = z.object({
+  id: z.string().min(1),
+  gate: GateStateSchema,
+  memory: MemoryStateSchema,
+  history: z.array(z.object({ role: z.enum(["user", "assistant"]), content: z.string(), turn: z.number().int().optional() })),
+  turn: z.number().int().min(0),
+  updated_at: z.number(),
+  config: z
+    .object({
+      preset: z.enum(Object.keys(GATE_PRESETS) as [GatePresetName, ...GatePresetName[]]).optional(),
+      overrides: z.record(z.string(), z.unknown()).optional(),
+    })
+    .optional(),
+  usage: UsageTotalsSchema.extend({
+    turns: z.number().int().min(0),
+    models: z.record(z.string(), UsageTotalsSchema).optional(),
+  }).optional(),
+  feedback: FeedbackStateSchema.optional(),
+  pending_tools: z.array(PendingToolCallSchema).optional(),
+  turn_log: z.array(TurnRecordSchema).optional(),
+});
+
+export const SessionExportSchema = z.object({
+  format: z.literal(SESSION_EXPORT_FORMAT),
+  version: z.literal(SESSION_EXPORT_VERSION),
+  exported_at: z.string(),
+  session: SessionSchema,
+});
+
+export type SessionExport = z.infer<typeof SessionExportSchema>;
+
+// migrations[n] upgrades a version-n document to version n+1 (operates on untyped JSON)
+type Migration = (doc: Record<string, any>) => Record<string, any>;
+const migrations: Record<number, Migration> = {};
+
+export function exportSession(sess: Session): SessionExport {
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    session: structuredClone(sess),
+  };
+}
+
+export function migrateSessionExport(raw: unknown): { doc: Record<string, any>; migratedFrom: number | null } {
+  if (!raw || typeof raw !== "object") throw new Error("Session export must be a JSON object");
+  let doc = raw as Record<string, any>;
+  if (doc.format !== SESSION_EXPORT_FORMAT) throw new Error(`Unsupported export format: ${String(doc.format)}`);
+  const from = doc.version;
+  if (typeof from !== "number" || !Number.isInteger(from) || from < 1) {
+    throw new Error(`Invalid export version: ${String(from)}`);
+  }
+  if (from > SESSION_EXPORT_VERSION) {
+    throw new Error(`Export version ${from} is newer than supported version ${SESSION_EXPORT_VERSION}`);
+  }
+  for (let v = from; v < SESSION_EXPORT_VERSION; v++) {
+    const m = migrations[v];
+    if (!m) throw new Error(`No migration from export version ${v}`);
+    doc = { ...m(doc), version: v + 1 };
+  }
+  return { doc, migratedFrom: from === SESSION_EXPORT_VERSION ? null : from };
+}
+
+// Validate (after migrating) an exported document and turn it into a Session stored under `sessionId`.
+export function importSession(raw: unknown, sessionId: string): { session: Session; migratedFrom: number | null } {
+  const { doc, migratedFrom } = migrateSessionExport(raw);
+  const parsed = SessionExportSchema.safeParse(doc);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid session export at ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  }
+  const session: Session = { ...parsed.data.session, id: sessionId, updated_at: Date.now() };
+  // same checks as /api/step, so the imported session can run turns
+  if (session.config) {
+    try {
+      session.config = parseSessionGateConfig(session.config);
+    } catch (e: any) {
+      throw new Error(`Invalid session export at session.config: ${String(e?.message ?? e)}`);
+    }
+  }
+  return { session, migratedFrom };
+}
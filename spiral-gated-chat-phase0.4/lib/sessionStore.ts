@@ -1,9 +1,15 @@
+import { emptySessionUsage, type SessionUsage } from "@/lib/cost";
+import type { SessionGateConfig } from "@/lib/gateConfig";
 import { createInitialGateState } from "@/lib/gating";
-import type { GateState, MemoryState } from "@/lib/types";
+import { createFileSessionStore } from "@/lib/sessionStoreFile";
+import { createSqliteSessionStore } from "@/lib/sessionStoreSqlite";
+import type { FeedbackState, GateState, MemoryState, PendingToolCall, TurnRecord } from "@/lib/types";
 
 export type StoredMessage = {
   role: "user" | "assistant";
   content: string;
+  // turn that added it (absent on messages saved before turns were recorded)
+  turn?: number;
 };
 
 export type Session = {
@@ -12,21 +18,143 @@ export type Session = {
   memory: MemoryState;
   history: StoredMessage[]; // for context building
   turn: number;
+  // epoch ms of the last save (drives idle-TTL eviction)
+  updated_at: number;
+  // per-session gate preset/overrides (resolved on every turn)
+  config?: SessionGateConfig;
+  // cumulative token/cost ledger (absent on sessions saved before it existed)
+  usage?: SessionUsage;
+  // turn snapshots, user ratings and the calibration they produced (absent until the first turn)
+  feedback?: FeedbackState;
+  // tool calls held for confirmation, pending and recently resolved (absent until the first one)
+  pending_tools?: PendingToolCall[];
+  // slim per-turn records, newest last, for the state timeline (memory.turn_log_max kept)
+  turn_log?: TurnRecord[];
 };
 
-const sessions = new Map<string, Session>();
-
-export function getSession(sessionId: string): Session {
-  let s = sessions.get(sessionId);
-  if (!s) {
-    s = {
-      id: sessionId,
-      gate: createInitialGateState(),
-      memory: { summary: "", summary_updated_turn: -1, attn_log: [], fragments: [] },
-      history: [],
-      turn: 0,
-    };
-    sessions.set(sessionId, s);
+export type SessionListItem = {
+  id: string;
+  turn: number;
+  updated_at: number;
+};
+
+export type SessionStore = {
+  kind: "memory" | "file" | "sqlite";
+  get(id: string): Promise<Session | null>;
+  save(sess: Session): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<SessionListItem[]>;
+};
+
+export type EvictionPolicy = {
+  // drop sessions idle for longer than this (null = never)
+  ttlMs: number | null;
+  // keep at most this many sessions, least recently used dropped first (null = unbounded)
+  maxSessions: number | null;
+};
+
+export function createSession(sessionId: string): Session {
+  return {
+    id: sessionId,
+    gate: createInitialGateState(),
+    memory: { summary: "", summary_updated_turn: -1, attn_log: [], fragments: [] },
+    history: [],
+    turn: 0,
+    updated_at: Date.now(),
+    usage: emptySessionUsage(),
+  };
+}
+
+export function createMemorySessionStore(): SessionStore {
+  // survive dev-server module reloads (not process restarts)
+  const g = globalThis as { __spiralSessions?: Map<string, Session> };
+  const sessions = (g.__spiralSessions ??= new Map<string, Session>());
+
+  return {
+    kind: "memory",
+    async get(id) {
+      return sessions.get(id) ?? null;
+    },
+    async save(sess) {
+      sessions.set(sess.id, sess);
+    },
+    async delete(id) {
+      return sessions.delete(id);
+    },
+    async list() {
+      return [...sessions.values()].map((s) => ({ id: s.id, turn: s.turn, updated_at: s.updated_at }));
+    },
+  };
+}
+
+export async function evictSessions(store: SessionStore, policy: EvictionPolicy, now = Date.now()): Promise<string[]> {
+  if (policy.ttlMs === null && policy.maxSessions === null) return [];
+  const items = await store.list();
+  const evicted: string[] = [];
+  const alive: SessionListItem[] = [];
+  for (const it of items) {
+    if (policy.ttlMs !== null && now - it.updated_at > policy.ttlMs) evicted.push(it.id);
+    else alive.push(it);
+  }
+  if (policy.maxSessions !== null && alive.length > policy.maxSessions) {
+    alive.sort((a, b) => b.updated_at - a.updated_at);
+    for (const it of alive.slice(policy.maxSessions)) evicted.push(it.id);
+  }
+  for (const id of evicted) await store.delete(id);
+  return evicted;
+}
+
+function numEnv(name: string): number | null {
+  const v = process.env[name];
+  if (v === undefined || v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function evictionPolicyFromEnv(): EvictionPolicy {
+  // SESSION_TTL_MINUTES=0 / SESSION_MAX=0 disable the respective rule
+  const ttlMin = process.env.SESSION_TTL_MINUTES === undefined ? 24 * 60 : numEnv("SESSION_TTL_MINUTES");
+  const max = process.env.SESSION_MAX === undefined ? 500 : numEnv("SESSION_MAX");
+  return { ttlMs: ttlMin === null ? null : ttlMin * 60_000, maxSessions: max === null ? null : Math.floor(max) };
+}
+
+let cachedStore: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  // SESSION_STORE=memory|file|sqlite (SESSION_STORE_PATH overrides the default file location)
+  if (cachedStore) return cachedStore;
+  const kind = (process.env.SESSION_STORE || "memory").toLowerCase();
+  const path = process.env.SESSION_STORE_PATH;
+  if (kind === "memory") cachedStore = createMemorySessionStore();
+  else if (kind === "file") cachedStore = createFileSessionStore(path || ".data/sessions.json");
+  else if (kind === "sqlite") cachedStore = createSqliteSessionStore(path || ".data/sessions.sqlite");
+  else throw new Error(`Unknown SESSION_STORE: ${kind}`);
+  return cachedStore;
+}
+
+export async function getSession(sessionId: string): Promise<Session> {
+  const store = getSessionStore();
+  return (await store.get(sessionId)) ?? createSession(sessionId);
+}
+
+export async function saveSession(sess: Session): Promise<void> {
+  const store = getSessionStore();
+  sess.updated_at = Date.now();
+  await store.save(sess);
+  await evictSessions(store, evictionPolicyFromEnv(), sess.updated_at);
+}
+
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+// Run `fn` with exclusive access to one session (turns for the same id are serialized,
+// so a trailing summary update can't race the next turn's load/save).
+export async function withSessionLock<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+  const prev = sessionLocks.get(sessionId) ?? Promise.resolve();
+  const run = prev.catch(() => undefined).then(fn);
+  sessionLocks.set(sessionId, run);
+  try {
+    return await run;
+  } finally {
+    if (sessionLocks.get(sessionId) === run) sessionLocks.delete(sessionId);
   }
-  return s;
 }
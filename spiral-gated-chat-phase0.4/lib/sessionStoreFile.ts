@@ -0,0 +1,65 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { Session, SessionStore } from "@/lib/sessionStore";
+
+type FileShape = {
+  version: 1;
+  sessions: Record<string, Session>;
+};
+
+export async function writeFileAtomic(file: string, data: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, data);
+  await fs.rename(tmp, file);
+}
+
+// Whole store in one JSON document; fine for a dev box / a few hundred sessions.
+export function createFileSessionStore(file: string): SessionStore {
+  let loaded: Promise<Map<string, Session>> | null = null;
+  // serialize writes so concurrent turns don't interleave rename()s
+  let writing: Promise<void> = Promise.resolve();
+
+  function load(): Promise<Map<string, Session>> {
+    loaded ??= (async () => {
+      try {
+        const doc = JSON.parse(await fs.readFile(file, "utf8")) as FileShape;
+        return new Map(Object.entries(doc.sessions ?? {}));
+      } catch (e: any) {
+        if (e?.code === "ENOENT") return new Map<string, Session>();
+        throw e;
+      }
+    })();
+    return loaded;
+  }
+
+  async function flush(sessions: Map<string, Session>): Promise<void> {
+    const doc: FileShape = { version: 1, sessions: Object.fromEntries(sessions) };
+    const data = JSON.stringify(doc);
+    writing = writing.catch(() => undefined).then(() => writeFileAtomic(file, data));
+    await writing;
+  }
+
+  return {
+    kind: "file",
+    async get(id) {
+      const s = (await load()).get(id);
+      // hand out a copy; callers persist changes through save()
+      return s ? (structuredClone(s) as Session) : null;
+    },
+    async save(sess) {
+      const sessions = await load();
+      sessions.set(sess.id, structuredClone(sess));
+      await flush(sessions);
+    },
+    async delete(id) {
+      const sessions = await load();
+      if (!sessions.delete(id)) return false;
+      await flush(sessions);
+      return true;
+    },
+    async list() {
+      return [...(await load()).values()].map((s) => ({ id: s.id, turn: s.turn, updated_at: s.updated_at }));
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { Database } from "sql.js";
+import type { Session, SessionStore } from "@/lib/sessionStore";
+import { writeFileAtomic } from "@/lib/sessionStoreFile";
+
+// Embedded SQLite via sql.js (WASM, no native build). The database lives in memory and is
+// written back to `file` after every mutation.
+export function createSqliteSessionStore(file: string): SessionStore {
+  let opened: Promise<Database> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  function open(): Promise<Database> {
+    opened ??= (async () => {
+      const initSqlJs = (await import("sql.js")).default;
+      const SQL = await initSqlJs({
+        locateFile: (f: string) => path.join(process.cwd(), "node_modules", "sql.js", "dist", f),
+      });
+      let bytes: Uint8Array | undefined;
+      try {
+        bytes = new Uint8Array(await fs.readFile(file));
+      } catch (e: any) {
+        if (e?.code !== "ENOENT") throw e;
+      }
+      const db = new SQL.Database(bytes);
+      db.run(
+        "CREATE TABLE IF NOT EXISTS sessions (id TEXT PRIMARY KEY, turn INTEGER NOT NULL, updated_at INTEGER NOT NULL, data TEXT NOT NULL)"
+      );
+      return db;
+    })();
+    return opened;
+  }
+
+  async function flush(db: Database): Promise<void> {
+    const data = db.export();
+    writing = writing.catch(() => undefined).then(() => writeFileAtomic(file, data));
+    await writing;
+  }
+
+  return {
+    kind: "sqlite",
+    async get(id) {
+      const db = await open();
+      const stmt = db.prepare("SELECT data FROM sessions WHERE id = ?", [id]);
+      try {
+        if (!stmt.step()) return null;
+        return JSON.parse(String(stmt.getAsObject().data)) as Session;
+      } finally {
+        stmt.free();
+      }
+    },
+    async save(sess) {
+      const db = await open();
+      db.run("INSERT OR REPLACE INTO sessions (id, turn, updated_at, data) VALUES (?, ?, ?, ?)", [
+        sess.id,
+        sess.turn,
+        sess.updated_at,
+        JSON.stringify(sess),
+      ]);
+      await flush(db);
+    },
+    async delete(id) {
+      const db = await open();
+      db.run("DELETE FROM sessions WHERE id = ?", [id]);
+      const changed = db.getRowsModified() > 0;
+      if (changed) await flush(db);
+      return changed;
+    },
+    async list() {
+      const db = await open();
+      const res = db.exec("SELECT id, turn, updated_at FROM sessions");
+      if (!res.length) return [];
+      return res[0].values.map(([id, turn, updated_at]) => ({
+        id: String(id),
+        turn: Number(turn),
+        updated_at: Number(updated_at),
+      }));
+    },
+  };
+}
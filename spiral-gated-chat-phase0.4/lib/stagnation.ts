@@ -0,0 +1,211 @@
+import type { GateConfig } from "@/lib/gateConfig";
+import { shouldExplorationPulse, variance } from "@/lib/gating";
+import type { GateState } from "@/lib/types";
+
+// Stagnation detectors for the exploration pulse. Each looks at one kind of evidence and returns a
+// verdict; the policy (any / all / weighted) combines the enabled ones into the pulse trigger.
+
+export type StagnationConfig = GateConfig["pulse"]["stagnation"];
+
+export type StagnationDetectorName = keyof StagnationConfig["detectors"];
+
+export type StagnationInput = {
+  gs: GateState;
+  // user messages oldest first, the current one last
+  userTexts: string[];
+  // assistant replies before this turn, oldest first
+  assistantTexts: string[];
+};
+
+export type StagnationVerdict = {
+  detector: StagnationDetectorName;
+  // false = not enough turns yet (never stagnant)
+  available: boolean;
+  stagnant: boolean;
+  // the measured quantity and the bound it was compared with
+  value: number | null;
+  threshold: number;
+  weight: number;
+  evidence: string;
+};
+
+export type StagnationReport = {
+  mode: StagnationConfig["policy"]["mode"];
+  // weighted: sum of firing weights; any/all: number of firing detectors
+  score: number;
+  threshold: number;
+  stagnant: boolean;
+  verdicts: StagnationVerdict[];
+};
+
+type DetectorResult = Omit<StagnationVerdict, "detector" | "weight">;
+
+export type StagnationDetector = (input: StagnationInput, cfg: StagnationConfig) => DetectorResult;
+
+// shorter user messages ("ok", "thanks") repeat without meaning anything
+const USER_MIN_CHARS = 8;
+
+function normalize(text: string): string {
+  return (text ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function charNgrams(text: string, n: number): Set<string> {
+  const t = normalize(text);
+  const out = new Set<string>();
+  if (!t) return out;
+  if (t.length <= n) return out.add(t);
+  for (let i = 0; i + n <= t.length; i++) out.add(t.slice(i, i + n));
+  return out;
+}
+
+// words, with CJK characters as single tokens
+export function wordNgrams(text: string, n: number): Set<string> {
+  const words = (text ?? "").toLowerCase().match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{N}]+/gu) ?? [];
+  const out = new Set<string>();
+  for (let i = 0; i + n <= words.length; i++) out.add(words.slice(i, i + n).join(" "));
+  return out;
+}
+
+// 0 when either side is empty (no evidence of repetition)
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let inter = 0;
+  for (const x of a) if (b.has(x)) inter++;
+  return inter / (a.size + b.size - inter);
+}
+
+function meanConsecutive(sets: Set<string>[]): number {
+  let sum = 0;
+  for (let i = 1; i < sets.length; i++) sum += jaccard(sets[i - 1], sets[i]);
+  return sets.length > 1 ? sum / (sets.length - 1) : 0;
+}
+
+function quote(s: string, max = 40): string {
+  const t = (s ?? "").replace(/\s+/g, " ").trim();
+  return `"${t.length > max ? `${t.slice(0, max - 1)}…` : t}"`;
+}
+
+function unavailable(needed: number, what: string, threshold: number): DetectorResult {
+  return { available: false, stagnant: false, value: null, threshold, evidence: `needs ${needed} ${what}` };
+}
+
+export const STAGNATION_DETECTORS: Record<StagnationDetectorName, StagnationDetector> = {
+  state_flat: ({ gs }, cfg) => {
+    const w = cfg.window;
+    if (gs.last_states.length < w || gs.last_dims.length < w || gs.last_focus.length < w) {
+      return unavailable(w, "turns", cfg.max_state_variance);
+    }
+    const v = variance(gs.last_states.slice(-w));
+    const dims = new Set(gs.last_dims.slice(-w)).size;
+    const focus = new Set(gs.last_focus.slice(-w)).size;
+    return {
+      available: true,
+      stagnant: shouldExplorationPulse(gs, cfg),
+      value: v,
+      threshold: cfg.max_state_variance,
+      evidence: `state variance ${v.toFixed(4)}, ${dims} DIM(s), ${focus} FOCUS value(s) over ${w} turns`,
+    };
+  },
+
+  focus_overlap: ({ gs }, cfg) => {
+    const d = cfg.detectors.focus_overlap;
+    if (gs.last_focus.length < d.window) return unavailable(d.window, "FOCUS values", d.threshold);
+    const focus = gs.last_focus.slice(-d.window);
+    const overlap = meanConsecutive(focus.map((f) => charNgrams(f, d.ngram)));
+    return {
+      available: true,
+      stagnant: overlap >= d.threshold,
+      value: overlap,
+      threshold: d.threshold,
+      evidence: `mean ${d.ngram}-gram overlap ${overlap.toFixed(2)} across ${focus.map((f) => quote(f, 24)).join(" → ")}`,
+    };
+  },
+
+  assistant_repetition: ({ assistantTexts }, cfg) => {
+    const d = cfg.detectors.assistant_repetition;
+    if (assistantTexts.length < d.window) return unavailable(d.window, "assistant replies", d.threshold);
+    const sets = assistantTexts.slice(-d.window).map((t) => wordNgrams(t, d.ngram));
+    const overlap = meanConsecutive(sets);
+    // a phrase every reply in the window shares, as an example
+    const shared = [...sets[sets.length - 1]].find((g) => sets.every((s) => s.has(g)));
+    return {
+      available: true,
+      stagnant: overlap >= d.threshold,
+      value: overlap,
+      threshold: d.threshold,
+      evidence: `mean ${d.ngram}-word overlap ${overlap.toFixed(2)} over the last ${d.window} replies${shared ? `, all contain ${quote(shared)}` : ""}`,
+    };
+  },
+
+  user_repetition: ({ userTexts }, cfg) => {
+    const d = cfg.detectors.user_repetition;
+    const current = userTexts[userTexts.length - 1] ?? "";
+    const earlier = userTexts.slice(0, -1).slice(-d.window);
+    if (!earlier.length) return unavailable(1, "earlier user message", d.threshold);
+    if (normalize(current).length < USER_MIN_CHARS) {
+      return { available: true, stagnant: false, value: null, threshold: d.threshold, evidence: "current message too short to compare" };
+    }
+    const cur = charNgrams(current, 3);
+    let best = 0;
+    let ago = 0;
+    earlier.forEach((t, i) => {
+      const sim = jaccard(cur, charNgrams(t, 3));
+      if (sim >= best) [best, ago] = [sim, earlier.length - i];
+    });
+    return {
+      available: true,
+      stagnant: best >= d.threshold,
+      value: best,
+      threshold: d.threshold,
+      evidence: `closest earlier message ${ago} turn(s) ago, overlap ${best.toFixed(2)}: ${quote(earlier[earlier.length - ago])}`,
+    };
+  },
+
+  state_drift: ({ gs }, cfg) => {
+    const d = cfg.detectors.state_drift;
+    if (gs.last_states.length < d.window || gs.last_focus.length < d.window) return unavailable(d.window, "turns", d.min_variation);
+    const states = gs.last_states.slice(-d.window);
+    let variation = 0;
+    for (let i = 1; i < states.length; i++) variation += Math.abs(states[i] - states[i - 1]);
+    // progress: share of FOCUS words (after the first turn) not seen earlier in the window
+    const seen = new Set(wordNgrams(gs.last_focus[gs.last_focus.length - d.window], 1));
+    let words = 0;
+    let fresh = 0;
+    for (const f of gs.last_focus.slice(-d.window + 1)) {
+      for (const w of wordNgrams(f, 1)) {
+        words++;
+        if (!seen.has(w)) fresh++;
+        seen.add(w);
+      }
+    }
+    const novelty = words ? fresh / words : 0;
+    return {
+      available: true,
+      stagnant: variation >= d.min_variation && novelty <= d.max_novelty,
+      value: variation,
+      threshold: d.min_variation,
+      evidence: `state moved ${variation.toFixed(2)} in total over ${d.window} turns (net ${(states[states.length - 1] - states[0]).toFixed(2)}), FOCUS novelty ${novelty.toFixed(2)}`,
+    };
+  },
+};
+
+// Run the enabled detectors and apply the policy
+export function detectStagnation(input: StagnationInput, cfg: StagnationConfig): StagnationReport {
+  const verdicts: StagnationVerdict[] = [];
+  for (const name of Object.keys(STAGNATION_DETECTORS) as StagnationDetectorName[]) {
+    const d = cfg.detectors[name];
+    if (!d.enabled) continue;
+    verdicts.push({ detector: name, weight: d.weight, ...STAGNATION_DETECTORS[name](input, cfg) });
+  }
+  const firing = verdicts.filter((v) => v.stagnant);
+  const { mode, threshold } = cfg.policy;
+  if (mode === "weighted") {
+    const score = firing.reduce((n, v) => n + v.weight, 0);
+    return { mode, score, threshold, stagnant: firing.length > 0 && score >= threshold, verdicts };
+  }
+  const stagnant = mode === "any" ? firing.length > 0 : verdicts.length > 0 && firing.length === verdicts.length;
+  return { mode, score: firing.length, threshold: mode === "any" ? 1 : verdicts.length, stagnant, verdicts };
+}
@@ -0,0 +1,286 @@
+import {
+  applyDimWeight,
+  approxEntropy,
+  clamp01,
+  emaUpdate,
+  hysteresisUpdate,
+  maybeRelaxMetaCapStage,
+  meanSurprisal,
+  metaCapValue,
+  sigmoid,
+  sliceFirstLine,
+  updateStagnationBuffers,
+  zScore,
+} from "@/lib/gating";
+import { dimDef, type DimensionRegistry } from "@/lib/dimensions";
+import { DEFAULT_GATE_CONFIG, type BudgetCurve, type GateConfig } from "@/lib/gateConfig";
+import {
+  complexitySignal,
+  difficultySignal,
+  lengthSignal,
+  questionSignal,
+  type StateSignalName,
+  type StateSignals,
+} from "@/lib/stateSignals";
+import type { EnsembleDebug, EnsembleSampleDebug, GateState, StateSource, TokenLogprob } from "@/lib/types";
+
+// Pure(-ish) state pipeline shared by runStep and the offline replay harness.
+// Functions that take a GateState mutate it exactly the way a live turn would.
+
+export type ProbeScore = {
+  surprisal: number | null;
+  entropy: number | null;
+  zS: number | null;
+  zH: number | null;
+  score: number | null;
+  // sigmoid(score / tau), or the previous state when no logprobs were available
+  raw_state: number;
+  notes: string[];
+};
+
+export type MemoryBudgets = {
+  context_tokens: number;
+  summary_chars: number;
+  attn_items: number;
+  frag_items: number;
+  summary_update_interval: number;
+  summary_update_max_tokens: number;
+  extract_interval: number;
+  max_output_tokens: number;
+  temperature: number;
+  tool_iterations: number;
+};
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp01((x - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+}
+
+export function evalCurve(c: BudgetCurve, state: number): number {
+  const t = c.edges ? smoothstep(c.edges[0], c.edges[1], state) : Math.pow(clamp01(state), c.gamma ?? 1);
+  return c.from + (c.to - c.from) * t;
+}
+
+function intBudget(c: BudgetCurve, state: number): number {
+  const lo = Math.min(c.from, c.to);
+  const hi = Math.max(c.from, c.to);
+  return Math.max(lo, Math.min(hi, Math.round(evalCurve(c, state))));
+}
+
+type SampleMetrics = Pick<ProbeScore, "surprisal" | "entropy" | "zS" | "zH" | "score">;
+
+// Metrics of one probe sample against the current baselines (does not touch the EMAs)
+function sampleMetrics(gs: GateState, probeLogprobs: TokenLogprob[], params: GateConfig["state"]): SampleMetrics {
+  // Metrics from first line only (anti self-intoxication)
+  const firstLine = sliceFirstLine(probeLogprobs, 30);
+  const S = meanSurprisal(firstLine);
+  const H = approxEntropy(firstLine);
+  const zS = S !== null ? zScore(gs.S, S) : null;
+  const zH = H !== null ? zScore(gs.H, H) : null;
+  const score =
+    zS !== null || zH !== null ? params.surprisal_weight * (zS ?? 0) + params.entropy_weight * (zH ?? 0) : null;
+  return { surprisal: S, entropy: H, zS, zH, score };
+}
+
+function updateBaselines(gs: GateState, S: number | null, H: number | null, params: GateConfig["state"]): string[] {
+  const notes: string[] = [];
+  if (S !== null) gs.S = emaUpdate(gs.S, S, params.eta);
+  else notes.push("logprobs missing → surprisal unavailable");
+  if (H !== null) gs.H = emaUpdate(gs.H, H, params.eta);
+  else notes.push("top_logprobs missing → entropy unavailable");
+  return notes;
+}
+
+// Surprisal/entropy of the probe's first line → z-scores vs EMA baselines → raw state.
+export function scoreProbe(gs: GateState, probeLogprobs: TokenLogprob[], params: GateConfig["state"]): ProbeScore {
+  const m = sampleMetrics(gs, probeLogprobs, params);
+  const notes = updateBaselines(gs, m.surprisal, m.entropy, params);
+  // fallback: keep previous
+  const raw = m.score !== null ? sigmoid(m.score / params.tau) : gs.last_state;
+  return { ...m, raw_state: raw, notes };
+}
+
+export type EnsembleSample = {
+  dim: string | null;
+  logprobs: TokenLogprob[];
+};
+
+function aggregate(xs: number[], how: "mean" | "median"): number | null {
+  if (!xs.length) return null;
+  if (how === "mean") return xs.reduce((a, b) => a + b, 0) / xs.length;
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function present(xs: (number | null)[]): number[] {
+  return xs.filter((x): x is number => x !== null);
+}
+
+// Several probe samples → per-sample metrics → aggregated score + DIM-disagreement term → raw state.
+// Baselines move once per turn, by the aggregated surprisal/entropy.
+export function scoreProbeEnsemble(
+  gs: GateState,
+  samples: EnsembleSample[],
+  params: GateConfig["state"],
+  ens: GateConfig["probe"]["ensemble"]
+): ProbeScore & { ensemble: EnsembleDebug } {
+  const per: EnsembleSampleDebug[] = samples.map((s) => ({ dim: s.dim, ...sampleMetrics(gs, s.logprobs, params) }));
+  const how = ens.aggregate;
+  const S = aggregate(present(per.map((p) => p.surprisal)), how);
+  const H = aggregate(present(per.map((p) => p.entropy)), how);
+  const zS = aggregate(present(per.map((p) => p.zS)), how);
+  const zH = aggregate(present(per.map((p) => p.zH)), how);
+  const baseScore = aggregate(present(per.map((p) => p.score)), how);
+
+  // DIM agreement: share of the most common DIM among samples that produced one (ties → earliest sample)
+  const counts = new Map<string, number>();
+  for (const p of per) if (p.dim) counts.set(p.dim, (counts.get(p.dim) ?? 0) + 1);
+  let majority: string | null = null;
+  for (const [d, c] of counts) if (majority === null || c > (counts.get(majority) ?? 0)) majority = d;
+  const withDim = per.filter((p) => p.dim).length;
+  const agreement = majority !== null ? (counts.get(majority) ?? 0) / withDim : null;
+  const disagreement = agreement !== null ? 1 - agreement : 0;
+
+  const notes = updateBaselines(gs, S, H, params);
+  const score = baseScore !== null ? baseScore + ens.disagreement_weight * disagreement : null;
+  const raw = score !== null ? sigmoid(score / params.tau) : gs.last_state;
+
+  return {
+    surprisal: S,
+    entropy: H,
+    zS,
+    zH,
+    score,
+    raw_state: raw,
+    notes,
+    ensemble: {
+      samples: per,
+      aggregate: how,
+      majority_dim: majority,
+      agreement,
+      disagreement,
+      base_score: baseScore,
+      disagreement_term: ens.disagreement_weight * disagreement,
+    },
+  };
+}
+
+export type FallbackInput = {
+  userText: string;
+  dim: string | null;
+  // self-rated 1–5 from the probe's DIFF line
+  difficulty: number | null | undefined;
+  // wall time of the primary probe call (null when not measured, e.g. replays of old transcripts)
+  probeLatencyMs: number | null;
+};
+
+export type FallbackEstimate = {
+  // weighted mean of the available signals (null when none had weight)
+  estimate: number | null;
+  signals: StateSignals;
+};
+
+// Heuristic state from the message, the probe frame and the probe latency. Moves the latency baseline.
+export function fallbackState(
+  gs: GateState,
+  input: FallbackInput,
+  params: GateConfig["state"],
+  dims: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions
+): FallbackEstimate {
+  const fb = params.fallback;
+  let latency: number | null = null;
+  if (input.probeLatencyMs !== null && input.probeLatencyMs >= 0) {
+    // slow probe vs this session's usual probe → harder turn (log scale, z vs EMA baseline)
+    const x = Math.log1p(input.probeLatencyMs);
+    const base = gs.L ?? { mean: x, var: 1 };
+    latency = sigmoid(zScore(base, x));
+    gs.L = emaUpdate(base, x, params.eta);
+  }
+  const def = dimDef(dims, input.dim);
+  const signals: StateSignals = {
+    length: lengthSignal(input.userText, fb.length_tokens_hi),
+    complexity: complexitySignal(input.userText),
+    questions: questionSignal(input.userText),
+    dim_prior: def ? (def.state_prior ?? 0.5) : null,
+    difficulty: difficultySignal(input.difficulty),
+    latency,
+  };
+  let sum = 0;
+  let wsum = 0;
+  for (const [name, v] of Object.entries(signals) as [StateSignalName, number | null][]) {
+    const w = fb.weights[name];
+    if (v === null || w <= 0) continue;
+    sum += w * v;
+    wsum += w;
+  }
+  return { estimate: wsum > 0 ? clamp01(sum / wsum) : null, signals };
+}
+
+// Raw state from whichever estimates exist; `logprobRaw` is null when the probe had no usable logprobs
+export function combineState(
+  logprobRaw: number | null,
+  fallback: number | null,
+  lastState: number,
+  params: GateConfig["state"]
+): { raw_state: number; source: StateSource } {
+  const fb = params.fallback.enabled ? fallback : null;
+  if (logprobRaw !== null && fb !== null && params.fallback.blend > 0) {
+    const b = params.fallback.blend;
+    return { raw_state: (1 - b) * logprobRaw + b * fb, source: "blended" };
+  }
+  if (logprobRaw !== null) return { raw_state: logprobRaw, source: "logprobs" };
+  if (fb !== null) return { raw_state: fb, source: "fallback" };
+  return { raw_state: lastState, source: "held" };
+}
+
+// raw state → (DIM weight) → hysteresis; then stagnation buffers and META-cap governor.
+export function settleState(
+  gs: GateState,
+  rawState: number,
+  dim: string | null,
+  focus: string | null,
+  turn: number,
+  params: GateConfig["state"],
+  dims: DimensionRegistry = DEFAULT_GATE_CONFIG.dimensions
+): { state: number; notes: string[] } {
+  const dimWeighted = applyDimWeight(rawState, dim, gs, dims);
+  const notes = [...dimWeighted.notes];
+
+  const { up, down, inertia } = params.hysteresis;
+  const state = hysteresisUpdate(gs.last_state, dimWeighted.raw, up, down, inertia);
+  gs.last_state = state;
+
+  // Update stagnation buffers using the EFFECTIVE probe (so pulses actually break repetition)
+  updateStagnationBuffers(gs, dim, focus, state, 12);
+
+  // META cap: staged relaxation (0.55 → 0.65 → unlocked) when META isn't dominating.
+  const metaRelax = maybeRelaxMetaCapStage(gs, turn, dims);
+  if (metaRelax.changed) {
+    const capNow = metaCapValue(gs.meta_cap_stage);
+    const capLabel = capNow === null ? "unlocked" : String(capNow);
+    notes.push(
+      `META cap relaxed → stage ${gs.meta_cap_stage} (cap ${capLabel})` +
+        (metaRelax.metaShare !== null ? `, recent META share=${metaRelax.metaShare.toFixed(2)}` : "")
+    );
+  }
+
+  return { state, notes };
+}
+
+// Gradient memory budgets + main generation params (continuous; no discrete LOW/MID/HIGH)
+export function computeBudgets(state: number, params: GateConfig["budgets"]): MemoryBudgets {
+  const temp = params.temperature;
+  return {
+    context_tokens: intBudget(params.context_tokens, state),
+    summary_chars: intBudget(params.summary_chars, state),
+    attn_items: intBudget(params.attn_items, state),
+    frag_items: intBudget(params.frag_items, state),
+    summary_update_interval: intBudget(params.summary_update_interval, state),
+    summary_update_max_tokens: intBudget(params.summary_update_max_tokens, state),
+    extract_interval: intBudget(params.extract_interval, state),
+    max_output_tokens: intBudget(params.max_output_tokens, state),
+    temperature: Math.max(Math.min(temp.from, temp.to), Math.min(Math.max(temp.from, temp.to), evalCurve(temp, state))),
+    tool_iterations: intBudget(params.tool_iterations, state),
+  };
+}
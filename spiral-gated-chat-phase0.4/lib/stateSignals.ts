@@ -0,0 +1,44 @@
+import { clamp01 } from "@/lib/gating";
+import { estimateTokens } from "@/lib/tokens";
+
+// Cheap state signals that need no logprobs, each in [0,1] (higher = the turn needs more compute).
+// Combined by statePipeline.fallbackState.
+
+export type StateSignalName = "length" | "complexity" | "questions" | "dim_prior" | "difficulty" | "latency";
+
+// null = signal not available this turn (left out of the weighted mean)
+export type StateSignals = Record<StateSignalName, number | null>;
+
+// log-scaled size of the user message: 0 tokens → 0, `hi` tokens or more → 1
+export function lengthSignal(text: string, hi: number): number {
+  const n = estimateTokens(text);
+  return clamp01(Math.log1p(n) / Math.log1p(hi));
+}
+
+// Structure that usually means real work: code, several lines, list items, long/technical words
+export function complexitySignal(text: string): number {
+  const t = text ?? "";
+  const code = /```|`[^`\n]+`|\b(?:function|class|def|SELECT|import|return)\b|[{};]\s*$/m.test(t) ? 1 : 0;
+  const lines = t.split("\n").filter((l) => l.trim()).length;
+  const items = (t.match(/^\s*(?:[-*•]|\d+[.)])\s+/gm) ?? []).length;
+  const words = t.match(/[A-Za-z][A-Za-z_-]*/g) ?? [];
+  const longShare = words.length ? words.filter((w) => w.length >= 10 || /[a-z][A-Z]|_/.test(w)).length / words.length : 0;
+  return clamp01(0.35 * code + 0.2 * Math.min(1, (lines - 1) / 6) + 0.2 * Math.min(1, items / 4) + 0.25 * Math.min(1, longShare * 4));
+}
+
+const QUESTION_MARK = /[?？]/g;
+// open questions ask for explanation, not a lookup
+const OPEN_QUESTION = /\b(?:why|how|what if|compare|explain|trade-?offs?)\b|なぜ|どうして|どう(?:すれば|やって)|比較|説明/i;
+
+// No question → 0.2, one → 0.5, three or more → 0.8; +0.2 for open (why/how) questions
+export function questionSignal(text: string): number {
+  const t = text ?? "";
+  const n = (t.match(QUESTION_MARK) ?? []).length;
+  const base = n === 0 ? 0.2 : Math.min(0.8, 0.35 + 0.15 * n);
+  return clamp01(base + (OPEN_QUESTION.test(t) ? 0.2 : 0));
+}
+
+// self-rated 1–5 from the probe's DIFF line
+export function difficultySignal(difficulty: number | null | undefined): number | null {
+  return typeof difficulty === "number" ? clamp01((difficulty - 1) / 4) : null;
+}
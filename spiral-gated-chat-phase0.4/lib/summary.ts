@@ -0,0 +1,145 @@
+import { tokenOverlap } from "@/lib/fragments";
+import type { GateConfig } from "@/lib/gateConfig";
+import { stripLineMarkup, unwrapEmphasis } from "@/lib/markup";
+import type { AttentionLogEntry, MemoryState, SummarySegment } from "@/lib/types";
+
+// Layered running summary: a short headline (MemoryState.summary), a rolling paragraph, and closed
+// per-topic segments. A segment is closed when the dominant DIM or the FOCUS drifts away from the
+// topic it was opened on. How much of this is injected scales with the summary_chars budget.
+
+export type SummaryConfig = GateConfig["summary"];
+
+export type SummaryLayer = "headline" | "paragraph" | "segments";
+
+function oneLine(s: string): string {
+  return (s ?? "").replace(/\s+/g, " ").trim();
+}
+
+// Cut at a word boundary (CJK text without spaces is cut at the limit), with an ellipsis when cut
+export function clipWords(s: string, max: number): string {
+  const t = oneLine(s);
+  if (t.length <= max) return t;
+  if (max <= 1) return "";
+  const cut = t.slice(0, max - 1);
+  const sp = cut.lastIndexOf(" ");
+  return `${(sp > max * 0.6 ? cut.slice(0, sp) : cut).trimEnd()}…`;
+}
+
+// "HEADLINE: ..." / "SUMMARY: ..." output; an unlabeled reply is taken as a headline only
+export function parseLayeredSummary(
+  text: string,
+  cfg: SummaryConfig
+): { headline: string; paragraph: string | null } | null {
+  const lines = (text ?? "").split("\n").map(stripLineMarkup).filter(Boolean);
+  if (!lines.length) return null;
+  const headLine = lines.find((l) => /^headline\s*:/i.test(l));
+  const paraIdx = lines.findIndex((l) => /^(?:summary|paragraph)\s*:/i.test(l));
+  if (!headLine && paraIdx < 0) return { headline: clipWords(lines[0], cfg.headline_max_chars), paragraph: null };
+  const headline = clipWords(unwrapEmphasis((headLine ?? lines[0]).replace(/^headline\s*:/i, "")), cfg.headline_max_chars);
+  const paragraph =
+    paraIdx >= 0
+      ? clipWords(
+          lines
+            .slice(paraIdx)
+            .filter((l) => !/^headline\s*:/i.test(l))
+            .join(" ")
+            .replace(/^(?:summary|paragraph)\s*:/i, ""),
+          cfg.paragraph_max_chars
+        )
+      : null;
+  if (!headline) return null;
+  return { headline, paragraph: paragraph || null };
+}
+
+// Most frequent DIM among the last `window` frames (ties → most recent)
+export function dominantDim(frames: AttentionLogEntry[], window: number): string | null {
+  const tail = frames.slice(-window);
+  const counts = new Map<string, number>();
+  for (const f of tail) counts.set(f.dim, (counts.get(f.dim) ?? 0) + 1);
+  let best: string | null = null;
+  let bestN = 0;
+  for (const f of [...tail].reverse()) {
+    const n = counts.get(f.dim) ?? 0;
+    if (n > bestN) {
+      best = f.dim;
+      bestN = n;
+    }
+  }
+  return best;
+}
+
+// `since`: first turn of the diverging window, i.e. where the next topic starts
+export type TopicShift = { shifted: boolean; reason: string | null; since: number | null };
+
+export function detectTopicShift(
+  open: MemoryState["summary_segment_open"],
+  frames: AttentionLogEntry[],
+  turn: number,
+  cfg: SummaryConfig
+): TopicShift {
+  const none: TopicShift = { shifted: false, reason: null, since: null };
+  if (!open || turn - open.start_turn < cfg.shift_window) return none;
+  const tail = frames.filter((f) => f.turn > open.start_turn).slice(-cfg.shift_window);
+  if (tail.length < cfg.shift_window) return none;
+  const since = tail[0].turn;
+  const dom = dominantDim(tail, cfg.shift_window);
+  const domShare = tail.filter((f) => f.dim === dom).length / tail.length;
+  if (dom && open.dim && dom !== open.dim && domShare > 0.5) {
+    return { shifted: true, reason: `DIM ${open.dim} → ${dom}`, since };
+  }
+  if (open.focus && tail.every((f) => tokenOverlap(f.focus, open.focus ?? "") < cfg.focus_shift_threshold)) {
+    return { shifted: true, reason: `FOCUS drifted from "${clipWords(open.focus, 40)}"`, since };
+  }
+  return none;
+}
+
+// Layers by budget: headline only when tight; from paragraph_min_budget on, the paragraph and then
+// the most recent closed segments with whatever budget is left.
+export function composeSummaryInjection(
+  mem: MemoryState,
+  budgetChars: number,
+  cfg: SummaryConfig
+): { text: string; layers: SummaryLayer[] } | null {
+  if (budgetChars < 40) return null;
+  const layers: SummaryLayer[] = [];
+  const parts: string[] = [];
+  let left = budgetChars;
+
+  const para = mem.summary_paragraph ?? "";
+  if (para && budgetChars >= cfg.paragraph_min_budget) {
+    const p = clipWords(para, left);
+    parts.push(`SUMMARY: ${p}`);
+    layers.push("paragraph");
+    left -= p.length;
+  } else if (mem.summary) {
+    const h = clipWords(mem.summary, left);
+    parts.push(`SUMMARY: ${h}`);
+    layers.push("headline");
+    left -= h.length;
+  }
+
+  const segs = mem.summary_segments ?? [];
+  if (budgetChars >= cfg.paragraph_min_budget && left >= 60 && segs.length) {
+    const lines: string[] = [];
+    for (const s of [...segs].reverse()) {
+      const head = `- [t${s.start_turn}–${s.end_turn}${s.dim ? ` ${s.dim}` : ""}] `;
+      const room = left - head.length;
+      if (room < 30) break;
+      const body = clipWords(s.text, Math.min(room, cfg.segment_max_chars));
+      lines.push(head + body);
+      left -= head.length + body.length;
+    }
+    if (lines.length) {
+      parts.push(["EARLIER TOPICS (latest first):", ...lines].join("\n"));
+      layers.push("segments");
+    }
+  }
+
+  return parts.length ? { text: parts.join("\n"), layers } : null;
+}
+
+export function pushSegment(mem: MemoryState, seg: SummarySegment, max: number): void {
+  const segs = (mem.summary_segments ??= []);
+  segs.push(seg);
+  if (segs.length > max) segs.splice(0, segs.length - max);
+}
@@ -0,0 +1,40 @@
+// Local token estimate (no tokenizer dependency). Roughly what BPE tokenizers produce: ~1 token per
+// CJK character, ~4 characters per token for Latin words, 1 per other symbol.
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// per-message framing (role, separators) in chat formats
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function estimateTokens(text: string): number {
+  let n = 0;
+  for (const m of (text ?? "").matchAll(/[\p{L}\p{N}]+|\S/gu)) {
+    const w = m[0];
+    if (CJK.test(w)) {
+      for (const ch of w) n += CJK.test(ch) ? 1 : 0.25;
+    } else if (w.length > 1 || /[\p{L}\p{N}]/u.test(w)) {
+      n += Math.max(1, w.length / 4);
+    } else {
+      n += 1;
+    }
+  }
+  return Math.ceil(n);
+}
+
+export function messageTokens(m: { content: string }): number {
+  return estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+// Keep the head and tail of a long text so it fits `maxTokens`, marking what was cut
+export function elideMiddle(text: string, maxTokens: number): { text: string; elided: number } {
+  const total = estimateTokens(text);
+  if (total <= maxTokens) return { text, elided: 0 };
+  const chars = [...text];
+  const perToken = chars.length / Math.max(1, total);
+  // leave room for the marker
+  const keep = Math.max(0, Math.floor((maxTokens - 10) * perToken));
+  const head = chars.slice(0, Math.ceil(keep * 0.6)).join("");
+  const tail = keep - Math.ceil(keep * 0.6) > 0 ? chars.slice(-(keep - Math.ceil(keep * 0.6))).join("") : "";
+  const elided = Math.max(0, total - estimateTokens(head) - estimateTokens(tail));
+  return { text: `${head}\n…[${elided} tokens elided]…\n${tail}`.trim(), elided };
+}
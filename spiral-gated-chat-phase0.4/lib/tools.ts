@@ -0,0 +1,359 @@
+import { z } from "zod";
+import { noteFragmentKey, noteFragmentText, NOTE_KINDS } from "@/lib/extraction";
+import { upsertFragment } from "@/lib/fragments";
+import type { GateConfig } from "@/lib/gateConfig";
+import type { LLMProvider, LLMRequest, LLMResult, LLMToolCall, LLMToolExchange, LLMToolSpec } from "@/lib/llm";
+import type { MemoryState, PendingToolCall, ToolCallRecord, ToolCallStatus } from "@/lib/types";
+
+// Local tools the main phase may call, and the calling loop. Rounds per turn come from
+// budgets.tool_iterations (scaled by state); calls in a tools.confirm.dims frame are held until the
+// user approves them and reach the model on the next turn.
+
+export type ToolsConfig = GateConfig["tools"];
+export type ToolName = ToolsConfig["allowed"][number];
+
+export const ToolConfirmBodySchema = z.object({ approve: z.boolean() }).strict();
+
+export type ToolConfirmBody = z.infer<typeof ToolConfirmBodySchema>;
+
+export type ToolContext = {
+  memory: MemoryState;
+  turn: number;
+  state: number;
+  dim: string | null;
+  fragments: GateConfig["fragments"];
+  now: number; // epoch ms
+};
+
+// A = what `args` parses to; the registry holds the erased ToolDef (A = unknown), see defineTool
+export type ToolDef<A = unknown> = {
+  name: ToolName;
+  description: string;
+  // JSON schema sent to the model; `args` validates what comes back
+  parameters: Record<string, unknown>;
+  args: z.ZodType<A, z.ZodTypeDef, unknown>;
+  // changes session state (needs confirmation under scope "side_effects")
+  side_effects: boolean;
+  run: (args: A, ctx: ToolContext) => string;
+};
+
+// Checks `run` against its schema's output, then erases the args type for the registry; the erased
+// `run` parses again, so it cannot be handed arguments the schema did not accept
+function defineTool<A>(def: ToolDef<A>): ToolDef {
+  return { ...def, run: (args, ctx) => def.run(def.args.parse(args), ctx) };
+}
+
+// ----------------
+// calculator: arithmetic without eval (+ - * / % ^, parentheses, a few functions and constants)
+// ----------------
+
+const CALC_FUNCS: Record<string, (...xs: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CALC_CONSTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const CALC_MAX_CHARS = 200;
+
+export function evaluateExpression(expr: string): number {
+  if (expr.length > CALC_MAX_CHARS) throw new Error(`expression longer than ${CALC_MAX_CHARS} chars`);
+  const tokens = expr.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[A-Za-z_]+|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let i = 0;
+  const peek = () => tokens[i];
+  const take = (t?: string) => {
+    const tok = tokens[i];
+    if (t !== undefined && tok !== t) throw new Error(tok === undefined ? `expected "${t}" at end` : `expected "${t}", got "${tok}"`);
+    i++;
+    return tok;
+  };
+
+  // expr := term (("+" | "-") term)*
+  function parseExpr(): number {
+    let v = parseTerm();
+    while (peek() === "+" || peek() === "-") v = take() === "+" ? v + parseTerm() : v - parseTerm();
+    return v;
+  }
+  // term := unary (("*" | "/" | "%") unary)*
+  function parseTerm(): number {
+    let v = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = take();
+      const r = parseUnary();
+      v = op === "*" ? v * r : op === "/" ? v / r : v % r;
+    }
+    return v;
+  }
+  // unary := ("+" | "-") unary | power
+  function parseUnary(): number {
+    const op = peek();
+    if (op !== "-" && op !== "+") return parsePower();
+    take();
+    return op === "-" ? -parseUnary() : parseUnary();
+  }
+  // power := primary (("^" | "**") unary)?   (right-associative)
+  function parsePower(): number {
+    const base = parsePrimary();
+    if (peek() === "^" || peek() === "**") {
+      take();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  }
+  function parsePrimary(): number {
+    const tok = take();
+    if (tok === undefined) throw new Error("unexpected end of expression");
+    if (tok === "(") {
+      const v = parseExpr();
+      take(")");
+      return v;
+    }
+    if (/^[\d.]/.test(tok)) return Number(tok);
+    const name = tok.toLowerCase();
+    if (name in CALC_FUNCS) {
+      take("(");
+      const args = [parseExpr()];
+      while (peek() === ",") {
+        take();
+        args.push(parseExpr());
+      }
+      take(")");
+      return CALC_FUNCS[name](...args);
+    }
+    if (name in CALC_CONSTS) return CALC_CONSTS[name];
+    throw new Error(`unknown token "${tok}"`);
+  }
+
+  const v = parseExpr();
+  if (i < tokens.length) throw new Error(`unexpected "${tokens[i]}"`);
+  if (!Number.isFinite(v)) throw new Error("result is not a finite number");
+  return v;
+}
+
+// 12 significant digits hides float noise (0.1 + 0.2 → 0.3)
+export function formatNumber(v: number): string {
+  return String(Number(v.toPrecision(12)));
+}
+
+// ----------------
+// registry
+// ----------------
+
+export const BUILTIN_TOOLS: Record<ToolName, ToolDef> = {
+  calculator: defineTool({
+    name: "calculator",
+    description: "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, log, ln, exp, sin, cos, tan, min, max, pow, pi, e.",
+    parameters: {
+      type: "object",
+      properties: { expression: { type: "string", description: "e.g. (12.5 * 4) / 3" } },
+      required: ["expression"],
+      additionalProperties: false,
+    },
+    args: z.object({ expression: z.string().min(1) }),
+    side_effects: false,
+    run: (args) => `${args.expression} = ${formatNumber(evaluateExpression(args.expression))}`,
+  }),
+  clock: defineTool({
+    name: "clock",
+    description: "Current date and time, in UTC and optionally in an IANA time zone.",
+    parameters: {
+      type: "object",
+      properties: { timezone: { type: "string", description: "IANA zone, e.g. Asia/Tokyo" } },
+      additionalProperties: false,
+    },
+    args: z.object({ timezone: z.string().min(1).optional() }),
+    side_effects: false,
+    run: (args, ctx) => {
+      const at = new Date(ctx.now);
+      const utc = at.toISOString();
+      if (!args.timezone) return utc;
+      // sv-SE renders as "YYYY-MM-DD HH:MM:SS"; an unknown zone throws a RangeError
+      const local = at.toLocaleString("sv-SE", { timeZone: args.timezone });
+      return `${utc} (${args.timezone}: ${local})`;
+    },
+  }),
+  scratchpad: defineTool({
+    name: "scratchpad",
+    description: "Save a short note to the conversation's memory so it can be recalled on later turns.",
+    parameters: {
+      type: "object",
+      properties: {
+        text: { type: "string", description: "the note, one short sentence" },
+        kind: { type: "string", enum: [...NOTE_KINDS] },
+      },
+      required: ["text"],
+      additionalProperties: false,
+    },
+    args: z.object({ text: z.string().trim().min(1).max(120), kind: z.enum(["fact", "decision", "constraint", "todo"]).optional() }),
+    side_effects: true,
+    run: (args, ctx) => {
+      const note = { kind: args.kind ?? "fact", text: args.text.replace(/\s+/g, " ") };
+      const fcfg = ctx.fragments;
+      const salience = Math.min(1.2, Math.max(0, fcfg.init_base + fcfg.init_state_weight * ctx.state + fcfg.extraction.kinds[note.kind].salience_bonus));
+      const res = upsertFragment(
+        ctx.memory.fragments,
+        { key: noteFragmentKey(note), turn: ctx.turn, dim: ctx.dim, focus: null, text: noteFragmentText(note), salience, kind: note.kind },
+        ctx.turn,
+        fcfg.dedup
+      );
+      return `${res.merged ? "merged into" : "saved as"} note ${res.id}: ${noteFragmentText(note)}`;
+    },
+  }),
+};
+
+export function toolSpec(def: ToolDef): LLMToolSpec {
+  return { name: def.name, description: def.description, parameters: def.parameters };
+}
+
+// tools offered this turn (none when disabled or the state allows no rounds)
+export function offeredTools(cfg: ToolsConfig, maxIterations: number): ToolDef[] {
+  if (!cfg.enabled || maxIterations <= 0) return [];
+  return cfg.allowed.map((n) => BUILTIN_TOOLS[n]);
+}
+
+export function needsConfirmation(def: ToolDef, dim: string | null, confirm: ToolsConfig["confirm"]): boolean {
+  return dim !== null && confirm.dims.includes(dim) && (confirm.scope === "all" || def.side_effects);
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Run one call (no confirmation check); bad arguments and tool failures become an "error: ..." output
+export function executeTool(def: ToolDef, rawArgs: string, ctx: ToolContext): { status: "ok" | "error"; output: string } {
+  let json: unknown;
+  try {
+    json = rawArgs.trim() ? JSON.parse(rawArgs) : {};
+  } catch {
+    return { status: "error", output: "error: arguments are not valid JSON" };
+  }
+  const parsed = def.args.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { status: "error", output: `error: invalid arguments${issue.path.length ? ` at ${issue.path.join(".")}` : ""}: ${issue.message}` };
+  }
+  try {
+    return { status: "ok", output: def.run(parsed.data, ctx) };
+  } catch (e: any) {
+    return { status: "error", output: `error: ${String(e?.message ?? e)}` };
+  }
+}
+
+export type ToolLoopResult = {
+  // the final response (its text is the assistant reply)
+  result: LLMResult;
+  iterations: number;
+  calls: ToolCallRecord[];
+  // calls held for confirmation this turn
+  pending: PendingToolCall[];
+};
+
+// Main call with tools: while rounds are left and the model asks for calls, run them and call again
+// with the results. The last call goes out without tools so the model has to answer in text.
+export async function runToolLoop(args: {
+  provider: LLMProvider;
+  request: LLMRequest;
+  maxIterations: number;
+  cfg: ToolsConfig;
+  ctx: ToolContext;
+  onDelta?: (delta: string) => void;
+  // called when a streamed round turned out to be a tool-calling one: its text is not the answer
+  onReset?: () => void;
+}): Promise<ToolLoopResult> {
+  const { provider, request, maxIterations, cfg, ctx } = args;
+  const defs = offeredTools(cfg, maxIterations);
+  const specs = defs.map(toolSpec);
+  const history: LLMToolExchange[] = [];
+  const calls: ToolCallRecord[] = [];
+  const pending: PendingToolCall[] = [];
+  let iterations = 0;
+
+  for (;;) {
+    const offer = specs.length > 0 && iterations < maxIterations;
+    const result = await provider.generate(
+      { ...request, ...(offer ? { tools: specs } : {}), ...(history.length ? { tool_history: history } : {}) },
+      args.onDelta ? { onDelta: args.onDelta } : undefined
+    );
+    if (!offer || !result.tool_calls?.length) return { result, iterations, calls, pending };
+
+    iterations++;
+    args.onReset?.();
+    for (const call of result.tool_calls) {
+      const t0 = Date.now();
+      const out = runCall(call, defs, ctx, cfg);
+      if (out.status === "needs_confirmation") {
+        pending.push({
+          id: call.id,
+          turn: ctx.turn,
+          dim: ctx.dim,
+          name: call.name,
+          arguments: call.arguments,
+          status: "pending",
+          output: null,
+          resolved_at: null,
+          reported: false,
+        });
+      }
+      const output = clip(out.output, cfg.max_output_chars);
+      calls.push({ id: call.id, iteration: iterations, name: call.name, arguments: call.arguments, status: out.status, output, ms: Date.now() - t0 });
+      history.push({ call, output });
+    }
+  }
+}
+
+function runCall(call: LLMToolCall, defs: ToolDef[], ctx: ToolContext, cfg: ToolsConfig): { status: ToolCallStatus; output: string } {
+  const def = defs.find((d) => d.name === call.name);
+  if (!def) return { status: "unknown_tool", output: `error: no tool named "${call.name}"` };
+  if (needsConfirmation(def, ctx.dim, cfg.confirm)) {
+    return {
+      status: "needs_confirmation",
+      output: `not run: calls in a ${ctx.dim} frame need the user's confirmation. Say what you would do and ask the user to confirm.`,
+    };
+  }
+  return executeTool(def, call.arguments, ctx);
+}
+
+// Approve (run now) or deny a held call. The outcome reaches the model on the next turn.
+export function resolvePendingTool(p: PendingToolCall, approve: boolean, ctx: ToolContext, cfg: ToolsConfig): PendingToolCall {
+  p.resolved_at = ctx.now;
+  if (!approve) {
+    p.status = "denied";
+    return p;
+  }
+  p.status = "approved";
+  const def = (BUILTIN_TOOLS as Record<string, ToolDef | undefined>)[p.name];
+  p.output = clip(def ? executeTool(def, p.arguments, ctx).output : `error: no tool named "${p.name}"`, cfg.max_output_chars);
+  return p;
+}
+
+// Resolved, not yet reported calls as a system note for the main prompt; marks them reported
+export function takeResolvedToolReport(pending: PendingToolCall[]): { text: string | null; reported: PendingToolCall[] } {
+  const ready = pending.filter((p) => p.status !== "pending" && !p.reported);
+  if (!ready.length) return { text: null, reported: [] };
+  for (const p of ready) p.reported = true;
+  const lines = ready.map((p) =>
+    p.status === "approved" ? `- ${p.name} ${p.arguments} → approved: ${p.output ?? ""}` : `- ${p.name} ${p.arguments} → denied by the user (not run)`
+  );
+  return { text: ["Tool calls the user reviewed since the last turn:", ...lines].join("\n"), reported: ready.map((p) => ({ ...p })) };
+}
+
+// keep at most `max` entries, dropping reported ones first, then the oldest
+export function trimPendingTools(pending: PendingToolCall[], max: number): void {
+  for (let i = 0; pending.length > max && i < pending.length; ) {
+    if (pending[i].reported) pending.splice(i, 1);
+    else i++;
+  }
+  if (pending.length > max) pending.splice(0, pending.length - max);
+}
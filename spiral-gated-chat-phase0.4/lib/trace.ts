@@ -0,0 +1,41 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { TokenLogprob } from "@/lib/types";
+
+// One recorded turn: enough to re-run the state pipeline offline without model calls.
+export type TurnTrace = {
+  session_id: string;
+  turn: number;
+  at: string;
+  user_text: string;
+  probe_text: string;
+  // first-line probe tokens (the only part the gate reads)
+  probe_logprobs: TokenLogprob[];
+  // extra ensemble samples (absent for single-probe turns)
+  probe_samples?: { probe_text: string; probe_logprobs: TokenLogprob[] }[];
+  // wall time of the primary probe call (fallback state signal; absent in older transcripts)
+  probe_latency_ms?: number;
+  pulse: { triggered: boolean; selected_probe: string | null };
+  state: number;
+};
+
+// SPIRAL_TRACE_DIR=<dir> records every turn to <dir>/<sessionId>.jsonl
+export async function appendTurnTrace(dir: string, trace: TurnTrace): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  const safeId = trace.session_id.replace(/[^A-Za-z0-9_.-]/g, "_");
+  await fs.appendFile(path.join(dir, `${safeId}.jsonl`), JSON.stringify(trace) + "\n");
+}
+
+export function parseTranscript(jsonl: string): TurnTrace[] {
+  return jsonl
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0)
+    .map((l, i) => {
+      try {
+        return JSON.parse(l) as TurnTrace;
+      } catch {
+        throw new Error(`transcript line ${i + 1}: invalid JSON`);
+      }
+    });
+}
@@ -0,0 +1,32 @@
+import type { StepDebug, TurnRecord } from "@/lib/types";
+
+// Per-session state timeline: one slim record per turn, newest last, at most memory.turn_log_max.
+
+export function toTurnRecord(debug: StepDebug): TurnRecord {
+  return {
+    turn: debug.turn,
+    state: debug.state,
+    raw_state: debug.metrics.raw_state,
+    state_source: debug.metrics.state_source,
+    zS: debug.metrics.zS,
+    zH: debug.metrics.zH,
+    score: debug.metrics.score,
+    dim: debug.dim,
+    focus: debug.focus,
+    next: debug.next,
+    meta_cap_stage: debug.meta.meta_cap_stage,
+    budgets: {
+      context_tokens: debug.memory.context_tokens,
+      max_output_tokens: debug.params.max_output_tokens,
+      summary_chars: debug.memory.summary_chars,
+      attn_items: debug.memory.attn_items,
+      frag_items: debug.memory.frag_items,
+    },
+    pulse: { triggered: debug.pulse.triggered, stagnation_detected: debug.pulse.stagnation_detected },
+  };
+}
+
+// Append and keep the newest `max` (0 keeps nothing; slice(-0) would keep everything)
+export function appendTurnRecord(log: TurnRecord[], record: TurnRecord, max: number): TurnRecord[] {
+  return max > 0 ? [...log, record].slice(-max) : [];
+}
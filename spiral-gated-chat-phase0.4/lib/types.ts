@@ -1,3 +1,11 @@
+import type { ContextAllocation } from "@/lib/contextBuilder";
+import type { TurnCost } from "@/lib/cost";
+import type { GateConfig, GateConfigOverrides } from "@/lib/gateConfig";
+import type { LLMPhase } from "@/lib/llm";
+import type { RouteDecision } from "@/lib/routing";
+import type { StagnationReport } from "@/lib/stagnation";
+import type { StateSignals } from "@/lib/stateSignals";
+
 export type TopTokenLogprob = {
   token: string;
   logprob: number;
@@ -41,8 +49,50 @@ export type GateState = {
   last_states: number[];
   // exploration pulse cooldown
   last_pulse_turn: number;
+  // DIMs proposed/picked by recent pulses, oldest first (absent until the first pulse)
+  pulse_log?: PulseProposal[];
+  // running baseline of log(1 + probe latency ms) for the fallback estimate (absent until measured)
+  L?: RunningStats;
+};
+
+export type FeedbackRating = "up" | "down" | "too_short" | "too_long";
+
+// What the gate decided on one turn (kept so a later rating can be judged against it)
+export type TurnSnapshot = {
+  turn: number;
+  score: number | null;
+  // raw state before calibration, and the settled state the budgets used
+  raw_state: number;
+  state: number;
+  state_source: StateSource;
+  max_output_tokens: number;
+  context_tokens: number;
+};
+
+// Per-session correction of the score → state mapping (identity: tau_scale 1, offset 0)
+export type StateCalibration = {
+  tau_scale: number;
+  offset: number;
+  ratings: number;
+};
+
+export type FeedbackEntry = TurnSnapshot & {
+  at: number; // epoch ms
+  rating: FeedbackRating;
+  before: StateCalibration;
+  after: StateCalibration;
 };
 
+export type FeedbackState = {
+  turns: TurnSnapshot[];
+  entries: FeedbackEntry[];
+  calibration: StateCalibration;
+};
+
+// Where this turn's raw state came from: probe logprobs, the heuristic fallback, both mixed, or
+// neither (previous state kept)
+export type StateSource = "logprobs" | "fallback" | "blended" | "held";
+
 export type MemoryMode = "LOW" | "MID" | "HIGH";
 
 export type AttentionLogEntry = {
@@ -63,14 +113,341 @@ export type MemoryFragment = {
   salience: number;
   // last turn injected/used (for light rehearsal)
   last_used_turn: number;
+  // relevance vector of `text` and the embedder that produced it (recomputed when either changes)
+  embedding?: number[];
+  embedding_model?: string;
+  // set from the fragment inspector: pinned notes skip decay/prune, edited text survives probe merges
+  pinned?: boolean;
+  edited?: boolean;
+  // set on notes extracted from the main exchange (absent = attention note from the probe frame)
+  kind?: NoteKind;
+  // merges absorbed by this fragment (count is lifetime; history keeps the latest few)
+  merge_count?: number;
+  merges?: FragmentMerge[];
+};
+
+export type FragmentMerge = {
+  turn: number;
+  key: string;
+  // incoming text at merge time
+  text: string;
+  // exact key match, or near-duplicate by token overlap / embedding cosine
+  via: "key" | "tokens" | "embedding";
+  similarity: number;
+};
+
+export type NoteKind = "fact" | "decision" | "constraint" | "todo";
+
+// One manual change made through the fragment inspector
+export type FragmentAction = {
+  at: number; // epoch ms
+  turn: number; // session turn when the change was made
+  action: "pin" | "unpin" | "edit" | "set_salience" | "delete";
+  id: string;
+  before: string | number | null;
+  after: string | number | null;
+};
+
+// Closed per-topic summary (see lib/summary.ts)
+export type SummarySegment = {
+  start_turn: number;
+  end_turn: number;
+  dim: string | null;
+  focus: string | null;
+  text: string;
+};
+
+// Summary work a turn leaves for the next one (run alongside its probe, so "done" never waits on it):
+// the exchange to fold into the layered summary, and/or the topic segment that was closed
+export type PendingSummary = {
+  turn: number;
+  update: { user_text: string; assistant_text: string; max_tokens: number } | null;
+  segment: { start_turn: number; end_turn: number; dim: string | null; focus: string | null } | null;
 };
 
 export type MemoryState = {
-  // one-line running summary (used in MID/HIGH modes)
+  // headline of the layered summary (short, one line)
   summary: string;
   summary_updated_turn: number;
+  // rolling paragraph-level summary, and closed topic segments (absent on older sessions)
+  summary_paragraph?: string;
+  summary_segments?: SummarySegment[];
+  // topic the current segment was opened on
+  summary_segment_open?: { start_turn: number; dim: string | null; focus: string | null };
+  // summary calls scheduled by the last turn (absent when none is due)
+  summary_pending?: PendingSummary;
   // recent attention frames (used in HIGH mode)
   attn_log: AttentionLogEntry[];
   // salience-ranked short memory fragments ("notes")
   fragments: MemoryFragment[];
+  // manual inspector actions, oldest first (absent on sessions saved before it existed)
+  fragment_actions?: FragmentAction[];
+  // last turn notes were extracted from the main exchange (absent = never)
+  notes_extracted_turn?: number;
+};
+
+export type ProbeFields = {
+  raw: string;
+  dim: string | null;
+  focus: string | null;
+  next: string | null;
+  why: string | null;
+  // self-rated difficulty 1–5 from the optional DIFF line (absent/null when not given)
+  difficulty?: number | null;
+};
+
+// How the probe output was obtained: exact format, recovered by normalization, valid only after a
+// repair retry, or unusable (DIM/FOCUS left null)
+export type ProbeQuality = "strict" | "lenient" | "repaired" | "invalid";
+
+export type EnsembleSampleDebug = {
+  dim: string | null;
+  surprisal: number | null;
+  entropy: number | null;
+  zS: number | null;
+  zH: number | null;
+  score: number | null;
+};
+
+export type EnsembleDebug = {
+  // samples[0] is the primary probe
+  samples: EnsembleSampleDebug[];
+  aggregate: "mean" | "median";
+  majority_dim: string | null;
+  // share of samples agreeing on majority_dim (null when no sample had a DIM)
+  agreement: number | null;
+  disagreement: number;
+  base_score: number | null;
+  disagreement_term: number;
+};
+
+// One exploration pulse: the frame it tried to leave, the DIMs it offered, and the one it switched to
+export type PulseProposal = {
+  turn: number;
+  from: string | null;
+  proposed: string[];
+  picked: string | null;
+};
+
+export type PulseCandidate = {
+  dim: string | null;
+  focus: string | null;
+  raw: string;
+  // verifier score 0-10 and its reason (null when not scored)
+  score: number | null;
+  reason: string | null;
+  // picks of this DIM in recent pulses, and the score after the repeat penalty
+  recent_picks: number;
+  final_score: number | null;
+  // set when the diversity filter removed the candidate before verification
+  dropped: "same_as_current" | "duplicate" | null;
+};
+
+export type PulseInfo = {
+  triggered: boolean;
+  stagnation_detected: boolean;
+  repeating_dim: string | null;
+  candidates_text: string | null;
+  // candidates asked for, and what came back (kept and dropped)
+  requested: number;
+  candidates: PulseCandidate[];
+  // how the pick was made: verifier scores, a bare "PICK: n", least-repeated DIM when the verifier
+  // output was unusable, or no verifier call (a single candidate left)
+  verifier: "scores" | "pick" | "fallback" | "skipped" | null;
+  // 1-based index into `candidates`
+  picked: number | null;
+  selected_probe: string | null;
+  // DIMs picked by the last pulses (what the repeat penalty counted)
+  recent_dims: string[];
+  // stagnation detectors' verdicts/evidence and the policy result (= stagnation_detected)
+  stagnation: StagnationReport;
+};
+
+// Outcome of one tool call in the main phase
+export type ToolCallStatus = "ok" | "error" | "unknown_tool" | "needs_confirmation";
+
+export type ToolCallRecord = {
+  id: string;
+  // tool-calling round (1-based) the call was made in
+  iteration: number;
+  name: string;
+  arguments: string;
+  status: ToolCallStatus;
+  // what the model was sent back (clipped to tools.max_output_chars)
+  output: string;
+  ms: number;
+};
+
+// A call held for the user's confirmation (see tools.confirm); resolved through the tools API
+export type PendingToolCall = {
+  id: string;
+  turn: number;
+  dim: string | null;
+  name: string;
+  arguments: string;
+  status: "pending" | "approved" | "denied";
+  // tool output once approved and run
+  output: string | null;
+  resolved_at: number | null; // epoch ms
+  // the outcome was passed to the model on a later turn
+  reported: boolean;
+};
+
+export type FragmentDebugItem = {
+  id: string;
+  turn: number;
+  dim: string | null;
+  salience: number;
+  // cosine similarity to the current user text / FOCUS (null when not ranked by relevance)
+  similarity: number | null;
+  // blended injection score (salience_weight * salience + similarity_weight * similarity)
+  score: number | null;
+  text: string;
+  pinned: boolean;
+  kind: NoteKind | null;
+  merge_count: number;
+};
+
+// Per-turn debug record produced by runStep (rendered by the ChatApp debug panel)
+export type StepDebug = {
+  turn: number;
+  probeText: string | null;
+  probeText_original: string | null;
+  dim: string | null;
+  focus: string | null;
+  next: string | null;
+  memory: {
+    // token budget for the main prompt, and the history messages that fit in it
+    context_tokens: number;
+    ctx_keep_msgs: number;
+    // per-section token budget/use (local estimate)
+    context: ContextAllocation;
+    summary_chars: number;
+    attn_items: number;
+    frag_items: number;
+    summary_update_interval: number;
+    summary_update_max_tokens: number;
+    extract_interval: number;
+    fragments: {
+      total: number;
+      decay_factor: number;
+      top_salience: number;
+      last_add: {
+        added: boolean;
+        merged: boolean;
+        id: string;
+        salience: number;
+        text: string;
+        fuzzy?: { via: "tokens" | "embedding"; similarity: number };
+      } | null;
+      // merges (exact or fuzzy) into existing fragments this turn, probe + extracted notes
+      merged_this_turn: number;
+      // embedder name, and whether injection used relevance (falls back to salience on embed failure)
+      embedder: string;
+      ranking: "salience+similarity" | "salience";
+      injected: FragmentDebugItem[];
+      top: FragmentDebugItem[];
+      // note extraction from the main exchange (null when disabled or not scheduled this turn)
+      extraction: {
+        notes: { kind: NoteKind; text: string; added: boolean; merged: boolean; salience: number }[];
+        issues: string[];
+      } | null;
+    };
+  };
+  probe: {
+    quality: ProbeQuality;
+    issues: string[];
+    repairs: number;
+  };
+  // multi-probe aggregation (null when the turn used a single probe)
+  ensemble: EnsembleDebug | null;
+  pulse: PulseInfo;
+  summary_used: string | null;
+  summary_stored: string | null;
+  summary_layers: {
+    // layers injected this turn (by summary_chars)
+    injected: ("headline" | "paragraph" | "segments")[];
+    paragraph: string | null;
+    segments: number;
+    open_segment: { start_turn: number; dim: string | null; focus: string | null } | null;
+    // set when this turn closed a topic segment
+    shift: string | null;
+  };
+  metrics: {
+    surprisal: number | null;
+    entropy: number | null;
+    zS: number | null;
+    zH: number | null;
+    score: number | null;
+    raw_state: number;
+    state_source: StateSource;
+    // heuristic estimate and its signals (null when the fallback is disabled)
+    fallback: { estimate: number | null; signals: StateSignals } | null;
+  };
+  state: number;
+  // per-session calibration from ratings, as applied this turn
+  calibration: StateCalibration & {
+    applied: boolean;
+    // raw state before calibration
+    uncalibrated: number;
+    // equivalent logprob sigmoid: state = sigmoid((score + score_offset) / tau)
+    tau: number;
+    score_offset: number;
+  };
+  meta: {
+    meta_cap_stage: number;
+    meta_cap: number | null;
+    recent_meta_share: number | null;
+  };
+  params: {
+    max_output_tokens: number;
+    temperature: number;
+    context_tokens: number;
+  };
+  // gate config used for this turn (preset + session overrides, fully resolved)
+  config: {
+    preset: string;
+    overrides: GateConfigOverrides | null;
+    resolved: GateConfig;
+  };
+  // tool calling in the main phase (max_iterations 0 = no tools offered this turn)
+  tools: {
+    offered: string[];
+    max_iterations: number;
+    iterations: number;
+    // calls in these frames wait for confirmation
+    confirm_required: boolean;
+    calls: ToolCallRecord[];
+    // confirmations resolved since the last turn, passed to the model this turn
+    reported: PendingToolCall[];
+  };
+  // model chosen for each phase called this turn
+  routing: Partial<Record<LLMPhase, RouteDecision>>;
+  // token usage / cost per phase and model, for this turn and the session so far
+  cost: TurnCost;
+  notes: string[];
+};
+
+// One turn of the state timeline as stored on the session (lib/turnLog.ts). Only what the timeline
+// and the turn inspector show: no prompts, probe text, logprobs or resolved config.
+export type TurnRecord = {
+  turn: number;
+  state: number;
+  raw_state: number;
+  state_source: StateSource;
+  zS: number | null;
+  zH: number | null;
+  score: number | null;
+  dim: string | null;
+  focus: string | null;
+  next: string | null;
+  meta_cap_stage: number;
+  budgets: {
+    context_tokens: number;
+    max_output_tokens: number;
+    summary_chars: number;
+    attn_items: number;
+    frag_items: number;
+  };
+  pulse: { triggered: boolean; stagnation_detected: boolean };
 };
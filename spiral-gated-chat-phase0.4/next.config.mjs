@@ -0,0 +1,9 @@
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+  experimental: {
+    // sql.js loads its .wasm from node_modules at runtime; keep it out of the server bundle
+    serverComponentsExternalPackages: ["sql.js"],
+  },
+};
+
+export default nextConfig;
@@ -0,0 +1,86 @@
+// Offline A/B replay of the gate over a recorded transcript (no model calls).
+//
+//   npm run replay -- .data/traces/<sessionId>.jsonl --set tight=params/tight.json --set deep=preset:deep [--json]
+//
+// Each --set is a named preset ("preset:<name>") or a JSON file of GateConfig overrides merged over
+// the default config; "default" is always included.
+import { readFileSync } from "node:fs";
+import {
+  DEFAULT_GATE_CONFIG,
+  GATE_PRESETS,
+  GateConfigSchema,
+  isGatePresetName,
+  mergeDeep,
+  type GateConfig,
+  type GateConfigOverrides,
+} from "@/lib/gateConfig";
+import { compareParamSets, type ReplaySet } from "@/lib/replay";
+import { parseTranscript } from "@/lib/trace";
+
+function usage(): never {
+  console.error("usage: replay <transcript.jsonl> [--set name=params.json]... [--json]");
+  process.exit(2);
+}
+
+function loadSet(source: string): GateConfig {
+  let patch: GateConfigOverrides;
+  if (source.startsWith("preset:")) {
+    const name = source.slice("preset:".length);
+    if (!isGatePresetName(name)) throw new Error(`unknown preset: ${name}`);
+    patch = GATE_PRESETS[name] as GateConfigOverrides;
+  } else {
+    patch = JSON.parse(readFileSync(source, "utf8")) as GateConfigOverrides;
+  }
+  return GateConfigSchema.parse(mergeDeep(DEFAULT_GATE_CONFIG, patch));
+}
+
+function fmt(n: number, digits = 3): string {
+  return n.toFixed(digits);
+}
+
+function main(argv: string[]) {
+  let transcriptPath: string | null = null;
+  let asJson = false;
+  const sets: ReplaySet[] = [{ name: "default", params: DEFAULT_GATE_CONFIG }];
+
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--json") asJson = true;
+    else if (a === "--set") {
+      const spec = argv[++i];
+      const eq = spec?.indexOf("=") ?? -1;
+      if (!spec || eq <= 0) usage();
+      sets.push({ name: spec.slice(0, eq), params: loadSet(spec.slice(eq + 1)) });
+    } else if (!transcriptPath) transcriptPath = a;
+    else usage();
+  }
+  if (!transcriptPath) usage();
+
+  const turns = parseTranscript(readFileSync(transcriptPath, "utf8"));
+  const cmp = compareParamSets(turns, sets);
+
+  if (asJson) {
+    console.log(JSON.stringify(cmp, null, 2));
+    return;
+  }
+
+  const header = ["turn", "rec", ...cmp.sets.map((n) => `${n}: state / maxTok / ctxTok / frag / pulse`)];
+  console.log(header.join(" | "));
+  for (const row of cmp.turns) {
+    const cells = row.results.map(
+      (r) =>
+        `${fmt(r.state)} / ${r.budgets.max_output_tokens} / ${r.budgets.context_tokens} / ${r.budgets.frag_items} / ` +
+        (r.pulse.applied ? "PULSE" : r.pulse.eligible ? "pulse?" : "-")
+    );
+    console.log([String(row.turn), fmt(row.results[0]?.recorded_state ?? 0), ...cells].join(" | "));
+  }
+  console.log("");
+  for (const t of cmp.totals) {
+    console.log(
+      `${t.name}: mean state ${fmt(t.mean_state)}, pulses ${t.pulses}, ` +
+        `mean maxTok ${fmt(t.mean_max_output_tokens, 1)}, mean ctxTok ${fmt(t.mean_context_tokens, 0)}`
+    );
+  }
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,118 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { buildContext, type ContextInput } from "@/lib/contextBuilder";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+import type { LLMMessage } from "@/lib/llm";
+import { elideMiddle, estimateTokens } from "@/lib/tokens";
+
+const cfg = DEFAULT_GATE_CONFIG.context;
+
+function words(n: number, w = "token"): string {
+  return Array.from({ length: n }, (_, i) => `${w}${i % 10}`).join(" ");
+}
+
+// oldest first; odd n ends on a user turn
+function history(n: number, len = 40): LLMMessage[] {
+  return Array.from({ length: n }, (_, i) => ({
+    role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+    content: `m${i} ${words(len)}`,
+  }));
+}
+
+function input(over: Partial<ContextInput>): ContextInput {
+  return {
+    budgetTokens: 2000,
+    cfg,
+    fixed: [{ role: "system", content: "You are helpful." }],
+    summary: { maxChars: 400, render: () => null },
+    attn: { maxItems: 0, render: () => "" },
+    fragments: { maxItems: 0, render: () => "" },
+    history: history(5),
+    ...over,
+  };
+}
+
+describe("estimateTokens", () => {
+  it("counts CJK per character and Latin words by length", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("日本語です")).toBe(5);
+    expect(estimateTokens("hello world")).toBe(3);
+  });
+});
+
+describe("elideMiddle", () => {
+  it("keeps head and tail and stays near the limit", () => {
+    const text = `HEAD ${words(400)} TAIL`;
+    const out = elideMiddle(text, 100);
+    expect(out.elided).toBeGreaterThan(0);
+    expect(out.text.startsWith("HEAD")).toBe(true);
+    expect(out.text.endsWith("TAIL")).toBe(true);
+    expect(out.text).toMatch(/tokens elided/);
+    fc.assert(
+      fc.property(fc.integer({ min: 20, max: 600 }), fc.integer({ min: 20, max: 300 }), (n, max) => {
+        expect(estimateTokens(elideMiddle(words(n), max).text)).toBeLessThanOrEqual(max + 2);
+      })
+    );
+  });
+
+  it("returns short texts unchanged", () => {
+    expect(elideMiddle("short text", 50)).toEqual({ text: "short text", elided: 0 });
+  });
+});
+
+describe("buildContext", () => {
+  it("always keeps the current user message, even with no budget left", () => {
+    const built = buildContext(input({ budgetTokens: 0, history: history(5) }));
+    expect(built.history).toHaveLength(1);
+    expect(built.history[0].content.startsWith("m4")).toBe(true);
+    expect(built.allocation.dropped_messages).toBe(4);
+  });
+
+  it("elides a long older message instead of dropping the turn", () => {
+    const h: LLMMessage[] = [
+      { role: "user", content: "first question" },
+      { role: "assistant", content: words(3000) },
+      { role: "user", content: "follow-up" },
+    ];
+    const built = buildContext(input({ budgetTokens: 4000, history: h }));
+    expect(built.history).toHaveLength(3);
+    expect(built.allocation.elided_messages).toBe(1);
+    expect(estimateTokens(built.history[1].content)).toBeLessThanOrEqual(cfg.max_message_tokens);
+  });
+
+  it("gives unused section shares to history and keeps every section within its budget", () => {
+    const bare = buildContext(input({ history: history(61) }));
+    const withSections = buildContext(
+      input({
+        history: history(61),
+        summary: { maxChars: 2000, render: (c) => words(Math.floor(c / 7)) },
+        attn: { maxItems: 20, render: (n) => words(n * 8, "attn") },
+        fragments: { maxItems: 20, render: (n) => words(n * 12, "frag") },
+      })
+    );
+    expect(bare.allocation.sections.history.budget).toBeGreaterThan(withSections.allocation.sections.history.budget);
+    for (const name of ["summary", "attn", "fragments", "history"] as const) {
+      const s = withSections.allocation.sections[name];
+      expect(s.used).toBeLessThanOrEqual(s.budget);
+    }
+    expect(withSections.allocation.used).toBeLessThanOrEqual(withSections.allocation.total);
+    expect(withSections.fragmentItems).toBeGreaterThan(0);
+  });
+
+  it("stays within the total budget for any history", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 300, max: 6000 }),
+        fc.array(fc.integer({ min: 1, max: 1500 }), { minLength: 1, maxLength: 30 }),
+        (budget, lens) => {
+          const h = lens.map((n, i) => ({ role: i % 2 ? ("assistant" as const) : ("user" as const), content: words(n) }));
+          // keep the current message small so the fixed floor for it does not dominate
+          h[h.length - 1] = { role: "user", content: "now?" };
+          const built = buildContext(input({ budgetTokens: budget, history: h }));
+          expect(built.allocation.used).toBeLessThanOrEqual(budget);
+          expect(built.history.at(-1)?.content).toBe("now?");
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { budgetPressure, costOf, createUsageMeter, emptySessionUsage, priceFor } from "@/lib/cost";
+import { DEFAULT_GATE_CONFIG, parseSessionGateConfig, resolveGateConfig } from "@/lib/gateConfig";
+import { createMockProvider } from "@/lib/mockProvider";
+
+const prices = {
+  "gpt-4.1": { input_per_1m: 2, output_per_1m: 8 },
+  "gpt-4.1-mini": { input_per_1m: 0.4, output_per_1m: 1.6 },
+};
+
+describe("priceFor / costOf", () => {
+  it("prefers an exact match, then the longest prefix", () => {
+    expect(priceFor("gpt-4.1", prices)).toBe(prices["gpt-4.1"]);
+    expect(priceFor("gpt-4.1-mini-2025-04-14", prices)).toBe(prices["gpt-4.1-mini"]);
+    expect(priceFor("claude-x", prices)).toBeNull();
+  });
+
+  it("prices per million tokens and treats unknown models as free", () => {
+    expect(costOf({ input_tokens: 1_000_000, output_tokens: 500_000 }, prices["gpt-4.1"])).toBeCloseTo(6);
+    expect(costOf({ input_tokens: 1000, output_tokens: 1000 }, null)).toBe(0);
+  });
+});
+
+describe("budgetPressure", () => {
+  const cfg = { ...DEFAULT_GATE_CONFIG.cost, max_cost_usd: 1, soft_ratio: 0.8, min_state_cap: 0.2 };
+
+  it("is inactive without limits", () => {
+    const b = budgetPressure({ ...emptySessionUsage(), cost_usd: 100 }, DEFAULT_GATE_CONFIG.cost);
+    expect(b).toMatchObject({ spent_ratio: null, pressure: 0, state_cap: 1, exhausted: false });
+  });
+
+  it("ramps the state cap down between soft_ratio and the limit", () => {
+    expect(budgetPressure({ ...emptySessionUsage(), cost_usd: 0.5 }, cfg).state_cap).toBe(1);
+    expect(budgetPressure({ ...emptySessionUsage(), cost_usd: 0.9 }, cfg).state_cap).toBeCloseTo(0.6);
+    const over = budgetPressure({ ...emptySessionUsage(), cost_usd: 1.5 }, cfg);
+    expect(over.state_cap).toBeCloseTo(0.2);
+    expect(over.exhausted).toBe(true);
+  });
+
+  it("uses whichever limit is closer to being hit", () => {
+    const b = budgetPressure(
+      { ...emptySessionUsage(), cost_usd: 0.1, input_tokens: 900, output_tokens: 100 },
+      { ...cfg, max_tokens: 1000 }
+    );
+    expect(b.spent_ratio).toBe(1);
+  });
+});
+
+describe("createUsageMeter", () => {
+  it("accumulates wrapped calls per phase and commits to the session ledger", async () => {
+    const meter = createUsageMeter(prices);
+    const provider = meter.wrap(createMockProvider({ seed: 1 }));
+    const base = { model: "gpt-4.1", input: [{ role: "user" as const, content: "hi there" }], temperature: 0 };
+    await provider.generate({ ...base, phase: "probe", max_output_tokens: 40 });
+    await provider.generate({ ...base, phase: "main", max_output_tokens: 40 });
+    await provider.generate({ ...base, phase: "main", max_output_tokens: 40 });
+
+    expect(meter.phases.probe?.calls).toBe(1);
+    expect(meter.phases.main?.calls).toBe(2);
+    expect(meter.turn.calls).toBe(3);
+    expect(meter.turn.cost_usd).toBeGreaterThan(0);
+
+    await provider.generate({ ...base, model: "gpt-4.1-mini", phase: "summary", max_output_tokens: 40 });
+    expect(meter.models["gpt-4.1"]).toMatchObject({ calls: 3, phases: ["probe", "main"] });
+    expect(meter.models["gpt-4.1-mini"]).toMatchObject({ calls: 1, phases: ["summary"] });
+
+    const ledger = emptySessionUsage();
+    meter.commit(ledger);
+    expect(ledger).toMatchObject({ calls: 4, turns: 1, cost_usd: meter.turn.cost_usd });
+    expect(ledger.models?.["gpt-4.1-mini"]?.calls).toBe(1);
+  });
+});
+
+describe("session config", () => {
+  it("cannot change the spend limits", () => {
+    expect(() => parseSessionGateConfig({ overrides: { cost: { max_cost_usd: null } } })).toThrow(/cost cannot be set per session/);
+    // sessions stored before the lock keep working, without the cost override
+    const resolved = resolveGateConfig({ overrides: { cost: { max_tokens: 1 } } as any });
+    expect(resolved.config.cost.max_tokens).toBe(DEFAULT_GATE_CONFIG.cost.max_tokens);
+    expect(resolved.overrides).toEqual({});
+  });
+});
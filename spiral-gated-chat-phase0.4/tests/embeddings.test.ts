@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { cosineSimilarity, createHashingEmbedder, embeddingTerms } from "@/lib/embeddings";
+
+describe("hashing embedder", () => {
+  const embedder = createHashingEmbedder();
+
+  it("splits latin words and CJK character bigrams", () => {
+    expect(embeddingTerms("Login flow, v2!")).toEqual(["login", "flow", "v2"]);
+    expect(embeddingTerms("認証フロー")).toEqual(["認証", "証フ", "フロ", "ロー"]);
+  });
+
+  it("is deterministic and unit-length", async () => {
+    const [a, b] = await embedder.embed(["login flow timeout", "login flow timeout"]);
+    expect(a).toEqual(b);
+    expect(Math.sqrt(a.reduce((s, x) => s + x * x, 0))).toBeCloseTo(1);
+  });
+
+  it("scores overlapping texts above unrelated ones", async () => {
+    const [q, near, far] = await embedder.embed([
+      "retry policy for the payment API",
+      "payment API retry with backoff",
+      "favourite pasta recipes",
+    ]);
+    expect(cosineSimilarity(q, near)).toBeGreaterThan(cosineSimilarity(q, far));
+  });
+
+  it("empty text embeds to a zero vector with similarity 0", async () => {
+    const [z, q] = await embedder.embed(["", "anything"]);
+    expect(cosineSimilarity(z, q)).toBe(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { runStep, type StepDeps } from "@/lib/engine";
+import { mergeDeep, resolveGateConfig, type GateConfigOverrides, type ResolvedGateConfig } from "@/lib/gateConfig";
+import { createMockProvider } from "@/lib/mockProvider";
+import { createSession } from "@/lib/sessionStore";
+import { computeBudgets } from "@/lib/statePipeline";
+
+// resolved defaults plus `over`, including the server-only sections a session cannot set
+function config(over: GateConfigOverrides = {}): ResolvedGateConfig {
+  const base = resolveGateConfig();
+  return { ...base, config: mergeDeep(base.config, over) };
+}
+
+function deps(over: Partial<StepDeps> = {}): StepDeps {
+  return { provider: createMockProvider({ seed: 7 }), model: "mock", prices: {}, config: config(), ...over };
+}
+
+describe("runStep debug record", () => {
+  it("describes the turn it ran", async () => {
+    const { assistantText, debug } = await runStep(createSession("s"), "plan the launch for next month", deps());
+    expect(assistantText).toContain("[mock]");
+    expect(debug.turn).toBe(1);
+    expect(debug.probe.quality).not.toBe("invalid");
+    expect(debug.dim).not.toBeNull();
+    expect(debug.focus).not.toBeNull();
+    expect(debug.metrics.state_source).toBe("logprobs");
+    expect(debug.state).toBeGreaterThanOrEqual(0);
+    expect(debug.state).toBeLessThanOrEqual(1);
+    expect(debug.routing.probe?.model).toBe("mock");
+    expect(debug.routing.main?.model).toBe("mock");
+    expect(debug.tools.max_iterations).toBe(0);
+    const phaseCalls = Object.values(debug.cost.phases).reduce((n, p) => n + (p?.calls ?? 0), 0);
+    expect(debug.cost.turn.calls).toBe(phaseCalls);
+    expect(debug.cost.session).toMatchObject({ calls: debug.cost.turn.calls, turns: 1 });
+  });
+
+  it("is reproducible for the same seed and messages", async () => {
+    const run = async () => {
+      const sess = createSession("s");
+      const d = deps();
+      const a = await runStep(sess, "plan the launch", d);
+      const b = await runStep(sess, "what about pricing?", d);
+      return [a, b].map((r) => ({ text: r.assistantText, state: r.debug.state, dim: r.debug.dim, focus: r.debug.focus }));
+    };
+    expect(await run()).toEqual(await run());
+  });
+});
+
+describe("runStep session updates", () => {
+  it("appends turn-tagged history and the frame to memory", async () => {
+    const sess = createSession("s");
+    const d = deps();
+    const first = await runStep(sess, "plan the launch", d);
+    const second = await runStep(sess, "what about pricing?", d);
+
+    expect(sess.turn).toBe(2);
+    expect(sess.history.map((m) => [m.role, m.turn])).toEqual([
+      ["user", 1],
+      ["assistant", 1],
+      ["user", 2],
+      ["assistant", 2],
+    ]);
+    expect(sess.history[3].content).toBe(second.assistantText);
+    expect(sess.memory.attn_log.map((e) => [e.turn, e.dim, e.focus])).toEqual([
+      [1, first.debug.dim, first.debug.focus],
+      [2, second.debug.dim, second.debug.focus],
+    ]);
+    expect(sess.memory.fragments.length).toBeGreaterThan(0);
+    expect(sess.gate.last_states).toEqual([first.debug.state, second.debug.state]);
+    expect(sess.gate.last_state).toBe(second.debug.state);
+    expect(sess.turn_log?.map((r) => r.turn)).toEqual([1, 2]);
+    expect(sess.feedback?.turns.map((t) => t.turn)).toEqual([1, 2]);
+    expect(sess.usage?.turns).toBe(2);
+  });
+
+  it("keeps attn_log and turn_log within their limits", async () => {
+    const sess = createSession("s");
+    const d = deps({ config: config({ memory: { attn_log_max: 2, turn_log_max: 0 } }) });
+    for (const text of ["one", "two", "three"]) await runStep(sess, text, d);
+    expect(sess.memory.attn_log.map((e) => e.turn)).toEqual([2, 3]);
+    expect(sess.turn_log).toEqual([]);
+  });
+});
+
+describe("runStep with the cost budget exhausted", () => {
+  const limited = config({
+    cost: { max_tokens: 1000 },
+    budgets: { summary_update_interval: { from: 1, to: 1 }, extract_interval: { from: 1, to: 1 } },
+    fragments: { extraction: { enabled: true } },
+  });
+
+  it("caps the state budgets and skips the optional calls", async () => {
+    const sess = createSession("s");
+    // turn 1 leaves a summary update for turn 2
+    await runStep(sess, "plan the launch", deps({ config: limited }));
+    expect(sess.memory.summary_pending?.turn).toBe(1);
+    sess.usage!.input_tokens = 1000;
+
+    const { debug } = await runStep(sess, "what about pricing?", deps({ config: limited }));
+    expect(debug.cost.budget).toMatchObject({ exhausted: true, pressure: 1 });
+    expect(debug.cost.budget.state_cap).toBeCloseTo(limited.config.cost.min_state_cap);
+    const budgetState = Math.min(debug.state, debug.cost.budget.state_cap);
+    expect(debug.memory.context_tokens).toBe(computeBudgets(budgetState, limited.config.budgets).context_tokens);
+    expect(debug.notes).toContain("cost budget exhausted → summary update for turn 1 skipped");
+    expect(debug.notes).toContain("cost budget exhausted → note extraction skipped");
+    expect(debug.memory.fragments.extraction).toBeNull();
+    expect(debug.cost.phases.summary).toBeUndefined();
+    expect(debug.cost.phases.extract).toBeUndefined();
+    expect(sess.memory.summary).toBe("");
+  });
+});
+
+describe("runStep summary scheduling", () => {
+  it("leaves the summary calls to the next turn", async () => {
+    const sess = createSession("s");
+    const d = deps({ config: config({ budgets: { summary_update_interval: { from: 1, to: 1 } } }) });
+    const first = await runStep(sess, "plan the launch", d);
+    expect(first.debug.cost.phases.summary).toBeUndefined();
+    expect(sess.memory.summary).toBe("");
+    expect(sess.memory.summary_pending).toMatchObject({
+      turn: 1,
+      update: { user_text: "plan the launch", assistant_text: first.assistantText },
+    });
+
+    const second = await runStep(sess, "what about pricing?", d);
+    expect(second.debug.cost.phases.summary?.calls).toBe(1);
+    expect(sess.memory.summary).not.toBe("");
+    expect(sess.memory.summary_updated_turn).toBe(1);
+    expect(sess.memory.summary_pending?.turn).toBe(2);
+  });
+});
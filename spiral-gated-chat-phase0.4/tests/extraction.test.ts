@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { noteFragmentKey, noteFragmentText, parseExtractedNotes } from "@/lib/extraction";
+import { decayFragments, makeFragmentKey } from "@/lib/fragments";
+import type { MemoryFragment } from "@/lib/types";
+
+describe("parseExtractedNotes", () => {
+  it("reads typed lines, tolerating markdown and list markers", () => {
+    const { notes, issues } = parseExtractedNotes(
+      "- **FACT**: the API runs on port 8080\n2. Decision: use Postgres\nTODO - add a migration test",
+      3
+    );
+    expect(notes).toEqual([
+      { kind: "fact", text: "the API runs on port 8080" },
+      { kind: "decision", text: "use Postgres" },
+      { kind: "todo", text: "add a migration test" },
+    ]);
+    expect(issues).toEqual([]);
+  });
+
+  it("keeps *, _ and backticks inside note text", () => {
+    const { notes } = parseExtractedNotes("* **FACT:** `MAX_RETRIES` is 3*2 in __init__.py\n- TODO: rename **all** callers", 3);
+    expect(notes).toEqual([
+      { kind: "fact", text: "`MAX_RETRIES` is 3*2 in __init__.py" },
+      { kind: "todo", text: "rename **all** callers" },
+    ]);
+  });
+
+  it("NONE yields no notes; unknown labels and overflow are reported", () => {
+    expect(parseExtractedNotes("NONE", 3)).toEqual({ notes: [], issues: [] });
+    const { notes, issues } = parseExtractedNotes("FACT: a\nIDEA: b\nFACT: c\nCONSTRAINT: d", 2);
+    expect(notes.map((n) => n.text)).toEqual(["a", "c"]);
+    expect(issues).toHaveLength(2);
+  });
+
+  it("note keys never collide with probe frame keys", () => {
+    const note = { kind: "fact" as const, text: "Login Flow" };
+    expect(noteFragmentKey(note)).not.toBe(makeFragmentKey({ dim: "FACT", focus: "login flow" }));
+    expect(noteFragmentText(note)).toBe("[FACT] Login Flow");
+  });
+});
+
+describe("type-specific decay", () => {
+  it("a lower decay_power keeps extracted notes longer than attention notes", () => {
+    const base = { key: "k", turn: 1, dim: null, focus: null, text: "t", last_used_turn: -999 };
+    const frags: MemoryFragment[] = [
+      { ...base, id: "attn", salience: 0.8 },
+      { ...base, id: "con", salience: 0.8, kind: "constraint" },
+      { ...base, id: "todo", salience: 0.8, kind: "todo" },
+    ];
+    const { factor } = decayFragments(frags, 0.2, undefined, { constraint: 0.25 });
+    expect(frags[0].salience).toBeCloseTo(0.8 * factor);
+    expect(frags[1].salience).toBeCloseTo(0.8 * Math.pow(factor, 0.25));
+    // kinds without a configured power decay like attention notes
+    expect(frags[2].salience).toBeCloseTo(frags[0].salience);
+  });
+});
@@ -0,0 +1,68 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { applyFeedback, calibrateState, emptyFeedbackState, identityCalibration, recordTurnSnapshot } from "@/lib/feedback";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+import type { TurnSnapshot } from "@/lib/types";
+
+const cfg = DEFAULT_GATE_CONFIG.feedback;
+
+function snap(turn: number, state = 0.4): TurnSnapshot {
+  return { turn, score: 0, raw_state: state, state, state_source: "logprobs", max_output_tokens: 200, context_tokens: 3000 };
+}
+
+describe("calibrateState", () => {
+  it("is the identity without ratings and stays monotone in [0,1]", () => {
+    expect(calibrateState(0.37, identityCalibration())).toBe(0.37);
+    const cal = { tau_scale: 1.7, offset: -0.8, ratings: 3 };
+    fc.assert(
+      fc.property(fc.double({ min: 0, max: 1, noNaN: true }), fc.double({ min: 0, max: 1, noNaN: true }), (a, b) => {
+        const [lo, hi] = a <= b ? [a, b] : [b, a];
+        const x = calibrateState(lo, cal);
+        expect(x).toBeGreaterThanOrEqual(0);
+        expect(calibrateState(hi, cal)).toBeGreaterThanOrEqual(x);
+      })
+    );
+  });
+
+  it("matches the logprob sigmoid with a scaled tau and shifted score", () => {
+    const tau = DEFAULT_GATE_CONFIG.state.tau;
+    const cal = { tau_scale: 1.4, offset: 0.5, ratings: 2 };
+    const score = 0.9;
+    const raw = 1 / (1 + Math.exp(-score / tau));
+    const expected = 1 / (1 + Math.exp(-(score + cal.offset * tau) / (tau * cal.tau_scale)));
+    expect(calibrateState(raw, cal)).toBeCloseTo(expected, 6);
+  });
+});
+
+describe("applyFeedback", () => {
+  it("moves the mapping towards the user's preferred depth", () => {
+    const fb = emptyFeedbackState();
+    recordTurnSnapshot(fb, snap(1), cfg.history_max);
+    recordTurnSnapshot(fb, snap(2), cfg.history_max);
+    const e1 = applyFeedback(fb, 1, "too_short", cfg, 0);
+    expect(e1?.after.offset).toBeGreaterThan(0);
+    expect(calibrateState(0.4, fb.calibration)).toBeGreaterThan(0.4);
+    applyFeedback(fb, 2, "down", cfg, 0);
+    expect(fb.calibration.tau_scale).toBeGreaterThan(1);
+    expect(fb.calibration.ratings).toBe(2);
+    expect(fb.entries.map((e) => e.rating)).toEqual(["too_short", "down"]);
+  });
+
+  it("keeps the calibration within bounds and ignores unknown turns", () => {
+    const fb = emptyFeedbackState();
+    for (let t = 1; t <= 40; t++) {
+      recordTurnSnapshot(fb, snap(t, 0.9), cfg.history_max);
+      applyFeedback(fb, t, "too_long", cfg, 0);
+    }
+    expect(fb.calibration.offset).toBeGreaterThanOrEqual(-cfg.offset_max);
+    expect(applyFeedback(fb, 999, "up", cfg, 0)).toBeNull();
+  });
+
+  it("stores the rating without calibrating when disabled", () => {
+    const fb = emptyFeedbackState();
+    recordTurnSnapshot(fb, snap(1), cfg.history_max);
+    const e = applyFeedback(fb, 1, "too_short", { ...cfg, enabled: false }, 0);
+    expect(e?.rating).toBe("too_short");
+    expect(fb.calibration).toEqual(identityCalibration());
+  });
+});
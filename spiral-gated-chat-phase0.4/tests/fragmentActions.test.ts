@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { deleteFragment, FragmentPatchSchema, listFragments, patchFragment } from "@/lib/fragmentActions";
+import { decayFragments, pruneFragments, upsertFragment } from "@/lib/fragments";
+import type { MemoryFragment, MemoryState } from "@/lib/types";
+
+function frag(over: Partial<MemoryFragment>): MemoryFragment {
+  return {
+    id: over.id ?? `f_${Math.random()}`,
+    key: over.key ?? "GOAL|x|",
+    turn: over.turn ?? 1,
+    dim: over.dim ?? "GOAL",
+    focus: over.focus ?? "x",
+    text: over.text ?? "(GOAL) x",
+    salience: over.salience ?? 0.5,
+    last_used_turn: -999,
+    ...over,
+  };
+}
+
+function memory(frags: MemoryFragment[]): MemoryState {
+  return { summary: "", summary_updated_turn: -1, attn_log: [], fragments: frags };
+}
+
+describe("patchFragment / deleteFragment", () => {
+  it("records one action per changed field and skips no-ops", () => {
+    const mem = memory([frag({ id: "a", text: "(GOAL) wrong focus", salience: 0.4, embedding: [1, 0] })]);
+    const actions = patchFragment(mem, "a", { pinned: true, text: "(GOAL)  right focus", salience: 0.4 }, 3, 1000);
+    expect(actions?.map((a) => a.action)).toEqual(["pin", "edit"]);
+    const f = mem.fragments[0];
+    expect(f).toMatchObject({ pinned: true, edited: true, text: "(GOAL) right focus" });
+    expect(f.embedding).toBeUndefined();
+    expect(mem.fragment_actions).toHaveLength(2);
+    expect(mem.fragment_actions?.[1]).toMatchObject({ turn: 3, at: 1000, before: "(GOAL) wrong focus" });
+
+    expect(patchFragment(mem, "a", { pinned: true }, 4)).toEqual([]);
+    expect(patchFragment(mem, "missing", { pinned: false }, 4)).toBeNull();
+  });
+
+  it("delete removes the fragment and logs its text", () => {
+    const mem = memory([frag({ id: "a" }), frag({ id: "b" })]);
+    expect(deleteFragment(mem, "a", 2)).toMatchObject({ action: "delete", id: "a", before: "(GOAL) x" });
+    expect(mem.fragments.map((f) => f.id)).toEqual(["b"]);
+    expect(deleteFragment(mem, "a", 2)).toBeNull();
+  });
+
+  it("lists pinned first and strips vectors", () => {
+    const mem = memory([frag({ id: "a", salience: 0.9, embedding: [1] }), frag({ id: "b", salience: 0.1, pinned: true })]);
+    const list = listFragments(mem);
+    expect(list.map((f) => f.id)).toEqual(["b", "a"]);
+    expect("embedding" in list[1]).toBe(false);
+  });
+
+  it("rejects empty or out-of-range patches", () => {
+    expect(FragmentPatchSchema.safeParse({}).success).toBe(false);
+    expect(FragmentPatchSchema.safeParse({ salience: 2 }).success).toBe(false);
+    expect(FragmentPatchSchema.safeParse({ text: "  " }).success).toBe(false);
+    expect(FragmentPatchSchema.safeParse({ salience: 0.7 }).success).toBe(true);
+  });
+});
+
+describe("pinned / edited fragments in the bank", () => {
+  it("pinned fragments skip decay and survive prune", () => {
+    const frags = [
+      frag({ id: "pin", salience: 0.01, turn: 0, pinned: true }),
+      frag({ id: "old", salience: 0.01, turn: 0 }),
+      frag({ id: "hi", salience: 0.9, turn: 0 }),
+    ];
+    decayFragments(frags, 0);
+    expect(frags[0].salience).toBe(0.01);
+    pruneFragments(frags, 20, 1);
+    expect(frags.map((f) => f.id).sort()).toEqual(["pin"]);
+  });
+
+  it("a probe merge keeps user-edited text", () => {
+    const frags = [frag({ id: "a", key: "GOAL|x|", text: "corrected", edited: true })];
+    upsertFragment(frags, { key: "GOAL|x|", turn: 5, dim: "GOAL", focus: "x", text: "(GOAL) x", salience: 0.3 }, 5);
+    expect(frags[0].text).toBe("corrected");
+    expect(frags[0].turn).toBe(5);
+  });
+});
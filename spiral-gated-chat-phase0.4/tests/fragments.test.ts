@@ -0,0 +1,210 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  decayFragments,
+  dimBonus,
+  embedFragments,
+  fragmentText,
+  makeFragmentKey,
+  pickTopFragments,
+  pruneFragments,
+  rankFragments,
+  salienceDecayFactor,
+  tokenOverlap,
+  upsertFragment,
+} from "@/lib/fragments";
+import { DEFAULT_DIMENSIONS } from "@/lib/dimensions";
+import { createHashingEmbedder } from "@/lib/embeddings";
+import type { MemoryFragment } from "@/lib/types";
+
+function frag(over: Partial<MemoryFragment>): MemoryFragment {
+  return {
+    id: over.id ?? `f_${Math.random()}`,
+    key: over.key ?? "GOAL|x|",
+    turn: over.turn ?? 1,
+    dim: over.dim ?? "GOAL",
+    focus: over.focus ?? "x",
+    text: over.text ?? "(GOAL) x",
+    salience: over.salience ?? 0.5,
+    last_used_turn: over.last_used_turn ?? -999,
+  };
+}
+
+describe("makeFragmentKey / fragmentText", () => {
+  it("keys are case/whitespace-insensitive on focus and next", () => {
+    expect(makeFragmentKey({ dim: "goal", focus: " Login Flow ", next: "Check" })).toBe(
+      makeFragmentKey({ dim: "GOAL", focus: "login flow", next: "check" })
+    );
+  });
+
+  it("fragment text is at most 160 chars", () => {
+    fc.assert(
+      fc.property(fc.string(), fc.string(), (focus, next) => {
+        expect(fragmentText({ dim: "GOAL", focus, next }).length).toBeLessThanOrEqual(160);
+      })
+    );
+  });
+});
+
+describe("upsertFragment", () => {
+  it("merges by key and bumps salience", () => {
+    const frags: MemoryFragment[] = [];
+    const a = upsertFragment(frags, { key: "k", turn: 1, dim: "GOAL", focus: "x", text: "old", salience: 0.4 }, 1);
+    const b = upsertFragment(frags, { key: "k", turn: 2, dim: "GOAL", focus: "x", text: "new", salience: 0.3 }, 2);
+    expect(a.added).toBe(true);
+    expect(b).toEqual({ added: false, merged: true, id: a.id });
+    expect(frags).toHaveLength(1);
+    expect(frags[0].text).toBe("new");
+    expect(frags[0].turn).toBe(2);
+    expect(frags[0].salience).toBeCloseTo(0.48, 12);
+  });
+
+  it("keeps keys unique and salience capped at 1.2 over any sequence", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ key: fc.constantFrom("a", "b", "c", "d"), salience: fc.double({ min: 0, max: 1.2, noNaN: true }) }), {
+          maxLength: 60,
+        }),
+        (ops) => {
+          const frags: MemoryFragment[] = [];
+          ops.forEach((op, turn) =>
+            upsertFragment(frags, { key: op.key, turn, dim: "GOAL", focus: op.key, text: op.key, salience: op.salience }, turn)
+          );
+          expect(new Set(frags.map((f) => f.key)).size).toBe(frags.length);
+          for (const f of frags) expect(f.salience).toBeLessThanOrEqual(1.2);
+        }
+      )
+    );
+  });
+});
+
+describe("decay / prune / pick", () => {
+  it("decay factor is monotonic in state within [0.55, 0.93]", () => {
+    expect(salienceDecayFactor(0)).toBeCloseTo(0.55, 12);
+    expect(salienceDecayFactor(1)).toBeCloseTo(0.93, 12);
+    fc.assert(
+      fc.property(fc.double({ min: 0, max: 1, noNaN: true }), fc.double({ min: 0, max: 1, noNaN: true }), (a, b) => {
+        const [lo, hi] = a <= b ? [a, b] : [b, a];
+        expect(salienceDecayFactor(lo)).toBeLessThanOrEqual(salienceDecayFactor(hi) + 1e-12);
+      })
+    );
+  });
+
+  it("decayFragments scales every salience by the factor", () => {
+    const frags = [frag({ salience: 1 }), frag({ salience: 0.5 })];
+    const { factor } = decayFragments(frags, 0);
+    expect(frags.map((f) => f.salience)).toEqual([factor, 0.5 * factor]);
+  });
+
+  it("prunes only notes that are both low-salience and old", () => {
+    const frags = [
+      frag({ id: "old-low", turn: 1, salience: 0.01 }),
+      frag({ id: "new-low", turn: 18, salience: 0.01 }),
+      frag({ id: "old-high", turn: 1, salience: 0.9 }),
+    ];
+    pruneFragments(frags, 20);
+    expect(frags.map((f) => f.id)).toEqual(["old-high", "new-low"]);
+  });
+
+  it("prune keeps at most maxKeep notes, highest salience first", () => {
+    fc.assert(
+      fc.property(fc.array(fc.double({ min: 0, max: 1.2, noNaN: true }), { maxLength: 80 }), fc.integer({ min: 1, max: 40 }), (sal, maxKeep) => {
+        const frags = sal.map((s, i) => frag({ id: `f${i}`, turn: 10, salience: s }));
+        pruneFragments(frags, 10, maxKeep);
+        expect(frags.length).toBeLessThanOrEqual(maxKeep);
+        for (let i = 1; i < frags.length; i++) expect(frags[i - 1].salience).toBeGreaterThanOrEqual(frags[i].salience);
+      })
+    );
+  });
+
+  it("pickTopFragments returns the k most salient without mutating the bank", () => {
+    const frags = [frag({ id: "a", salience: 0.2 }), frag({ id: "b", salience: 0.9 }), frag({ id: "c", salience: 0.5 })];
+    expect(pickTopFragments(frags, 0)).toEqual([]);
+    expect(pickTopFragments(frags, 2).map((f) => f.id)).toEqual(["b", "c"]);
+    expect(frags.map((f) => f.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("dimBonus uses the dimension registry and defaults to 0", () => {
+    expect(dimBonus("risk")).toBe(0.22);
+    expect(dimBonus(null)).toBe(0);
+    expect(dimBonus("SAFETY")).toBe(0);
+    const reg = {
+      ...DEFAULT_DIMENSIONS,
+      SAFETY: { label: "safety", description: "", salience_bonus: 0.3, state: { kind: "none" as const }, verifier: "prefer" as const },
+    };
+    expect(dimBonus("SAFETY", reg)).toBe(0.3);
+  });
+});
+
+describe("relevance ranking", () => {
+  const embedder = createHashingEmbedder();
+
+  it("a relevant note outranks a more salient off-topic one", async () => {
+    const frags = [
+      frag({ id: "off", text: "(GOAL) quarterly marketing budget", salience: 0.9 }),
+      frag({ id: "on", text: "(RISK) database migration rollback plan", salience: 0.5 }),
+    ];
+    await embedFragments(frags, embedder);
+    const [user, focus] = await embedder.embed(["how do we rollback the database migration?", "migration rollback"]);
+    const ranked = rankFragments(frags, { user, focus }, 2);
+    expect(ranked.map((r) => r.fragment.id)).toEqual(["on", "off"]);
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity ?? 0);
+  });
+
+  it("without a query it ranks like pickTopFragments", () => {
+    const frags = [frag({ id: "a", salience: 0.2 }), frag({ id: "b", salience: 0.9 }), frag({ id: "c", salience: 0.5 })];
+    const ranked = rankFragments(frags, null, 2);
+    expect(ranked.map((r) => r.fragment.id)).toEqual(pickTopFragments(frags, 2).map((f) => f.id));
+    expect(ranked.every((r) => r.similarity === null)).toBe(true);
+  });
+
+  it("re-embeds only notes whose text or embedder changed", async () => {
+    const frags = [frag({ id: "a", key: "GOAL|a|", text: "alpha" }), frag({ id: "b", key: "GOAL|b|", text: "beta" })];
+    expect(await embedFragments(frags, embedder)).toBe(2);
+    expect(await embedFragments(frags, embedder)).toBe(0);
+    upsertFragment(frags, { key: "GOAL|a|", turn: 2, dim: "GOAL", focus: "a", text: "alpha prime", salience: 0.4 }, 2);
+    expect(await embedFragments(frags, embedder)).toBe(1);
+    expect(await embedFragments(frags, createHashingEmbedder({ dims: 64 }))).toBe(2);
+  });
+});
+
+describe("fuzzy dedup", () => {
+  const dedup = { threshold: 0.75, embedding_threshold: null, history_max: 2 };
+  const incoming = (key: string, text: string, dim = "GOAL") => ({ key, turn: 2, dim, focus: null, text, salience: 0.3 });
+
+  it("filler words and the DIM header don't count", () => {
+    expect(tokenOverlap("(GOAL) login flow", "(GOAL) the login flow")).toBe(1);
+    expect(tokenOverlap("(GOAL) login flow", "(GOAL) billing export")).toBe(0);
+  });
+
+  it("merges near-duplicates of the same DIM and keeps history on the survivor", () => {
+    const frags = [frag({ id: "a", key: "GOAL|login flow|", text: "(GOAL) login flow" })];
+    const r = upsertFragment(frags, incoming("GOAL|the login flow|", "(GOAL) the login flow"), 2, dedup);
+    expect(r).toMatchObject({ merged: true, id: "a", fuzzy: { via: "tokens", similarity: 1 } });
+    expect(frags).toHaveLength(1);
+    expect(frags[0].merge_count).toBe(1);
+    expect(frags[0].merges?.[0]).toMatchObject({ turn: 2, via: "tokens", text: "(GOAL) the login flow" });
+
+    // other DIM, or no dedup options → separate fragment
+    expect(upsertFragment(frags, incoming("RISK|login flow|", "(RISK) login flow", "RISK"), 3, dedup).added).toBe(true);
+    expect(upsertFragment(frags, incoming("GOAL|a login flow|", "(GOAL) a login flow"), 3).added).toBe(true);
+  });
+
+  it("history is capped while the count keeps growing", () => {
+    const frags = [frag({ id: "a", key: "k", text: "(GOAL) x" })];
+    for (let t = 2; t <= 5; t++) upsertFragment(frags, { ...incoming("k", "(GOAL) x"), turn: t }, t, dedup);
+    expect(frags[0].merge_count).toBe(4);
+    expect(frags[0].merges?.map((m) => m.turn)).toEqual([4, 5]);
+  });
+
+  it("embedding threshold catches paraphrases token overlap misses", async () => {
+    const embedder = createHashingEmbedder();
+    const [v1, v2] = await embedder.embed(["(GOAL) database migration rollback plan", "(GOAL) plan the db migration rollback"]);
+    const frags = [{ ...frag({ id: "a", text: "(GOAL) database migration rollback plan" }), embedding: v1, embedding_model: embedder.name }];
+    const next = { ...incoming("GOAL|other|", "(GOAL) plan the db migration rollback"), embedding: v2, embedding_model: embedder.name };
+    expect(tokenOverlap(frags[0].text, next.text)).toBeLessThan(dedup.threshold);
+    expect(upsertFragment([...frags], next, 2, dedup).added).toBe(true);
+    const r = upsertFragment(frags, next, 2, { ...dedup, embedding_threshold: 0.4 });
+    expect(r.fuzzy?.via).toBe("embedding");
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { mergeSessionGateConfig, parseSessionGateConfig, resolveGateConfig } from "@/lib/gateConfig";
+
+describe("mergeSessionGateConfig", () => {
+  it("keeps stored overrides when only the preset changes", () => {
+    const stored = { preset: "default" as const, overrides: { state: { tau: 0.9 } } };
+    expect(mergeSessionGateConfig(stored, { preset: "deep" })).toEqual({ preset: "deep", overrides: { state: { tau: 0.9 } } });
+    expect(mergeSessionGateConfig(stored, { overrides: {} })).toEqual({ preset: "default", overrides: {} });
+  });
+});
+
+describe("session override limits", () => {
+  it("rejects values over the per-session caps and server-only sections", () => {
+    expect(() => parseSessionGateConfig({ overrides: { probe: { ensemble: { samples: 8 } } } })).toThrow(/probe.ensemble.samples/);
+    expect(() => parseSessionGateConfig({ overrides: { budgets: { max_output_tokens: { from: 100, to: 99999 } } } })).toThrow(
+      /budgets.max_output_tokens.to/
+    );
+    expect(() => parseSessionGateConfig({ overrides: { tools: { enabled: true } } })).toThrow(/tools cannot be set per session/);
+    expect(parseSessionGateConfig({ overrides: { memory: { turn_log_max: 20 } } }).overrides).toEqual({ memory: { turn_log_max: 20 } });
+  });
+
+  it("clamps over-limit values already stored on a session", () => {
+    const resolved = resolveGateConfig({ overrides: { fragments: { max_keep: 5000 }, tools: { enabled: true } } as any });
+    expect(resolved.config.fragments.max_keep).toBe(80);
+    expect(resolved.config.tools.enabled).toBe(false);
+  });
+});
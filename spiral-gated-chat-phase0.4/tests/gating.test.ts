@@ -0,0 +1,216 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  applyDimWeight,
+  approxEntropy,
+  createInitialGateState,
+  emaUpdate,
+  hysteresisUpdate,
+  meanSurprisal,
+  parseProbeFields,
+  shouldExplorationPulse,
+  sliceFirstLine,
+  updateStagnationBuffers,
+} from "@/lib/gating";
+import { resolveGateConfig } from "@/lib/gateConfig";
+import type { GateState, TokenLogprob } from "@/lib/types";
+
+// random per-token distributions: chosen token + up to 5 alternatives, total mass <= 1
+const tokenArb: fc.Arbitrary<TokenLogprob> = fc
+  .array(fc.double({ min: 0.001, max: 1, noNaN: true }), { minLength: 1, maxLength: 6 })
+  .chain((ws) =>
+    fc.double({ min: 0.05, max: 1, noNaN: true }).map((mass) => {
+      const sum = ws.reduce((a, b) => a + b, 0);
+      const ps = ws.map((w) => (w / sum) * mass);
+      return {
+        token: "t",
+        logprob: Math.log(ps[0]),
+        top_logprobs: ps.map((p, i) => ({ token: `t${i}`, logprob: Math.log(p) })),
+      };
+    })
+  );
+
+function gateWith(states: number[], dims: string[], focus: string[]): GateState {
+  const gs = createInitialGateState();
+  gs.last_states = states;
+  gs.last_dims = dims;
+  gs.last_focus = focus;
+  return gs;
+}
+
+describe("hysteresisUpdate", () => {
+  it("stays in [0,1] for any prev/raw", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        fc.double({ min: -5, max: 5, noNaN: true }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        (prev, raw, inertia) => {
+          const next = hysteresisUpdate(prev, raw, 0.62, 0.48, inertia);
+          expect(next).toBeGreaterThanOrEqual(0);
+          expect(next).toBeLessThanOrEqual(1);
+        }
+      )
+    );
+  });
+
+  it("keeps the previous state while raw is inside the band", () => {
+    fc.assert(
+      fc.property(fc.double({ min: 0, max: 1, noNaN: true }), fc.double({ min: 0.481, max: 0.619, noNaN: true }), (prev, raw) => {
+        expect(hysteresisUpdate(prev, raw)).toBeCloseTo(prev, 12);
+      })
+    );
+  });
+
+  it("moves toward raw outside the band", () => {
+    expect(hysteresisUpdate(0.3, 0.9)).toBeCloseTo(0.6 * 0.3 + 0.4 * 0.9, 12);
+    expect(hysteresisUpdate(0.7, 0.1)).toBeCloseTo(0.6 * 0.7 + 0.4 * 0.1, 12);
+  });
+});
+
+describe("approxEntropy", () => {
+  it("returns null without top_logprobs", () => {
+    expect(approxEntropy([])).toBeNull();
+    expect(approxEntropy([{ token: "a", logprob: -0.1 }])).toBeNull();
+  });
+
+  it("is ~0 for a certain token", () => {
+    expect(approxEntropy([{ token: "a", logprob: 0, top_logprobs: [{ token: "a", logprob: 0 }] }])).toBeCloseTo(0, 6);
+  });
+
+  it("counts residual probability mass as one extra outcome", () => {
+    // p=0.5 listed, 0.5 residual → H = ln 2
+    const H = approxEntropy([{ token: "a", logprob: Math.log(0.5), top_logprobs: [{ token: "a", logprob: Math.log(0.5) }] }]);
+    expect(H).toBeCloseTo(Math.log(2), 6);
+  });
+
+  it("is bounded by ln(k+1) for k listed alternatives", () => {
+    fc.assert(
+      fc.property(fc.array(tokenArb, { minLength: 1, maxLength: 20 }), (tokens) => {
+        const H = approxEntropy(tokens)!;
+        const kMax = Math.max(...tokens.map((t) => t.top_logprobs!.length));
+        expect(H).toBeGreaterThanOrEqual(-1e-6);
+        expect(H).toBeLessThanOrEqual(Math.log(kMax + 1) + 1e-6);
+      })
+    );
+  });
+});
+
+describe("meanSurprisal / sliceFirstLine", () => {
+  it("meanSurprisal is null for no tokens and non-negative otherwise", () => {
+    expect(meanSurprisal([])).toBeNull();
+    fc.assert(
+      fc.property(fc.array(tokenArb, { minLength: 1 }), (tokens) => {
+        expect(meanSurprisal(tokens)!).toBeGreaterThanOrEqual(0);
+      })
+    );
+  });
+
+  it("sliceFirstLine stops after the first newline token or maxTokens", () => {
+    const toks = ["DIM", ":", " RISK", "\n", "FOCUS"].map((token) => ({ token, logprob: -1 }));
+    expect(sliceFirstLine(toks).map((t) => t.token)).toEqual(["DIM", ":", " RISK", "\n"]);
+    expect(sliceFirstLine(toks, 2)).toHaveLength(2);
+  });
+});
+
+describe("emaUpdate", () => {
+  it("keeps variance positive and mean between old mean and sample", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -10, max: 10, noNaN: true }),
+        fc.double({ min: 0, max: 10, noNaN: true }),
+        fc.double({ min: -10, max: 10, noNaN: true }),
+        fc.double({ min: 0.001, max: 0.999, noNaN: true }),
+        (mean, v, x, eta) => {
+          const next = emaUpdate({ mean, var: v }, x, eta);
+          expect(next.var).toBeGreaterThan(0);
+          expect(next.mean).toBeGreaterThanOrEqual(Math.min(mean, x) - 1e-9);
+          expect(next.mean).toBeLessThanOrEqual(Math.max(mean, x) + 1e-9);
+        }
+      )
+    );
+  });
+});
+
+describe("parseProbeFields", () => {
+  it("parses the 4-line probe format", () => {
+    expect(parseProbeFields("DIM: risk\nFOCUS: login flow\nNEXT: check tokens\nWHY: it may leak")).toEqual({
+      dim: "RISK",
+      focus: "login flow",
+      next: "check tokens",
+      why: "it may leak",
+    });
+  });
+
+  it("returns nulls for missing fields", () => {
+    expect(parseProbeFields("nothing here")).toEqual({ dim: null, focus: null, next: null, why: null });
+  });
+});
+
+describe("applyDimWeight", () => {
+  it("boosts RISK more at low state", () => {
+    const gs = createInitialGateState();
+    const low = applyDimWeight(0.1, "RISK", gs).raw - 0.1;
+    const high = applyDimWeight(0.8, "RISK", gs).raw - 0.8;
+    expect(low).toBeGreaterThan(high);
+  });
+
+  it("caps META by the current stage", () => {
+    const gs = createInitialGateState();
+    expect(applyDimWeight(0.9, "META", gs).raw).toBe(0.55);
+    gs.meta_cap_stage = 2;
+    expect(applyDimWeight(0.9, "META", gs).raw).toBe(0.9);
+  });
+
+  it("follows the registry for custom DIMs", () => {
+    const gs = createInitialGateState();
+    const reg = resolveGateConfig({
+      overrides: {
+        dimensions: {
+          SAFETY: { label: "harm to people", description: "", salience_bonus: 0.3, state: { kind: "boost", at_low: 0.3, at_high: 0.3 }, verifier: "prefer" },
+          COST: { label: "spend", description: "", salience_bonus: 0, state: { kind: "cap", max: 0.4 }, verifier: "neutral" },
+        },
+      },
+    }).config.dimensions;
+    expect(applyDimWeight(0.2, "SAFETY", gs, reg).raw).toBeCloseTo(0.5);
+    expect(applyDimWeight(0.9, "COST", gs, reg).raw).toBe(0.4);
+    expect(applyDimWeight(0.9, "UNREGISTERED", gs, reg).raw).toBe(0.9);
+  });
+});
+
+describe("shouldExplorationPulse", () => {
+  const flat = Array(8).fill(0.3);
+
+  it("needs a full window of history", () => {
+    expect(shouldExplorationPulse(gateWith(flat.slice(0, 7), Array(7).fill("GOAL"), Array(7).fill("a")))).toBe(false);
+  });
+
+  it("fires on flat state, one DIM and at most two FOCUS values", () => {
+    const focus = ["a", "b", "a", "b", "a", "b", "a", "b"];
+    expect(shouldExplorationPulse(gateWith(flat, Array(8).fill("GOAL"), focus))).toBe(true);
+  });
+
+  it("does not fire when state moves", () => {
+    const states = [0.1, 0.5, 0.1, 0.5, 0.1, 0.5, 0.1, 0.5];
+    expect(shouldExplorationPulse(gateWith(states, Array(8).fill("GOAL"), Array(8).fill("a")))).toBe(false);
+  });
+
+  it("never fires when the window holds two different DIMs", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.constantFrom("GOAL", "RISK"), { minLength: 8, maxLength: 12 }).filter((d) => new Set(d.slice(-8)).size > 1),
+        (dims) => {
+          const n = dims.length;
+          expect(shouldExplorationPulse(gateWith(Array(n).fill(0.3), dims, Array(n).fill("a")))).toBe(false);
+        }
+      )
+    );
+  });
+
+  it("stagnation buffers are capped at maxLen", () => {
+    const gs = createInitialGateState();
+    for (let i = 0; i < 20; i++) updateStagnationBuffers(gs, "GOAL", `f${i}`, 0.3, 12);
+    expect(gs.last_dims).toHaveLength(12);
+    expect(gs.last_focus[0]).toBe("f8");
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import type { LLMRequest } from "@/lib/llm";
+import { createMockProvider } from "@/lib/mockProvider";
+
+function request(userText: string, temperature = 0.7): LLMRequest {
+  return { phase: "main", model: "mock", input: [{ role: "user", content: userText }], temperature, max_output_tokens: 40 };
+}
+
+describe("createMockProvider", () => {
+  it("varies back-to-back repeats but replays the same sequence identically", async () => {
+    const provider = createMockProvider({ seed: 7 });
+    const run = async () => {
+      const out: string[] = [];
+      for (const t of ["plan the launch", "plan the launch", "plan the launch", "and the risks?"]) {
+        out.push((await provider.generate(request(t))).text);
+      }
+      return out;
+    };
+    const first = await run();
+    expect(new Set(first.slice(0, 3)).size).toBeGreaterThan(1);
+    expect(await run()).toEqual(first);
+  });
+});
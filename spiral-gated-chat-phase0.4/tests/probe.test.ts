@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DIMENSIONS, normalizeDim } from "@/lib/dimensions";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+import { parseProbe } from "@/lib/probe";
+
+const limits = DEFAULT_GATE_CONFIG.probe;
+
+describe("parseProbe", () => {
+  it("reads the optional DIFF line without affecting quality", () => {
+    const p = parseProbe("DIM: GOAL\nFOCUS: schema design\nNEXT: list tables\nWHY: user asked\nDIFF: 4", limits);
+    expect(p.quality).toBe("strict");
+    expect(p.fields.difficulty).toBe(4);
+    expect(parseProbe("DIM: GOAL\nFOCUS: x\nNEXT: y\nWHY: z\nDIFF: 9", limits).fields.difficulty).toBeNull();
+    expect(parseProbe("DIM: GOAL\nFOCUS: x\nNEXT: y\nWHY: z", limits).fields.difficulty).toBeNull();
+  });
+
+  it("accepts the exact 4-line format as strict", () => {
+    const p = parseProbe("DIM: RISK\nFOCUS: login flow\nNEXT: check tokens\nWHY: it may leak", limits);
+    expect(p.quality).toBe("strict");
+    expect(p.issues).toEqual([]);
+    expect(p.fields).toMatchObject({ dim: "RISK", focus: "login flow", next: "check tokens", why: "it may leak" });
+  });
+
+  it("recovers labelled variants, markdown and JSON as lenient", () => {
+    const md = parseProbe("**Dimension**: risk\n- Focus: login flow\n- Next step = check tokens\n- Reason: leaks", limits);
+    expect(md.quality).toBe("lenient");
+    expect(md.fields.dim).toBe("RISK");
+    expect(md.fields.next).toBe("check tokens");
+
+    const json = parseProbe('{"DIM":"goal","focus":"ship v2","next":"cut scope","why":"deadline"}', limits);
+    expect(json.quality).toBe("lenient");
+    expect(json.fields).toMatchObject({ dim: "GOAL", focus: "ship v2" });
+  });
+
+  it("strips markdown around labels but keeps *, _ and backticks inside values", () => {
+    const p = parseProbe(
+      "**DIM:** **GOAL**\n* **FOCUS**: compute 12*7 in __init__.py\n- `NEXT`: check `a*b` and snake_case_name\n_WHY_: keep _all_ of it",
+      limits
+    );
+    expect(p.fields).toMatchObject({
+      dim: "GOAL",
+      focus: "compute 12*7 in __init__.py",
+      next: "check `a*b` and snake_case_name",
+      why: "keep _all_ of it",
+    });
+    const strict = parseProbe("DIM: GOAL\nFOCUS: x*y\nNEXT: run `make`\nWHY: __main__ fails", limits);
+    expect(strict).toMatchObject({ quality: "strict", fields: { focus: "x*y", next: "run `make`", why: "__main__ fails" } });
+  });
+
+  it("never lets an unknown DIM through", () => {
+    const p = parseProbe("DIM: VIBES\nFOCUS: mood\nNEXT: ask\nWHY: unclear", limits);
+    expect(p.quality).toBe("invalid");
+    expect(p.fields.dim).toBeNull();
+    expect(p.issues[0]).toMatch(/unknown DIM/);
+  });
+
+  it("bounds FOCUS/NEXT/WHY lengths", () => {
+    const long = "word ".repeat(60).trim();
+    const p = parseProbe(`DIM: GOAL\nFOCUS: ${long}\nNEXT: ${long}\nWHY: ${long}`, limits);
+    expect(p.quality).toBe("lenient");
+    expect(p.fields.focus!.length).toBeLessThanOrEqual(limits.focus_max_chars);
+    expect(p.fields.next!.length).toBeLessThanOrEqual(limits.next_max_chars);
+    expect(p.fields.why!.length).toBeLessThanOrEqual(limits.why_max_chars);
+  });
+
+  it("accepts DIMs added to the registry", () => {
+    const reg = {
+      ...DEFAULT_DIMENSIONS,
+      SAFETY: { label: "harm", description: "", salience_bonus: 0.3, state: { kind: "none" as const }, verifier: "prefer" as const },
+    };
+    const text = "DIM: SAFETY\nFOCUS: ladder use\nNEXT: ask height\nWHY: fall risk";
+    expect(parseProbe(text, limits).quality).toBe("invalid");
+    expect(parseProbe(text, limits, reg)).toMatchObject({ quality: "strict", fields: { dim: "SAFETY" } });
+  });
+
+  it("requires FOCUS", () => {
+    expect(parseProbe("DIM: GOAL\nNEXT: x\nWHY: y", limits).quality).toBe("invalid");
+  });
+
+  it("normalizeDim maps aliases and plurals", () => {
+    expect(normalizeDim("Risks", DEFAULT_DIMENSIONS)).toBe("RISK");
+    expect(normalizeDim("uncertain (maybe)", DEFAULT_DIMENSIONS)).toBe("UNCERTAINTY");
+    expect(normalizeDim("Goals", DEFAULT_DIMENSIONS)).toBe("GOAL");
+    expect(normalizeDim("", DEFAULT_DIMENSIONS)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+import { createInitialGateState } from "@/lib/gating";
+import { createMockProvider } from "@/lib/mockProvider";
+import { chooseCandidate, diversityFilter, parseVerifierScores, recentPulseDims, runExplorationPulse } from "@/lib/pulse";
+import type { ProbeFields, PulseCandidate } from "@/lib/types";
+
+const cfg = DEFAULT_GATE_CONFIG.pulse;
+const dims = DEFAULT_GATE_CONFIG.dimensions;
+
+function frame(dim: string, focus: string, next = "check it"): ProbeFields {
+  return { raw: `DIM: ${dim}\nFOCUS: ${focus}\nNEXT: ${next}\nWHY: it matters`, dim, focus, next, why: "it matters" };
+}
+
+function block(dim: string, focus: string, next = "check it"): string {
+  return frame(dim, focus, next).raw;
+}
+
+function cand(dim: string, final: number | null, recent = 0): PulseCandidate {
+  return { dim, focus: "x", raw: "", score: final, reason: null, recent_picks: recent, final_score: final, dropped: null };
+}
+
+describe("parseVerifierScores", () => {
+  it("reads score lines with reasons, in any order", () => {
+    const out = parseVerifierScores("SCORE 2: 8 | concrete\n**SCORE 1: 3/10 - vague**\nSCORE 7: 9 | out of range", 3);
+    expect(out.format).toBe("scores");
+    expect(out.scores).toEqual([{ score: 3, reason: "vague" }, { score: 8, reason: "concrete" }, null]);
+  });
+
+  it("falls back to PICK, then to nothing", () => {
+    expect(parseVerifierScores("PICK: 2", 3)).toMatchObject({ format: "pick", pick: 2 });
+    expect(parseVerifierScores("PICK: 5", 3).format).toBe("none");
+    expect(parseVerifierScores("I like the second one", 3).format).toBe("none");
+  });
+});
+
+describe("diversityFilter", () => {
+  it("drops rewordings of the current frame and of earlier candidates, keeps other DIMs", () => {
+    const current = frame("GOAL", "launch date plan");
+    const out = diversityFilter(
+      [
+        frame("GOAL", "the launch date plan"),
+        frame("RISK", "launch date slip"),
+        frame("RISK", "the launch date slip"),
+        frame("NOVELTY", "launch date plan"),
+      ],
+      current,
+      cfg.diversity_threshold
+    );
+    expect(out).toEqual(["same_as_current", null, "duplicate", null]);
+  });
+});
+
+describe("chooseCandidate", () => {
+  it("takes the best final score, skipping dropped ones, and respects min_score", () => {
+    const cands = [cand("GOAL", 6), { ...cand("RISK", 9), dropped: "duplicate" as const }, cand("META", 7)];
+    const verdict = { scores: [], format: "scores" as const, pick: null };
+    expect(chooseCandidate(cands, verdict, cfg)).toBe(2);
+    expect(chooseCandidate(cands, verdict, { ...cfg, min_score: 8 })).toBeNull();
+  });
+
+  it("without scores prefers the least recently picked DIM", () => {
+    const cands = [cand("GOAL", null, 2), cand("META", null, 0), cand("RISK", null, 0)];
+    expect(chooseCandidate(cands, { scores: [], format: "none", pick: null }, cfg)).toBe(1);
+  });
+});
+
+describe("runExplorationPulse", () => {
+  const args = (script: { phase: "exploration" | "verify"; text: string }[], gs = createInitialGateState()) => ({
+    provider: createMockProvider({ script }),
+    modelFor: () => "mock",
+    gs,
+    turn: 9,
+    userText: "what should we do about the launch",
+    current: frame("GOAL", "launch plan"),
+    eligibility: {
+      stagnation_detected: true,
+      repeating_dim: "GOAL",
+      eligible: true,
+      stagnation: { mode: "any" as const, score: 1, threshold: 1, stagnant: true, verdicts: [] },
+    },
+    cfg,
+    limits: DEFAULT_GATE_CONFIG.probe,
+    dims,
+  });
+
+  it("penalizes DIMs earlier pulses already switched to", async () => {
+    const gs = createInitialGateState();
+    gs.pulse_log = [{ turn: 2, from: "GOAL", proposed: ["RISK", "META"], picked: "RISK" }];
+    const res = await runExplorationPulse(
+      args(
+        [
+          { phase: "exploration", text: [block("RISK", "launch slip"), block("META", "how we decide")].join("\n\n") },
+          { phase: "verify", text: "SCORE 1: 8 | concrete\nSCORE 2: 7 | useful" },
+        ],
+        gs
+      )
+    );
+    expect(res.info.candidates.map((c) => c.final_score)).toEqual([8 - cfg.proposals.repeat_penalty, 7]);
+    expect(res.selected?.dim).toBe("META");
+    expect(res.info).toMatchObject({ triggered: true, picked: 2, verifier: "scores", recent_dims: ["RISK"] });
+    expect(recentPulseDims(gs.pulse_log, 4)).toEqual(["RISK", "META"]);
+  });
+
+  it("skips the verifier when only one candidate is left", async () => {
+    const res = await runExplorationPulse(
+      args([{ phase: "exploration", text: [block("RISK", "launch slip"), block("RISK", "the launch slip")].join("\n\n") }])
+    );
+    expect(res.info.verifier).toBe("skipped");
+    expect(res.info.candidates.map((c) => c.dropped)).toEqual([null, "duplicate"]);
+    expect(res.selected?.dim).toBe("RISK");
+  });
+});
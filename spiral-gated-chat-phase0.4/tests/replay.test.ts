@@ -0,0 +1,63 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { runStep } from "@/lib/engine";
+import { DEFAULT_GATE_CONFIG, mergeDeep, resolveGateConfig } from "@/lib/gateConfig";
+import { createInitialGateState } from "@/lib/gating";
+import { createMockProvider } from "@/lib/mockProvider";
+import { compareParamSets } from "@/lib/replay";
+import { createSession } from "@/lib/sessionStore";
+import { computeBudgets } from "@/lib/statePipeline";
+import { appendTurnTrace, parseTranscript, type TurnTrace } from "@/lib/trace";
+
+const MESSAGES = [
+  "plan the launch for next month",
+  "what could go wrong with the vendor contract?",
+  "ok",
+  "compare two pricing models and their risks for small teams",
+  "thanks",
+];
+
+// a session played with the seeded mock, recorded the way /api/step does (SPIRAL_TRACE_DIR)
+async function recordTranscript(): Promise<TurnTrace[]> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "spiral-trace-"));
+  try {
+    const sess = createSession("rec");
+    const deps = { provider: createMockProvider({ seed: 11 }), model: "mock", prices: {}, config: resolveGateConfig() };
+    for (const text of MESSAGES) await appendTurnTrace(dir, (await runStep(sess, text, deps)).trace);
+    return parseTranscript(await fs.readFile(path.join(dir, "rec.jsonl"), "utf8"));
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe("replay of a recorded transcript", () => {
+  it("reproduces the recorded states, and shows the diff under another GateConfig", async () => {
+    const traces = await recordTranscript();
+    expect(traces.map((t) => t.turn)).toEqual([1, 2, 3, 4, 5]);
+
+    // full inertia: the state never leaves its initial value; budgets follow it
+    const sticky = mergeDeep(DEFAULT_GATE_CONFIG, {
+      state: { hysteresis: { inertia: 1 } },
+      budgets: { max_output_tokens: { from: 200, to: 200 } },
+    });
+    const cmp = compareParamSets(traces, [
+      { name: "recorded", params: resolveGateConfig().config },
+      { name: "sticky", params: sticky },
+    ]);
+    expect(cmp.sets).toEqual(["recorded", "sticky"]);
+
+    const initial = createInitialGateState().last_state;
+    for (const { results } of cmp.turns) {
+      const [base, variant] = results;
+      expect(base.state).toBeCloseTo(base.recorded_state, 9);
+      expect(variant.state).toBe(initial);
+      expect(variant.budgets.context_tokens).toBe(computeBudgets(initial, sticky.budgets).context_tokens);
+      expect(variant.budgets.max_output_tokens).toBe(200);
+    }
+    expect(cmp.turns.some((t) => t.results[0].state !== initial)).toBe(true);
+    expect(cmp.totals[1]).toMatchObject({ mean_state: initial, mean_max_output_tokens: 200 });
+    expect(cmp.totals[0].mean_state).not.toBeCloseTo(initial, 3);
+  });
+});
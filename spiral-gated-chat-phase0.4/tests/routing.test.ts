@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_GATE_CONFIG,
+  GATE_PRESETS,
+  GateConfigSchema,
+  mergeDeep,
+  parseSessionGateConfig,
+  resolveGateConfig,
+  type GateConfigOverrides,
+} from "@/lib/gateConfig";
+import { capabilitiesFor, routeModel, type RoutingConfig } from "@/lib/routing";
+
+const cfg: RoutingConfig = {
+  models: { "gpt-4.1": { logprobs: true }, o3: { logprobs: false } },
+  routes: [
+    { phases: ["probe", "summary"], min_state: 0, max_state: 1, model: "o3-mini" },
+    { phases: ["probe", "verify", "summary"], min_state: 0, max_state: 1, model: "gpt-4.1-mini" },
+    { phases: ["main"], min_state: 0.7, max_state: 1, model: "o3" },
+  ],
+};
+
+describe("capabilitiesFor", () => {
+  it("uses the longest prefix and assumes unlisted models are capable", () => {
+    expect(capabilitiesFor("o3-mini-2025-01-31", cfg.models).logprobs).toBe(false);
+    expect(capabilitiesFor("gpt-4.1-nano", cfg.models).logprobs).toBe(true);
+    expect(capabilitiesFor("some-local-model", cfg.models).logprobs).toBe(true);
+  });
+});
+
+describe("routeModel", () => {
+  it("takes the first matching route by phase and state, else the deployment model", () => {
+    expect(routeModel("summary", 0.3, "gpt-4.1", cfg)).toMatchObject({ model: "o3-mini", route: 0 });
+    expect(routeModel("main", 0.8, "gpt-4.1", cfg)).toMatchObject({ model: "o3", route: 2 });
+    expect(routeModel("main", 0.5, "gpt-4.1", cfg)).toMatchObject({ model: "gpt-4.1", route: null, skipped: [] });
+  });
+
+  it("skips routes whose model lacks logprobs for the probe", () => {
+    const r = routeModel("probe", 0.3, "gpt-4.1", cfg);
+    expect(r).toMatchObject({ model: "gpt-4.1-mini", route: 1 });
+    expect(r.skipped).toEqual([{ route: 0, model: "o3-mini", missing: ["logprobs"] }]);
+  });
+});
+
+describe("routing config", () => {
+  it("validates the presets and rejects inverted state ranges", () => {
+    expect(() => GateConfigSchema.parse(mergeDeep(DEFAULT_GATE_CONFIG, GATE_PRESETS.frugal as GateConfigOverrides))).not.toThrow();
+    const bad = mergeDeep(DEFAULT_GATE_CONFIG, {
+      routing: { routes: [{ phases: ["main"], min_state: 0.8, max_state: 0.2, model: "x" }] },
+    });
+    expect(GateConfigSchema.safeParse(bad).success).toBe(false);
+  });
+
+  it("takes routes from the presets, never from session overrides", () => {
+    const routes = [{ phases: ["main"], min_state: 0, max_state: 1, model: "o1-pro" }];
+    expect(() => parseSessionGateConfig({ overrides: { routing: { routes } } })).toThrow(/routing cannot be set per session/);
+    expect(resolveGateConfig({ preset: "frugal" }).config.routing.routes).toEqual(GATE_PRESETS.frugal.routing.routes);
+  });
+});
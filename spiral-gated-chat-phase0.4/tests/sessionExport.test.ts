@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { runStep } from "@/lib/engine";
+import { createMockProvider } from "@/lib/mockProvider";
+import { SESSION_EXPORT_FORMAT, SESSION_EXPORT_VERSION, exportSession, importSession } from "@/lib/sessionExport";
+import { createSession, type Session } from "@/lib/sessionStore";
+
+async function playedSession(): Promise<Session> {
+  const sess = createSession("orig");
+  sess.config = { preset: "deep", overrides: { budgets: { summary_update_interval: { from: 1, to: 1 } } } };
+  const deps = { provider: createMockProvider({ seed: 3 }), model: "mock", prices: {} };
+  for (const text of ["plan the launch", "what about pricing?"]) await runStep(sess, text, deps);
+  return sess;
+}
+
+// an exported document as it arrives over the wire
+async function exported(edit: (doc: any) => void = () => {}): Promise<unknown> {
+  const doc = JSON.parse(JSON.stringify(exportSession(await playedSession())));
+  edit(doc);
+  return doc;
+}
+
+describe("exportSession / importSession", () => {
+  it("round-trips a played session under the new id", async () => {
+    const sess = await playedSession();
+    const { session, migratedFrom } = importSession(JSON.parse(JSON.stringify(exportSession(sess))), "copy");
+    expect(migratedFrom).toBeNull();
+    expect(session.id).toBe("copy");
+    const { id: _a, updated_at: _b, ...rest } = session;
+    const { id: _c, updated_at: _d, ...orig } = sess;
+    expect(rest).toEqual(orig);
+    expect(session.turn_log?.map((r) => r.turn)).toEqual([1, 2]);
+    expect(session.memory.summary_pending?.turn).toBe(2);
+  });
+
+  it("rejects other formats and versions newer than this build", async () => {
+    const other = await exported((d) => (d.format = "other/app"));
+    expect(() => importSession(other, "x")).toThrow(/Unsupported export format/);
+    const newer = await exported((d) => (d.version = SESSION_EXPORT_VERSION + 1));
+    expect(() => importSession(newer, "x")).toThrow(
+      `Export version ${SESSION_EXPORT_VERSION + 1} is newer than supported version ${SESSION_EXPORT_VERSION}`
+    );
+    const stringVersion = await exported((d) => (d.version = "1"));
+    expect(() => importSession(stringVersion, "x")).toThrow(/Invalid export version/);
+    expect(() => importSession(null, "x")).toThrow(/must be a JSON object/);
+  });
+
+  it("re-validates the gate config like /api/step does", async () => {
+    const serverOnly = await exported((d) => (d.session.config = { overrides: { cost: { max_cost_usd: 100 } } }));
+    expect(() => importSession(serverOnly, "x")).toThrow(/^Invalid session export at session.config: .*cost cannot be set per session/);
+    const overLimit = await exported((d) => (d.session.config = { overrides: { probe: { ensemble: { samples: 50 } } } }));
+    expect(() => importSession(overLimit, "x")).toThrow(/^Invalid session export at session.config: .*probe\.ensemble\.samples/);
+    const unknown = await exported((d) => (d.session.config = { overrides: { budgets: { nope: 1 } } }));
+    expect(() => importSession(unknown, "x")).toThrow(/^Invalid session export at session.config/);
+  });
+
+  it("names the first invalid field", async () => {
+    const badTurn = await exported((d) => (d.session.turn = -1));
+    expect(() => importSession(badTurn, "x")).toThrow(/^Invalid session export at session\.turn:/);
+    const badRecord = await exported((d) => delete d.session.turn_log[0].budgets);
+    expect(() => importSession(badRecord, "x")).toThrow(/^Invalid session export at session\.turn_log\.0\.budgets:/);
+    const noDate = await exported((d) => delete d.exported_at);
+    expect(() => importSession(noDate, "x")).toThrow(/^Invalid session export at exported_at:/);
+  });
+
+  it("exports a self-describing document", async () => {
+    const doc = exportSession(createSession("s"));
+    expect(doc).toMatchObject({ format: SESSION_EXPORT_FORMAT, version: SESSION_EXPORT_VERSION });
+    expect(Number.isNaN(Date.parse(doc.exported_at))).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createSession, evictSessions, type Session, type SessionStore } from "@/lib/sessionStore";
+import { createFileSessionStore } from "@/lib/sessionStoreFile";
+import { createSqliteSessionStore } from "@/lib/sessionStoreSqlite";
+
+let dir = "";
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "spiral-store-"));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function session(id: string, updated_at: number): Session {
+  const s = createSession(id);
+  s.updated_at = updated_at;
+  return s;
+}
+
+const kinds: [string, (file: string) => SessionStore][] = [
+  ["file", createFileSessionStore],
+  ["sqlite", createSqliteSessionStore],
+];
+
+describe.each(kinds)("%s session store", (kind, create) => {
+  let n = 0;
+  const file = () => path.join(dir, `${kind}-${++n}`);
+
+  it("round-trips a session through a fresh store on the same file", async () => {
+    const f = file();
+    const sess = session("a", 1000);
+    sess.turn = 3;
+    sess.history.push({ role: "user", content: "plan the launch", turn: 3 });
+    sess.memory.attn_log.push({ turn: 3, dim: "GOAL", focus: "launch plan", next: null });
+    sess.config = { preset: "deep", overrides: { memory: { turn_log_max: 5 } } };
+    await create(f).save(sess);
+
+    const reopened = create(f);
+    expect(await reopened.get("a")).toEqual(sess);
+    expect(await reopened.get("missing")).toBeNull();
+    expect(await reopened.list()).toEqual([{ id: "a", turn: 3, updated_at: 1000 }]);
+  });
+
+  it("does not hand out the stored object", async () => {
+    const store = create(file());
+    await store.save(session("a", 1000));
+    const got = (await store.get("a"))!;
+    got.turn = 99;
+    expect((await store.get("a"))!.turn).toBe(0);
+  });
+
+  it("deletes, and reports whether anything was deleted", async () => {
+    const f = file();
+    const store = create(f);
+    await store.save(session("a", 1000));
+    expect(await store.delete("a")).toBe(true);
+    expect(await store.delete("a")).toBe(false);
+    expect(await create(f).get("a")).toBeNull();
+  });
+
+  it("evicts idle sessions by TTL, then the least recently used over the max count", async () => {
+    const f = file();
+    const store = create(f);
+    for (const [id, at] of [["old", 0], ["b", 8_000], ["c", 9_000], ["d", 10_000]] as const) await store.save(session(id, at));
+
+    expect(await evictSessions(store, { ttlMs: 5_000, maxSessions: null }, 10_000)).toEqual(["old"]);
+    expect(await evictSessions(store, { ttlMs: null, maxSessions: 2 }, 10_000)).toEqual(["b"]);
+    expect(await evictSessions(store, { ttlMs: null, maxSessions: null }, 10_000)).toEqual([]);
+    const left = (await create(f).list()).map((s) => s.id).sort();
+    expect(left).toEqual(["c", "d"]);
+  });
+});
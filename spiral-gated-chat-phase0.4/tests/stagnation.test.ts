@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+import { createInitialGateState } from "@/lib/gating";
+import { pulseEligibility } from "@/lib/pulse";
+import { charNgrams, detectStagnation, jaccard, type StagnationConfig, type StagnationInput } from "@/lib/stagnation";
+import type { GateState } from "@/lib/types";
+
+const cfg = DEFAULT_GATE_CONFIG.pulse.stagnation;
+
+function gate(states: number[], focus: string[], dim = "GOAL"): GateState {
+  const gs = createInitialGateState();
+  gs.last_states = states;
+  gs.last_focus = focus;
+  gs.last_dims = focus.map(() => dim);
+  gs.last_state = states[states.length - 1] ?? gs.last_state;
+  return gs;
+}
+
+function input(over: Partial<StagnationInput> = {}): StagnationInput {
+  return { gs: createInitialGateState(), userTexts: [], assistantTexts: [], ...over };
+}
+
+// only the named detector enabled, with weight 1
+function only(name: keyof StagnationConfig["detectors"], base: StagnationConfig = cfg): StagnationConfig {
+  const detectors = Object.fromEntries(
+    Object.entries(base.detectors).map(([k, d]) => [k, { ...d, enabled: k === name, weight: 1 }])
+  ) as StagnationConfig["detectors"];
+  return { ...base, detectors, policy: { mode: "any", threshold: 1 } };
+}
+
+// every detector on, with the default weights
+const allOn: StagnationConfig = {
+  ...cfg,
+  detectors: Object.fromEntries(
+    Object.entries(cfg.detectors).map(([k, d]) => [k, { ...d, enabled: true }])
+  ) as StagnationConfig["detectors"],
+};
+
+describe("n-gram helpers", () => {
+  it("measures overlap case- and punctuation-insensitively", () => {
+    expect(jaccard(charNgrams("Launch plan!", 3), charNgrams("launch plan", 3))).toBe(1);
+    expect(jaccard(charNgrams("", 3), charNgrams("abc", 3))).toBe(0);
+  });
+});
+
+describe("detectors", () => {
+  it("reports not available until there is enough history", () => {
+    const report = detectStagnation(input(), allOn);
+    expect(report.verdicts.every((v) => !v.available && !v.stagnant)).toBe(true);
+    expect(report.stagnant).toBe(false);
+  });
+
+  it("focus_overlap fires on reworded FOCUS values only", () => {
+    const c = only("focus_overlap");
+    const same = gate([0.3, 0.3, 0.3, 0.3], ["launch date plan", "the launch date plan", "launch date plans", "launch date plan"]);
+    const moving = gate([0.3, 0.3, 0.3, 0.3], ["launch date", "pricing tiers", "hiring", "office move"]);
+    expect(detectStagnation(input({ gs: same }), c).stagnant).toBe(true);
+    expect(detectStagnation(input({ gs: moving }), c).stagnant).toBe(false);
+  });
+
+  it("assistant_repetition quotes a phrase every reply shares", () => {
+    const replies = [
+      "You could start by listing the open risks for the launch.",
+      "Again, you could start by listing the open risks first.",
+      "As said, you could start by listing the open risks today.",
+    ];
+    const v = detectStagnation(input({ assistantTexts: replies }), only("assistant_repetition")).verdicts[0];
+    expect(v).toMatchObject({ detector: "assistant_repetition", available: true, stagnant: true });
+    expect(v.evidence).toContain("all contain");
+  });
+
+  it("user_repetition finds the same question asked again, but ignores short replies", () => {
+    const c = only("user_repetition");
+    const asked = ["How do I reset my password?", "ok", "How do I reset my password??"];
+    const v = detectStagnation(input({ userTexts: asked }), c).verdicts[0];
+    expect(v).toMatchObject({ stagnant: true, value: 1 });
+    expect(v.evidence).toContain("2 turn(s) ago");
+    expect(detectStagnation(input({ userTexts: ["ok", "ok"] }), c).stagnant).toBe(false);
+  });
+
+  it("state_drift fires when the state swings while the FOCUS stays on the same terms", () => {
+    const c = only("state_drift");
+    const focus = ["launch plan", "launch plan", "plan launch", "launch", "launch plan", "plan"];
+    const swinging = [0.2, 0.5, 0.2, 0.5, 0.2, 0.5];
+    expect(detectStagnation(input({ gs: gate(swinging, focus) }), c).stagnant).toBe(true);
+    expect(detectStagnation(input({ gs: gate([0.3, 0.31, 0.3, 0.31, 0.3, 0.31], focus) }), c).stagnant).toBe(false);
+    const progressing = ["launch plan", "budget owner", "vendor contract", "qa schedule", "press release", "retro notes"];
+    expect(detectStagnation(input({ gs: gate(swinging, progressing) }), c).stagnant).toBe(false);
+  });
+});
+
+describe("policy", () => {
+  it("by default runs only state_flat, so a repeated question alone does not trigger a pulse", () => {
+    const asked = ["How do I reset my password?", "How do I reset my password?"];
+    const report = detectStagnation(input({ userTexts: asked }), cfg);
+    expect(report.verdicts.map((v) => v.detector)).toEqual(["state_flat"]);
+    expect(report.stagnant).toBe(false);
+    expect(detectStagnation(input({ userTexts: asked }), allOn).stagnant).toBe(true);
+  });
+
+  // focus_overlap (0.5) and state_drift (0.5) fire, state_flat does not
+  const gs = gate([0.2, 0.5, 0.2, 0.5, 0.2, 0.5, 0.2, 0.5], Array.from({ length: 8 }, () => "launch plan"));
+
+  it("weighted sums the firing weights against the threshold", () => {
+    const report = detectStagnation(input({ gs }), allOn);
+    expect(report.verdicts.filter((v) => v.stagnant).map((v) => v.detector)).toEqual(["focus_overlap", "state_drift"]);
+    expect(report).toMatchObject({ mode: "weighted", score: 1, stagnant: true });
+    expect(detectStagnation(input({ gs }), { ...allOn, policy: { mode: "weighted", threshold: 1.5 } }).stagnant).toBe(false);
+  });
+
+  it("any and all count firing detectors", () => {
+    expect(detectStagnation(input({ gs }), { ...allOn, policy: { mode: "any", threshold: 1 } }).stagnant).toBe(true);
+    const all = detectStagnation(input({ gs }), { ...allOn, policy: { mode: "all", threshold: 1 } });
+    expect(all).toMatchObject({ score: 2, threshold: 5, stagnant: false });
+  });
+
+  it("a flat, repeating gate still triggers the pulse with the default policy", () => {
+    const flat = gate(Array.from({ length: 8 }, () => 0.3), Array.from({ length: 8 }, () => "launch plan"));
+    const elig = pulseEligibility(flat, 20, DEFAULT_GATE_CONFIG.pulse);
+    expect(elig.stagnation_detected).toBe(true);
+    expect(elig.stagnation.verdicts.find((v) => v.detector === "state_flat")?.stagnant).toBe(true);
+  });
+});
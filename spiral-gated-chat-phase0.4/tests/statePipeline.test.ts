@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+import { createInitialGateState } from "@/lib/gating";
+import { combineState, fallbackState, scoreProbe, scoreProbeEnsemble } from "@/lib/statePipeline";
+import type { TokenLogprob } from "@/lib/types";
+
+const params = DEFAULT_GATE_CONFIG.state;
+const ens = { samples: 3, temperature: 0.7, aggregate: "mean" as const, disagreement_weight: 0.8 };
+
+function line(p: number): TokenLogprob[] {
+  const t = { token: "x", logprob: Math.log(p), top_logprobs: [{ token: "x", logprob: Math.log(p) }, { token: "y", logprob: Math.log(1 - p) }] };
+  return [t, t, { ...t, token: "\n" }];
+}
+
+describe("scoreProbeEnsemble", () => {
+  it("one sample scores exactly like scoreProbe", () => {
+    const a = createInitialGateState();
+    const b = createInitialGateState();
+    const single = scoreProbe(a, line(0.4), params);
+    const { ensemble, ...multi } = scoreProbeEnsemble(b, [{ dim: "GOAL", logprobs: line(0.4) }], params, ens);
+    expect(multi).toEqual(single);
+    expect(b).toEqual(a);
+    expect(ensemble.agreement).toBe(1);
+  });
+
+  it("moves the baselines once, by the aggregated metrics", () => {
+    const gs = createInitialGateState();
+    const before = gs.S.mean;
+    const r = scoreProbeEnsemble(gs, [0.2, 0.5, 0.8].map((p) => ({ dim: "GOAL", logprobs: line(p) })), params, ens);
+    expect(gs.S.mean).toBeCloseTo((1 - params.eta) * before + params.eta * (r.surprisal ?? 0));
+  });
+
+  it("DIM disagreement raises the score", () => {
+    const agree = scoreProbeEnsemble(
+      createInitialGateState(),
+      ["GOAL", "GOAL", "GOAL"].map((dim) => ({ dim, logprobs: line(0.5) })),
+      params,
+      ens
+    );
+    const split = scoreProbeEnsemble(
+      createInitialGateState(),
+      ["GOAL", "RISK", "META"].map((dim) => ({ dim, logprobs: line(0.5) })),
+      params,
+      ens
+    );
+    expect(split.ensemble.majority_dim).toBe("GOAL");
+    expect(split.ensemble.agreement).toBeCloseTo(1 / 3);
+    expect(split.score! - agree.score!).toBeCloseTo(0.8 * (2 / 3));
+    expect(split.raw_state).toBeGreaterThan(agree.raw_state);
+  });
+});
+
+describe("fallbackState", () => {
+  const input = { dim: "GOAL", difficulty: null, probeLatencyMs: null };
+
+  it("rates a long, structured, open question above a short remark", () => {
+    const gs = createInitialGateState();
+    const easy = fallbackState(gs, { ...input, userText: "thanks!" }, params);
+    const hard = fallbackState(
+      gs,
+      {
+        ...input,
+        userText:
+          "Why does `renderQueue.flush()` deadlock when two workers retry?\n- worker A holds the lock\n- worker B retries\nHow should we restructure it?",
+        difficulty: 5,
+      },
+      params
+    );
+    expect(hard.estimate!).toBeGreaterThan(easy.estimate! + 0.2);
+    expect(easy.signals.difficulty).toBeNull();
+    expect(hard.signals.difficulty).toBe(1);
+  });
+
+  it("reads probe latency against the session's own baseline", () => {
+    const gs = createInitialGateState();
+    for (let i = 0; i < 20; i++) fallbackState(gs, { ...input, userText: "hi", probeLatencyMs: 300 }, params);
+    const slow = fallbackState(gs, { ...input, userText: "hi", probeLatencyMs: 3000 }, params);
+    expect(slow.signals.latency!).toBeGreaterThan(0.9);
+    expect(gs.L).toBeDefined();
+  });
+});
+
+describe("combineState", () => {
+  it("labels the source and blends only when blend is set", () => {
+    expect(combineState(0.8, null, 0.3, params)).toEqual({ raw_state: 0.8, source: "logprobs" });
+    expect(combineState(null, 0.6, 0.3, params)).toEqual({ raw_state: 0.6, source: "fallback" });
+    expect(combineState(null, null, 0.3, params)).toEqual({ raw_state: 0.3, source: "held" });
+    expect(combineState(0.8, 0.4, 0.3, params)).toEqual({ raw_state: 0.8, source: "logprobs" });
+    const blended = { ...params, fallback: { ...params.fallback, blend: 0.2 } };
+    expect(combineState(0.8, 0.4, 0.3, blended)).toEqual({ raw_state: 0.8 * 0.8 + 0.2 * 0.4, source: "blended" });
+    const off = { ...params, fallback: { ...params.fallback, enabled: false } };
+    expect(combineState(null, 0.6, 0.3, off).source).toBe("held");
+  });
+});
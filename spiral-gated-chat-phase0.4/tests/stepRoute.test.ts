@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/step/route";
+
+beforeAll(() => {
+  vi.stubEnv("LLM_PROVIDER", "mock");
+  vi.stubEnv("SESSION_STORE", "memory");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+async function streamTurn(sessionId: string, userText: string, config?: unknown): Promise<string[]> {
+  const res = await POST(
+    new Request("http://localhost/api/step", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+      body: JSON.stringify({ sessionId, userText, config }),
+    })
+  );
+  expect(res.headers.get("content-type")).toContain("text/event-stream");
+  const body = await res.text();
+  return body
+    .split("\n\n")
+    .map((block) => block.match(/^event: (.+)$/m)?.[1])
+    .filter((e): e is string => !!e);
+}
+
+// consecutive repeats collapsed (deltas)
+function phases(events: string[]): string[] {
+  return events.filter((e, i) => e !== events[i - 1]);
+}
+
+describe("POST /api/step (SSE)", () => {
+  it("streams probe → state → pulse → deltas → main_done → done", async () => {
+    const events = await streamTurn(`sse-${Date.now()}`, "plan the launch");
+    expect(phases(events)).toEqual(["probe", "state", "pulse", "delta", "main_done", "done"]);
+  });
+
+  it("sends the previous turn's summary before the main deltas, never after done", async () => {
+    const id = `sse-summary-${Date.now()}`;
+    const config = { overrides: { budgets: { summary_update_interval: { from: 1, to: 1 } } } };
+    await streamTurn(id, "plan the launch", config);
+    const events = await streamTurn(id, "what about pricing?");
+    expect(phases(events)).toEqual(["probe", "state", "pulse", "summary", "delta", "main_done", "done"]);
+  });
+});
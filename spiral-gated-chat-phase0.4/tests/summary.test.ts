@@ -0,0 +1,78 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+import { clipWords, composeSummaryInjection, detectTopicShift, parseLayeredSummary } from "@/lib/summary";
+import type { AttentionLogEntry, MemoryState } from "@/lib/types";
+
+const cfg = DEFAULT_GATE_CONFIG.summary;
+
+function mem(over: Partial<MemoryState>): MemoryState {
+  return { summary: "", summary_updated_turn: -1, attn_log: [], fragments: [], ...over };
+}
+
+describe("clipWords", () => {
+  it("never exceeds the limit and cuts at a word boundary", () => {
+    expect(clipWords("deploy the service on friday", 16)).toBe("deploy the…");
+    fc.assert(
+      fc.property(fc.string({ maxLength: 300 }), fc.integer({ min: 0, max: 200 }), (s, max) => {
+        expect(clipWords(s, max).length).toBeLessThanOrEqual(max);
+      })
+    );
+  });
+});
+
+describe("parseLayeredSummary", () => {
+  it("reads both layers, or takes an unlabeled line as the headline", () => {
+    expect(parseLayeredSummary("HEADLINE: Postgres migration\nSUMMARY: Plan agreed; rollback open.", cfg)).toEqual({
+      headline: "Postgres migration",
+      paragraph: "Plan agreed; rollback open.",
+    });
+    expect(parseLayeredSummary("just one line", cfg)).toEqual({ headline: "just one line", paragraph: null });
+    expect(parseLayeredSummary("  ", cfg)).toBeNull();
+  });
+
+  it("strips markup around the labels only", () => {
+    expect(parseLayeredSummary("**HEADLINE:** **Retry config**\n**Summary**: set `MAX_RETRIES` to 2*3 in __init__.py", cfg)).toEqual({
+      headline: "Retry config",
+      paragraph: "set `MAX_RETRIES` to 2*3 in __init__.py",
+    });
+  });
+});
+
+describe("detectTopicShift", () => {
+  const frames = (xs: [string, string][], from = 2): AttentionLogEntry[] =>
+    xs.map(([dim, focus], i) => ({ turn: from + i, dim, focus }));
+  const open = { start_turn: 1, dim: "GOAL", focus: "database migration" };
+
+  it("closes on a new dominant DIM", () => {
+    const log = frames([["RISK", "database migration"], ["RISK", "migration rollback"], ["GOAL", "database migration"]]);
+    expect(detectTopicShift(open, log, 4, cfg)).toEqual({ shifted: true, reason: "DIM GOAL → RISK", since: 2 });
+  });
+
+  it("closes when every recent FOCUS drifted away", () => {
+    const log = frames([["GOAL", "billing export"], ["GOAL", "invoice format"], ["GOAL", "csv columns"]]);
+    expect(detectTopicShift(open, log, 4, cfg).shifted).toBe(true);
+  });
+
+  it("stays open on the same topic or before the window fills", () => {
+    const log = frames([["GOAL", "migration plan"], ["RISK", "database migration"], ["GOAL", "migration order"]]);
+    expect(detectTopicShift(open, log, 4, cfg).shifted).toBe(false);
+    expect(detectTopicShift(open, log.slice(0, 2), 3, cfg).shifted).toBe(false);
+  });
+});
+
+describe("composeSummaryInjection", () => {
+  const m = mem({
+    summary: "Postgres migration",
+    summary_paragraph: "The user is migrating to Postgres. Plan agreed; rollback still open.",
+    summary_segments: [{ start_turn: 1, end_turn: 4, dim: "GOAL", focus: "auth", text: "Login flow fixed via session cookies." }],
+  });
+
+  it("picks layers by budget", () => {
+    expect(composeSummaryInjection(m, 20, cfg)).toBeNull();
+    expect(composeSummaryInjection(m, 120, cfg)?.layers).toEqual(["headline"]);
+    const wide = composeSummaryInjection(m, 600, cfg);
+    expect(wide?.layers).toEqual(["paragraph", "segments"]);
+    expect(wide?.text).toContain("[t1–4 GOAL] Login flow fixed");
+  });
+});
@@ -0,0 +1,180 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GATE_CONFIG } from "@/lib/gateConfig";
+import type { LLMRequest } from "@/lib/llm";
+import { createMockProvider } from "@/lib/mockProvider";
+import { computeBudgets } from "@/lib/statePipeline";
+import {
+  evaluateExpression,
+  formatNumber,
+  offeredTools,
+  resolvePendingTool,
+  runToolLoop,
+  takeResolvedToolReport,
+  type ToolContext,
+} from "@/lib/tools";
+import type { MemoryState } from "@/lib/types";
+
+// tools are off by default
+const cfg = { ...DEFAULT_GATE_CONFIG.tools, enabled: true };
+
+function memory(): MemoryState {
+  return { summary: "", summary_updated_turn: 0, attn_log: [], fragments: [] };
+}
+
+function ctx(over: Partial<ToolContext> = {}): ToolContext {
+  return { memory: memory(), turn: 1, state: 0.6, dim: "GOAL", fragments: DEFAULT_GATE_CONFIG.fragments, now: 0, ...over };
+}
+
+function request(userText: string): LLMRequest {
+  return {
+    phase: "main",
+    model: "mock",
+    input: [{ role: "user", content: userText }],
+    temperature: 0,
+    max_output_tokens: 40,
+  };
+}
+
+describe("evaluateExpression", () => {
+  it("follows precedence, unary minus and right-associative powers", () => {
+    expect(evaluateExpression("2 + 3 * 4")).toBe(14);
+    expect(evaluateExpression("(2 + 3) * 4")).toBe(20);
+    expect(evaluateExpression("-2 ^ 2")).toBe(-4);
+    expect(evaluateExpression("2 ^ 3 ^ 2")).toBe(512);
+    expect(evaluateExpression("max(1, sqrt(16), 3) % 3")).toBe(1);
+    expect(formatNumber(evaluateExpression("0.1 + 0.2"))).toBe("0.3");
+  });
+
+  it("rejects anything that is not arithmetic", () => {
+    for (const bad of ["process.exit(1)", "1 +", "(1 + 2", "2 ** ", "1 / 0", "alert`1`"]) {
+      expect(() => evaluateExpression(bad)).toThrow();
+    }
+  });
+
+  it("agrees with integer arithmetic", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -1000, max: 1000 }), fc.integer({ min: -1000, max: 1000 }), (a, b) => {
+        expect(evaluateExpression(`${a} - (${b}) * 2`)).toBe(a - b * 2);
+      })
+    );
+  });
+});
+
+describe("runToolLoop", () => {
+  it("runs the calls and answers with their results", async () => {
+    const out = await runToolLoop({
+      provider: createMockProvider({ seed: 1 }),
+      request: request("what is 12 * 7?"),
+      maxIterations: 2,
+      cfg,
+      ctx: ctx(),
+    });
+    expect(out.iterations).toBe(1);
+    expect(out.calls).toMatchObject([{ name: "calculator", status: "ok", output: "12 * 7 = 84", iteration: 1 }]);
+    expect(out.result.text).toContain("84");
+  });
+
+  it("offers no tools when disabled or the state allows no rounds", async () => {
+    const out = await runToolLoop({
+      provider: createMockProvider({ seed: 1 }),
+      request: request("what is 12 * 7?"),
+      maxIterations: computeBudgets(0, DEFAULT_GATE_CONFIG.budgets).tool_iterations,
+      cfg,
+      ctx: ctx(),
+    });
+    expect(out.calls).toEqual([]);
+    expect(computeBudgets(1, DEFAULT_GATE_CONFIG.budgets).tool_iterations).toBeGreaterThan(0);
+    expect(offeredTools(DEFAULT_GATE_CONFIG.tools, 4)).toEqual([]);
+  });
+
+  it("stops offering tools after the last round", async () => {
+    const call = { id: "c1", name: "clock", arguments: "{}" };
+    const provider = createMockProvider({
+      script: [
+        { phase: "main", text: "", tool_calls: [call] },
+        { phase: "main", text: "", tool_calls: [{ ...call, id: "c2" }] },
+        { phase: "main", text: "done", tool_calls: [{ ...call, id: "c3" }] },
+      ],
+    });
+    const out = await runToolLoop({ provider, request: request("time?"), maxIterations: 2, cfg, ctx: ctx() });
+    expect(out.iterations).toBe(2);
+    expect(out.calls.map((c) => c.id)).toEqual(["c1", "c2"]);
+    expect(out.result.text).toBe("done");
+  });
+
+  it("resets the streamed text after each tool round, so it ends as the stored answer", async () => {
+    const call = { id: "c1", name: "clock", arguments: "{}" };
+    const provider = createMockProvider({
+      script: [
+        { phase: "main", text: "let me check", tool_calls: [call] },
+        { phase: "main", text: "it is noon" },
+      ],
+    });
+    let streamed = "";
+    const out = await runToolLoop({
+      provider,
+      request: request("time?"),
+      maxIterations: 2,
+      cfg,
+      ctx: ctx(),
+      onDelta: (d) => (streamed += d),
+      onReset: () => (streamed = ""),
+    });
+    expect(out.iterations).toBe(1);
+    expect(streamed).toBe(out.result.text);
+  });
+
+  it("reports bad arguments and unknown tools back to the model", async () => {
+    const provider = createMockProvider({
+      script: [
+        {
+          phase: "main",
+          text: "",
+          tool_calls: [
+            { id: "a", name: "calculator", arguments: "{\"expression\": 1}" },
+            { id: "b", name: "shell", arguments: "{}" },
+          ],
+        },
+      ],
+    });
+    const out = await runToolLoop({ provider, request: request("x"), maxIterations: 1, cfg, ctx: ctx() });
+    expect(out.calls.map((c) => c.status)).toEqual(["error", "unknown_tool"]);
+    expect(out.calls[0].output).toMatch(/^error: invalid arguments at expression/);
+  });
+});
+
+describe("confirmation", () => {
+  it("holds calls in a RISK frame and runs them once approved", async () => {
+    const c = ctx({ dim: "RISK" });
+    const out = await runToolLoop({
+      provider: createMockProvider({ seed: 1 }),
+      request: request("remember that the launch is on friday"),
+      maxIterations: 2,
+      cfg,
+      ctx: c,
+    });
+    expect(out.calls[0]).toMatchObject({ name: "scratchpad", status: "needs_confirmation" });
+    expect(c.memory.fragments).toHaveLength(0);
+    expect(out.pending).toHaveLength(1);
+
+    const p = resolvePendingTool(out.pending[0], true, c, cfg);
+    expect(p.status).toBe("approved");
+    expect(c.memory.fragments.map((f) => f.text)).toEqual(["[FACT] the launch is on friday"]);
+
+    const report = takeResolvedToolReport(out.pending);
+    expect(report.text).toContain("approved");
+    expect(takeResolvedToolReport(out.pending).text).toBeNull();
+  });
+
+  it("with scope side_effects, read-only tools run in a RISK frame", async () => {
+    const out = await runToolLoop({
+      provider: createMockProvider({ seed: 1 }),
+      request: request("what is 3 + 4?"),
+      maxIterations: 1,
+      cfg: { ...cfg, confirm: { dims: ["RISK"], scope: "side_effects" } },
+      ctx: ctx({ dim: "RISK" }),
+    });
+    expect(out.calls).toMatchObject([{ name: "calculator", status: "ok" }]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { appendTurnRecord } from "@/lib/turnLog";
+import type { TurnRecord } from "@/lib/types";
+
+function record(turn: number): TurnRecord {
+  return {
+    turn,
+    state: 0.5,
+    raw_state: 0.5,
+    state_source: "logprobs",
+    zS: null,
+    zH: null,
+    score: null,
+    dim: "GOAL",
+    focus: "x",
+    next: null,
+    meta_cap_stage: 2,
+    budgets: { context_tokens: 1000, max_output_tokens: 400, summary_chars: 300, attn_items: 4, frag_items: 4 },
+    pulse: { triggered: false, stagnation_detected: false },
+  };
+}
+
+describe("appendTurnRecord", () => {
+  it("keeps the newest max records", () => {
+    const log = [1, 2, 3].reduce<TurnRecord[]>((l, t) => appendTurnRecord(l, record(t), 2), []);
+    expect(log.map((r) => r.turn)).toEqual([2, 3]);
+  });
+
+  it("keeps nothing when max is 0", () => {
+    expect(appendTurnRecord([record(1)], record(2), 0)).toEqual([]);
+  });
+});